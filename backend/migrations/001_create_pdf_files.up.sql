@@ -0,0 +1,15 @@
+-- Tabela principal dos documentos e seus índices
+CREATE TABLE IF NOT EXISTS pdf_files (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  custom_name VARCHAR(255) NOT NULL,
+  original_name VARCHAR(255) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  file_path VARCHAR(500) NOT NULL,
+  file_size BIGINT NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  upload_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_name ON pdf_files(custom_name);
+CREATE INDEX IF NOT EXISTS idx_upload_date ON pdf_files(upload_date);
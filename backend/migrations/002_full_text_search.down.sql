@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_search_vector;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS content_text;
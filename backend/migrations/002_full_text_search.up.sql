@@ -0,0 +1,8 @@
+-- Busca full-text no conteúdo dos PDFs
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS content_text TEXT;
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('portuguese'::regconfig, coalesce(custom_name, '')), 'A') ||
+    setweight(to_tsvector('portuguese'::regconfig, coalesce(content_text, '')), 'B')
+  ) STORED;
+CREATE INDEX IF NOT EXISTS idx_search_vector ON pdf_files USING GIN(search_vector);
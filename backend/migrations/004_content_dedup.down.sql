@@ -0,0 +1,4 @@
+-- A normalização das chaves de storage não é desfeita
+DROP INDEX IF EXISTS idx_content_hash;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS content_hash;
+DROP TABLE IF EXISTS pdf_blobs;
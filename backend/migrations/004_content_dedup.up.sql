@@ -0,0 +1,16 @@
+-- Deduplicação por conteúdo: arquivos idênticos compartilham um blob físico
+CREATE TABLE IF NOT EXISTS pdf_blobs (
+  content_hash CHAR(64) PRIMARY KEY,
+  file_name VARCHAR(255) NOT NULL,
+  file_path VARCHAR(500) NOT NULL,
+  file_size BIGINT NOT NULL,
+  ref_count INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS content_hash CHAR(64);
+CREATE INDEX IF NOT EXISTS idx_content_hash ON pdf_files(content_hash);
+
+-- file_path passou a ser a chave no storage; uploads antigos guardavam
+-- o caminho UPLOAD_DIR/<file_name>, então a chave é o próprio file_name
+UPDATE pdf_files SET file_path = file_name WHERE file_path <> file_name;
+UPDATE pdf_blobs SET file_path = file_name WHERE file_path <> file_name;
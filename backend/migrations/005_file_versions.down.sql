@@ -0,0 +1,3 @@
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS version_count;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS current_version;
+DROP TABLE IF EXISTS pdf_file_versions;
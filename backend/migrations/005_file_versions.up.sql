@@ -0,0 +1,24 @@
+-- Histórico de versões: cada versão segura uma referência ao seu blob
+CREATE TABLE IF NOT EXISTS pdf_file_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES pdf_files(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  original_name VARCHAR(255) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  file_path VARCHAR(500) NOT NULL,
+  file_size BIGINT NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  content_hash CHAR(64),
+  content_text TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (file_id, version_number)
+);
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS version_count INTEGER NOT NULL DEFAULT 1;
+
+-- Arquivos anteriores ao versionamento viram a versão 1
+INSERT INTO pdf_file_versions
+  (file_id, version_number, original_name, file_name, file_path, file_size, mime_type, content_hash, content_text, created_at)
+SELECT id, 1, original_name, file_name, file_path, file_size, mime_type, content_hash, content_text, upload_date
+FROM pdf_files f
+WHERE NOT EXISTS (SELECT 1 FROM pdf_file_versions v WHERE v.file_id = f.id);
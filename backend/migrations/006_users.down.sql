@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_owner_id;
+ALTER TABLE upload_sessions DROP COLUMN IF EXISTS owner_id;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS owner_id;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,14 @@
+-- Links públicos de compartilhamento
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token VARCHAR(64) NOT NULL UNIQUE,
+  file_id UUID NOT NULL REFERENCES pdf_files(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE CASCADE,
+  password_hash VARCHAR(255),
+  expires_at TIMESTAMP,
+  max_downloads INTEGER,
+  download_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_share_links_file_id ON share_links(file_id);
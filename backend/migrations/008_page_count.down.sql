@@ -0,0 +1,2 @@
+ALTER TABLE pdf_file_versions DROP COLUMN IF EXISTS page_count;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS page_count;
@@ -0,0 +1,3 @@
+-- Número de páginas (miniaturas e visualizador); nulo até a primeira renderização
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS page_count INTEGER;
+ALTER TABLE pdf_file_versions ADD COLUMN IF NOT EXISTS page_count INTEGER;
@@ -0,0 +1,21 @@
+DROP INDEX IF EXISTS idx_author;
+ALTER TABLE pdf_files
+  DROP COLUMN IF EXISTS pdf_version,
+  DROP COLUMN IF EXISTS title,
+  DROP COLUMN IF EXISTS author,
+  DROP COLUMN IF EXISTS subject,
+  DROP COLUMN IF EXISTS producer,
+  DROP COLUMN IF EXISTS pdf_created_at,
+  DROP COLUMN IF EXISTS is_encrypted,
+  DROP COLUMN IF EXISTS is_signed,
+  DROP COLUMN IF EXISTS has_forms;
+ALTER TABLE pdf_file_versions
+  DROP COLUMN IF EXISTS pdf_version,
+  DROP COLUMN IF EXISTS title,
+  DROP COLUMN IF EXISTS author,
+  DROP COLUMN IF EXISTS subject,
+  DROP COLUMN IF EXISTS producer,
+  DROP COLUMN IF EXISTS pdf_created_at,
+  DROP COLUMN IF EXISTS is_encrypted,
+  DROP COLUMN IF EXISTS is_signed,
+  DROP COLUMN IF EXISTS has_forms;
@@ -0,0 +1,22 @@
+-- Metadados do PDF (dicionário Info e características do documento)
+ALTER TABLE pdf_files
+  ADD COLUMN IF NOT EXISTS pdf_version VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS title VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS author VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS subject VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS producer VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS pdf_created_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS is_encrypted BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS is_signed BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS has_forms BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE pdf_file_versions
+  ADD COLUMN IF NOT EXISTS pdf_version VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS title VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS author VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS subject VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS producer VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS pdf_created_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS is_encrypted BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS is_signed BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS has_forms BOOLEAN NOT NULL DEFAULT false;
+CREATE INDEX IF NOT EXISTS idx_author ON pdf_files(author);
@@ -0,0 +1,6 @@
+ALTER TABLE upload_sessions DROP COLUMN IF EXISTS tags;
+ALTER TABLE upload_sessions DROP COLUMN IF EXISTS folder_id;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS folder_id;
+DROP TABLE IF EXISTS pdf_file_tags;
+DROP TABLE IF EXISTS tags;
+DROP TABLE IF EXISTS folders;
@@ -0,0 +1,3 @@
+-- Lixeira: exclusão marca a data; a remoção definitiva é feita depois
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+CREATE INDEX IF NOT EXISTS idx_deleted_at ON pdf_files(deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Uploads reprovados na validação do conteúdo, guardados fora da biblioteca
+CREATE TABLE IF NOT EXISTS quarantined_files (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  original_name VARCHAR(255) NOT NULL,
+  storage_key VARCHAR(500) NOT NULL,
+  file_size BIGINT NOT NULL,
+  reason_code VARCHAR(30) NOT NULL,
+  reason VARCHAR(500) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_quarantined_files_owner_id ON quarantined_files(owner_id);
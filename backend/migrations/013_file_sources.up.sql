@@ -0,0 +1,12 @@
+-- Origem dos documentos gerados por junção, divisão, extração ou rotação de páginas
+CREATE TABLE IF NOT EXISTS pdf_file_sources (
+  file_id UUID NOT NULL REFERENCES pdf_files(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  source_file_id UUID REFERENCES pdf_files(id) ON DELETE SET NULL,
+  source_version INTEGER NOT NULL,
+  source_name VARCHAR(255) NOT NULL,
+  operation VARCHAR(20) NOT NULL,
+  pages INTEGER[] NOT NULL,
+  PRIMARY KEY (file_id, position)
+);
+CREATE INDEX IF NOT EXISTS idx_pdf_file_sources_source ON pdf_file_sources(source_file_id);
@@ -0,0 +1,29 @@
+-- Registro de auditoria das ações sobre documentos. Só recebe inserções:
+-- sem chaves estrangeiras, para sobreviver à exclusão do documento ou do usuário
+CREATE TABLE IF NOT EXISTS audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  actor_id UUID,
+  actor_email VARCHAR(255),
+  ip VARCHAR(45),
+  user_agent VARCHAR(500),
+  file_id UUID,
+  file_name VARCHAR(255),
+  action VARCHAR(30) NOT NULL,
+  result VARCHAR(10) NOT NULL CHECK (result IN ('success', 'failure', 'denied')),
+  details JSONB
+);
+CREATE INDEX IF NOT EXISTS idx_audit_events_file_id ON audit_events(file_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events(occurred_at);
+
+CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events só aceita inserções';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
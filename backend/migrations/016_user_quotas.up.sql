@@ -0,0 +1,3 @@
+-- Cotas definidas por usuário; NULL segue o padrão da configuração e 0 libera sem limite
+ALTER TABLE users ADD COLUMN IF NOT EXISTS quota_bytes BIGINT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS quota_files INTEGER;
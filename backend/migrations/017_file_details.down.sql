@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS pdf_file_changes;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS properties;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS reference_number;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS document_date;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS description;
@@ -0,0 +1,15 @@
+-- Dados descritivos editáveis depois do upload e o histórico das alterações
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS document_date DATE;
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS reference_number VARCHAR(100);
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS properties JSONB NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS pdf_file_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES pdf_files(id) ON DELETE CASCADE,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  -- { "campo": { "from": ..., "to": ... } }
+  changes JSONB NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_pdf_file_changes_file_id ON pdf_file_changes(file_id, changed_at);
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_pdf_files_storage_issue;
+ALTER TABLE pdf_files DROP COLUMN IF EXISTS storage_issue;
@@ -0,0 +1,4 @@
+-- Problema encontrado pela verificação do storage no conteúdo atual do documento
+-- ('missing', 'size_mismatch' ou 'hash_mismatch'); NULL quando o objeto está íntegro
+ALTER TABLE pdf_files ADD COLUMN IF NOT EXISTS storage_issue VARCHAR(20);
+CREATE INDEX IF NOT EXISTS idx_pdf_files_storage_issue ON pdf_files(storage_issue) WHERE storage_issue IS NOT NULL;
@@ -0,0 +1,8 @@
+-- Sessões de upload retomável expiram; as abandonadas (e suas partes em CHUNKS_DIR) são removidas
+-- pela limpeza periódica. As existentes ganham o prazo a partir da última atividade.
+ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+UPDATE upload_sessions SET expires_at = COALESCE(updated_at, created_at, CURRENT_TIMESTAMP) + INTERVAL '24 hours'
+WHERE expires_at IS NULL;
+ALTER TABLE upload_sessions ALTER COLUMN expires_at SET DEFAULT CURRENT_TIMESTAMP + INTERVAL '24 hours';
+ALTER TABLE upload_sessions ALTER COLUMN expires_at SET NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at);
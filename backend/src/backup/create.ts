@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+import { withTransaction } from '../database/config';
+import { storage, createTempPath } from '../storage';
+import { TarWriter } from './tar';
+import {
+  BACKUP_FORMAT, BACKUP_FORMAT_VERSION, BACKUP_TABLES, BackupManifest, BackupObjectEntry, BackupTableEntry,
+  MANIFEST_CHECKSUM_PATH, MANIFEST_PATH, loadColumns, quoteIdentifier
+} from './tables';
+
+dotenv.config();
+
+const USAGE = 'Uso: npm run backup -- <arquivo.tar.gz> [--since <data ISO>]';
+
+const FETCH_SIZE = 500;
+
+// Registros gravados pouco antes do snapshot podem ter ficado visíveis só depois dele;
+// o incremental volta um pouco antes do --since para não perdê-los
+const INCREMENTAL_MARGIN = '10 minutes';
+
+const parseArgs = (argv: string[]) => {
+  const sinceIndex = argv.indexOf('--since');
+  return {
+    output: argv.find((arg, index) => !arg.startsWith('--') && argv[index - 1] !== '--since'),
+    since: sinceIndex >= 0 ? argv[sinceIndex + 1] : undefined
+  };
+};
+
+/**
+ * Gera um único .tar.gz com:
+ * - database/<tabela>.jsonl: todas as linhas de cada tabela, de um mesmo
+ *   snapshot (transação REPEATABLE READ), inclusive nos incrementais, para
+ *   que remoções também sejam restauradas;
+ * - objects/NNNNNN: os PDFs do storage (chaves no manifesto). No incremental,
+ *   só os dos documentos alterados (updated_at) e da quarentena desde --since;
+ * - manifest.json com tamanho e SHA-256 de cada entrada, e manifest.sha256.
+ */
+async function createBackup(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  let output: string | null = null;
+  const tempFiles: string[] = [];
+
+  try {
+    if (!args.output || (args.since !== undefined && isNaN(Date.parse(args.since)))) {
+      console.log(USAGE);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (fs.existsSync(path.resolve(args.output))) {
+      console.log(`❌ O arquivo de destino já existe: ${path.resolve(args.output)}`);
+      process.exitCode = 1;
+      return;
+    }
+    output = path.resolve(args.output);
+    const since = args.since ? new Date(args.since).toISOString() : null;
+    console.log(`🔄 Gerando backup ${since ? `incremental desde ${since}` : 'completo'} em ${output}...`);
+
+    const snapshot = await withTransaction(async client => {
+      await client.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ, READ ONLY');
+      const info = await client.query(
+        'SELECT now() AS snapshot_at, (SELECT MAX(version) FROM schema_migrations) AS schema_version'
+      );
+
+      const tables: { table: string; rows: number; tempPath: string }[] = [];
+      for (const { name, orderBy } of BACKUP_TABLES) {
+        const columns = (await loadColumns(client, name)).map(quoteIdentifier).join(', ');
+        const tempPath = createTempPath(`${name}.jsonl`);
+        tempFiles.push(tempPath);
+        const out = fs.createWriteStream(tempPath);
+        let rows = 0;
+
+        await client.query(
+          `DECLARE backup_rows NO SCROLL CURSOR FOR
+           SELECT to_jsonb(r)::text AS row FROM (SELECT ${columns} FROM ${name} ORDER BY ${orderBy}) r`
+        );
+        for (;;) {
+          const batch = await client.query(`FETCH ${FETCH_SIZE} FROM backup_rows`);
+          if (batch.rows.length === 0) break;
+          out.write(batch.rows.map(row => row.row + '\n').join(''));
+          rows += batch.rows.length;
+        }
+        await client.query('CLOSE backup_rows');
+        await new Promise<void>((resolve, reject) => out.end((error?: Error | null) => (error ? reject(error) : resolve())));
+        tables.push({ table: name, rows, tempPath });
+      }
+
+      const keys = since
+        ? await client.query(
+          `SELECT f.file_path AS key FROM pdf_files f WHERE f.updated_at >= $1::timestamptz - $2::interval
+           UNION
+           SELECT v.file_path FROM pdf_file_versions v JOIN pdf_files f ON f.id = v.file_id
+           WHERE f.updated_at >= $1::timestamptz - $2::interval
+           UNION
+           SELECT storage_key FROM quarantined_files WHERE created_at >= $1::timestamptz - $2::interval
+           ORDER BY key`,
+          [since, INCREMENTAL_MARGIN]
+        )
+        : await client.query(
+          `SELECT file_path AS key FROM pdf_blobs
+           UNION SELECT file_path FROM pdf_files
+           UNION SELECT file_path FROM pdf_file_versions
+           UNION SELECT storage_key FROM quarantined_files
+           ORDER BY key`
+        );
+
+      return {
+        snapshotAt: new Date(info.rows[0].snapshot_at).toISOString(),
+        schemaVersion: info.rows[0].schema_version ?? 0,
+        tables,
+        keys: keys.rows.map(row => row.key as string)
+      };
+    });
+
+    const writer = new TarWriter(output);
+    const tableEntries: BackupTableEntry[] = [];
+    for (const { table, rows, tempPath } of snapshot.tables) {
+      const entryPath = `database/${table}.jsonl`;
+      const { size } = await fs.promises.stat(tempPath);
+      const entry = await writer.addStream(entryPath, size, fs.createReadStream(tempPath));
+      tableEntries.push({ table, rows, path: entryPath, ...entry });
+      console.log(`   ${table}: ${rows} registro(s)`);
+    }
+
+    // Os objetos são imutáveis (cada conteúdo tem sua chave), então podem ser copiados fora da transação
+    const objects: BackupObjectEntry[] = [];
+    const missingObjects: string[] = [];
+    let totalBytes = 0;
+    for (const [index, key] of snapshot.keys.entries()) {
+      const info = await storage.stat(key);
+      if (!info) {
+        console.log(`⚠️  Objeto não encontrado no storage: ${key}`);
+        missingObjects.push(key);
+        continue;
+      }
+      const entryPath = `objects/${String(objects.length + 1).padStart(6, '0')}`;
+      const entry = await writer.addStream(entryPath, info.size, await storage.createReadStream(key));
+      objects.push({ key, path: entryPath, ...entry });
+      totalBytes += entry.size;
+      if ((index + 1) % 100 === 0) {
+        console.log(`   ${index + 1}/${snapshot.keys.length} objeto(s)...`);
+      }
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      kind: since ? 'incremental' : 'full',
+      createdAt: new Date().toISOString(),
+      snapshotAt: snapshot.snapshotAt,
+      since,
+      schemaVersion: snapshot.schemaVersion,
+      storageDriver: storage.name,
+      tables: tableEntries,
+      objects,
+      missingObjects
+    };
+    const manifestData = Buffer.from(JSON.stringify(manifest, null, 2));
+    await writer.addBuffer(MANIFEST_PATH, manifestData);
+    const manifestHash = crypto.createHash('sha256').update(manifestData).digest('hex');
+    await writer.addBuffer(MANIFEST_CHECKSUM_PATH, Buffer.from(`${manifestHash}  ${MANIFEST_PATH}\n`));
+    await writer.finish();
+
+    console.log(`🎉 Backup concluído: ${objects.length} objeto(s) (${totalBytes} bytes)` +
+      `${missingObjects.length > 0 ? `, ${missingObjects.length} ausente(s) no storage` : ''}`);
+    console.log(`📝 Próximo incremental: npm run backup -- <arquivo> --since ${snapshot.snapshotAt}`);
+    if (missingObjects.length > 0) process.exitCode = 1;
+    output = null;
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+    process.exitCode = 1;
+  } finally {
+    // Não deixa um arquivo parcial que pareça um backup
+    if (output) await fs.promises.rm(output, { force: true }).catch(() => undefined);
+    await Promise.all(tempFiles.map(file => fs.promises.rm(file, { force: true })));
+    process.exit();
+  }
+}
+
+createBackup();
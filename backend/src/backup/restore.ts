@@ -0,0 +1,414 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { PoolClient } from 'pg';
+import dotenv from 'dotenv';
+
+import { query, withTransaction } from '../database/config';
+import { assertMigrationsApplied } from '../database/migrations';
+import { storage, createTempPath } from '../storage';
+import { extractTar } from './tar';
+import {
+  BACKUP_FORMAT, BACKUP_FORMAT_VERSION, BACKUP_TABLES, BackupManifest, BackupTable, MANIFEST_CHECKSUM_PATH,
+  MANIFEST_PATH, RemappedTable, loadColumns, quoteIdentifier
+} from './tables';
+
+dotenv.config();
+
+const USAGE = 'Uso: npm run restore -- <backup.tar.gz> [<incremental.tar.gz>...] [--merge] [--dry-run] [--allow-missing]';
+
+const INSERT_BATCH_SIZE = 200;
+const NO_PARENT = '00000000-0000-0000-0000-000000000000';
+
+type Row = Record<string, any>;
+
+interface ExtractedBackup {
+  archive: string;
+  dir: string;
+  manifest: BackupManifest;
+}
+
+// Onde está, já extraído, cada objeto dos backups
+interface ObjectSource {
+  file: string;
+  size: number;
+}
+
+const parseArgs = (argv: string[]) => ({
+  archives: argv.filter(arg => !arg.startsWith('--')),
+  merge: argv.includes('--merge'),
+  dryRun: argv.includes('--dry-run'),
+  allowMissing: argv.includes('--allow-missing')
+});
+
+/**
+ * Extrai o arquivo e confere o manifesto (manifest.sha256) e o tamanho e o
+ * SHA-256 de cada tabela e objeto listado nele.
+ */
+const extractBackup = async (archive: string, tempDirs: string[]): Promise<ExtractedBackup> => {
+  const label = path.basename(archive);
+  const dir = createTempPath('restore');
+  tempDirs.push(dir);
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const entries = await extractTar(archive, dir).catch((error: Error) => {
+    throw new Error(`${label}: arquivo ilegível (${error.message})`);
+  });
+  const manifestEntry = entries.get(MANIFEST_PATH);
+  const expected = entries.has(MANIFEST_CHECKSUM_PATH)
+    ? (await fs.promises.readFile(path.join(dir, MANIFEST_CHECKSUM_PATH), 'utf8')).split(/\s+/)[0]
+    : null;
+  if (!manifestEntry || manifestEntry.sha256 !== expected) {
+    throw new Error(`${label}: manifesto ausente ou corrompido`);
+  }
+
+  const manifest: BackupManifest = JSON.parse(await fs.promises.readFile(path.join(dir, MANIFEST_PATH), 'utf8'));
+  if (manifest.format !== BACKUP_FORMAT || manifest.version !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`${label}: formato de backup não suportado`);
+  }
+  for (const entry of [...manifest.tables, ...manifest.objects]) {
+    const actual = entries.get(entry.path);
+    if (!actual || actual.size !== entry.size || actual.sha256 !== entry.sha256) {
+      throw new Error(`${label}: checksum não confere em ${entry.path}`);
+    }
+  }
+  return { archive, dir, manifest };
+};
+
+// Linhas de uma tabela do backup, em lotes
+async function* readRows(backup: ExtractedBackup, table: string, batchSize: number = INSERT_BATCH_SIZE): AsyncIterable<Row[]> {
+  const entry = backup.manifest.tables.find(item => item.table === table);
+  if (!entry) return;
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(path.join(backup.dir, ...entry.path.split('/'))),
+    crlfDelay: Infinity
+  });
+  let batch: Row[] = [];
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    batch.push(JSON.parse(line));
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield batch;
+}
+
+const readAllRows = async (backup: ExtractedBackup, table: string): Promise<Row[]> => {
+  const rows: Row[] = [];
+  for await (const batch of readRows(backup, table)) rows.push(...batch);
+  return rows;
+};
+
+// Pais antes dos filhos, para respeitar a chave estrangeira parent_id
+const sortFolders = (folders: Row[]): Row[] => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const depth = (folder: Row): number => {
+    let level = 0;
+    for (let parent = byId.get(folder.parent_id); parent && level < folders.length; parent = byId.get(parent.parent_id)) {
+      level++;
+    }
+    return level;
+  };
+  return folders
+    .map(folder => ({ folder, level: depth(folder) }))
+    .sort((a, b) => a.level - b.level)
+    .map(item => item.folder);
+};
+
+/**
+ * No merge, usuários (e-mail), pastas (dono, pasta pai e nome) e tags (dono
+ * e nome) que já existem no destino são reaproveitados: as referências do
+ * backup passam a apontar para os ids do destino.
+ */
+const buildIdMaps = async (client: PoolClient, backup: ExtractedBackup): Promise<Record<RemappedTable, Map<string, string>>> => {
+  const maps: Record<RemappedTable, Map<string, string>> = { users: new Map(), folders: new Map(), tags: new Map() };
+  const mapId = (table: RemappedTable, id: string | null) => (id ? maps[table].get(id) ?? id : null);
+
+  const users = await readAllRows(backup, 'users');
+  const existingUsers = await client.query('SELECT id, email FROM users WHERE email = ANY($1)', [users.map(user => user.email)]);
+  const userIds = new Map<string, string>(existingUsers.rows.map(row => [row.email, row.id]));
+  for (const user of users) {
+    const targetId = userIds.get(user.email);
+    if (targetId && targetId !== user.id) maps.users.set(user.id, targetId);
+  }
+
+  for (const folder of sortFolders(await readAllRows(backup, 'folders'))) {
+    const existing = await client.query(
+      `SELECT id FROM folders
+       WHERE owner_id = $1 AND COALESCE(parent_id, $2::uuid) = COALESCE($3::uuid, $2::uuid) AND lower(name) = lower($4)`,
+      [mapId('users', folder.owner_id), NO_PARENT, mapId('folders', folder.parent_id), folder.name]
+    );
+    if (existing.rows[0] && existing.rows[0].id !== folder.id) maps.folders.set(folder.id, existing.rows[0].id);
+  }
+
+  for (const tag of await readAllRows(backup, 'tags')) {
+    const existing = await client.query(
+      'SELECT id FROM tags WHERE owner_id = $1 AND lower(name) = lower($2)',
+      [mapId('users', tag.owner_id), tag.name]
+    );
+    if (existing.rows[0] && existing.rows[0].id !== tag.id) maps.tags.set(tag.id, existing.rows[0].id);
+  }
+
+  return maps;
+};
+
+/**
+ * No merge, conteúdos que o destino já tem (mesmo content_hash) sob outra
+ * chave passam a usar o objeto do destino. Retorna chave do backup → blob do destino.
+ */
+const buildBlobMap = async (backup: ExtractedBackup): Promise<Map<string, { file_name: string; file_path: string }>> => {
+  const blobs = await readAllRows(backup, 'pdf_blobs');
+  const existing = await query(
+    'SELECT content_hash, file_name, file_path FROM pdf_blobs WHERE content_hash = ANY($1)',
+    [blobs.map(blob => blob.content_hash)]
+  );
+  const byHash = new Map<string, { file_name: string; file_path: string }>(existing.rows.map(row => [row.content_hash, row]));
+
+  const map = new Map<string, { file_name: string; file_path: string }>();
+  for (const blob of blobs) {
+    const target = byHash.get(blob.content_hash);
+    if (target && target.file_path !== blob.file_path) {
+      map.set(blob.file_path, { file_name: target.file_name, file_path: target.file_path });
+    }
+  }
+  return map;
+};
+
+// Chaves do storage referenciadas pelo banco do backup
+const referencedKeys = async (backup: ExtractedBackup, blobMap: Map<string, { file_path: string }>): Promise<Set<string>> => {
+  const keys = new Set<string>();
+  const add = (key: string) => keys.add(blobMap.get(key)?.file_path ?? key);
+
+  for (const table of ['pdf_blobs', 'pdf_files', 'pdf_file_versions']) {
+    for await (const rows of readRows(backup, table)) rows.forEach(row => add(row.file_path));
+  }
+  for await (const rows of readRows(backup, 'quarantined_files')) rows.forEach(row => add(row.storage_key));
+  return keys;
+};
+
+interface TableResult {
+  inserted: number;
+  skipped: number;
+}
+
+/**
+ * Insere as linhas do backup na tabela. Linhas que já existem (mesma chave
+ * primária ou valor único) são mantidas como estão no destino.
+ */
+const restoreTable = async (
+  client: PoolClient,
+  backup: ExtractedBackup,
+  table: BackupTable,
+  transform: (row: Row) => Row | null,
+  merge: boolean
+): Promise<TableResult> => {
+  const result: TableResult = { inserted: 0, skipped: 0 };
+  // No merge, os ids dos eventos de auditoria são do outro banco; o destino gera novos
+  const keepIds = !(merge && table.name === 'audit_events');
+  const columns = (await loadColumns(client, table.name)).filter(column => keepIds || column !== 'id');
+  const columnList = columns.map(quoteIdentifier).join(', ');
+  const duplicateCheck = keepIds
+    ? 'ON CONFLICT DO NOTHING'
+    : `WHERE NOT EXISTS (
+         SELECT 1 FROM audit_events e
+         WHERE e.occurred_at = r.occurred_at AND e.action = r.action
+           AND e.file_id IS NOT DISTINCT FROM r.file_id AND e.actor_email IS NOT DISTINCT FROM r.actor_email
+       )`;
+
+  const insert = async (rows: Row[]) => {
+    if (rows.length === 0) return;
+    const inserted = await client.query(
+      `INSERT INTO ${table.name} (${columnList})
+       SELECT ${columns.map(column => `r.${quoteIdentifier(column)}`).join(', ')}
+       FROM json_populate_recordset(NULL::${table.name}, $1::json) r
+       ${duplicateCheck}`,
+      [JSON.stringify(rows)]
+    );
+    result.inserted += inserted.rowCount ?? 0;
+    result.skipped += rows.length - (inserted.rowCount ?? 0);
+  };
+
+  const handle = async (rows: Row[]) => {
+    const transformed = rows.map(transform);
+    result.skipped += transformed.filter(row => row === null).length;
+    await insert(transformed.filter((row): row is Row => row !== null));
+  };
+
+  if (table.name === 'folders') {
+    // Em ordem de profundidade, para que os pais sejam inseridos em lotes anteriores aos filhos
+    const folders = sortFolders(await readAllRows(backup, 'folders'));
+    for (let start = 0; start < folders.length; start += INSERT_BATCH_SIZE) {
+      await handle(folders.slice(start, start + INSERT_BATCH_SIZE));
+    }
+  } else {
+    for await (const rows of readRows(backup, table.name)) await handle(rows);
+  }
+  return result;
+};
+
+/**
+ * Restaura um backup completo, seguido opcionalmente dos incrementais.
+ * O banco vem do backup mais recente (cada um traz todas as linhas) e os
+ * objetos, de qualquer um deles. Sem --merge, o destino precisa estar vazio;
+ * com --merge, só o que falta é acrescentado e documentos já existentes não
+ * são alterados.
+ */
+async function restoreBackup(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const tempDirs: string[] = [];
+
+  try {
+    if (args.archives.length === 0) {
+      console.log(USAGE);
+      process.exitCode = 1;
+      return;
+    }
+
+    const missingArchive = args.archives.find(archive => !fs.existsSync(path.resolve(archive)));
+    if (missingArchive) {
+      console.log(`❌ Arquivo não encontrado: ${missingArchive}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const backups: ExtractedBackup[] = [];
+    for (const archive of args.archives) {
+      console.log(`🔄 Verificando ${path.basename(archive)}...`);
+      const backup = await extractBackup(path.resolve(archive), tempDirs);
+      console.log(`   ${backup.manifest.kind === 'full' ? 'completo' : `incremental desde ${backup.manifest.since}`}, ` +
+        `snapshot ${backup.manifest.snapshotAt}, ${backup.manifest.objects.length} objeto(s)`);
+      backups.push(backup);
+    }
+    backups.sort((a, b) => a.manifest.snapshotAt.localeCompare(b.manifest.snapshotAt));
+    const latest = backups[backups.length - 1];
+
+    await assertMigrationsApplied();
+    const schema = await query('SELECT MAX(version) AS version FROM schema_migrations');
+    if (schema.rows[0].version !== latest.manifest.schemaVersion) {
+      console.log(`❌ O backup é do schema ${latest.manifest.schemaVersion} e o banco está no ${schema.rows[0].version}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (!args.merge) {
+      const nonEmpty: string[] = [];
+      for (const { name } of BACKUP_TABLES) {
+        const rows = await query(`SELECT EXISTS (SELECT 1 FROM ${name}) AS found`);
+        if (rows.rows[0].found) nonEmpty.push(name);
+      }
+      if (nonEmpty.length > 0) {
+        console.log(`❌ O banco de destino não está vazio (${nonEmpty.join(', ')}). Use --merge para mesclar`);
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    const blobMap = args.merge ? await buildBlobMap(latest) : new Map<string, { file_name: string; file_path: string }>();
+    const sources = new Map<string, ObjectSource>();
+    for (const backup of backups) {
+      for (const object of backup.manifest.objects) {
+        sources.set(object.key, { file: path.join(backup.dir, ...object.path.split('/')), size: object.size });
+      }
+    }
+
+    const toCopy: string[] = [];
+    const missing: string[] = [];
+    let present = 0;
+    for (const key of await referencedKeys(latest, blobMap)) {
+      const existing = await storage.stat(key);
+      const source = sources.get(key);
+      if (existing && (!source || existing.size === source.size)) {
+        present++;
+      } else if (source && !existing) {
+        toCopy.push(key);
+      } else if (source) {
+        console.log(`⚠️  ${key} já existe no storage com outro tamanho; mantido o do destino`);
+        present++;
+      } else {
+        missing.push(key);
+      }
+    }
+
+    for (const { table, rows } of latest.manifest.tables) {
+      console.log(`   ${table}: ${rows} registro(s)`);
+    }
+    console.log(`   objetos: ${toCopy.length} a copiar, ${present} já no storage, ${missing.length} ausente(s)`);
+    if (missing.length > 0) {
+      console.log(`⚠️  Objetos ausentes nos backups e no storage: ${missing.slice(0, 10).join(', ')}` +
+        (missing.length > 10 ? '...' : ''));
+      if (!args.allowMissing) {
+        console.log('❌ Restauração interrompida. Use --allow-missing para restaurar mesmo assim');
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    if (args.dryRun) {
+      console.log('📝 Backups conferidos; nada foi alterado (simulação)');
+      return;
+    }
+
+    // put move o arquivo extraído para o storage
+    for (const [index, key] of toCopy.entries()) {
+      await storage.put(key, sources.get(key)!.file);
+      if ((index + 1) % 100 === 0) console.log(`   ${index + 1}/${toCopy.length} objeto(s) copiados...`);
+    }
+
+    const results = await withTransaction(async client => {
+      const idMaps = args.merge
+        ? await buildIdMaps(client, latest)
+        : { users: new Map<string, string>(), folders: new Map<string, string>(), tags: new Map<string, string>() };
+      const existingFiles = new Set<string>();
+      if (args.merge) {
+        for await (const rows of readRows(latest, 'pdf_files')) {
+          const found = await client.query('SELECT id FROM pdf_files WHERE id = ANY($1)', [rows.map(row => row.id)]);
+          found.rows.forEach(row => existingFiles.add(row.id));
+        }
+      }
+
+      const results = new Map<string, TableResult>();
+      for (const table of BACKUP_TABLES) {
+        const transform = (row: Row): Row | null => {
+          if (table.fileColumn && existingFiles.has(row[table.fileColumn])) return null;
+          const mapped = { ...row };
+          for (const [column, target] of Object.entries(table.references || {})) {
+            if (mapped[column]) mapped[column] = idMaps[target].get(mapped[column]) ?? mapped[column];
+          }
+          const blob = blobMap.get(mapped.file_path);
+          if (blob && table.name !== 'pdf_blobs') Object.assign(mapped, blob);
+          return mapped;
+        };
+        results.set(table.name, await restoreTable(client, latest, table, transform, args.merge));
+      }
+
+      await client.query(
+        `SELECT setval(pg_get_serial_sequence('audit_events', 'id'), COALESCE(MAX(id), 0) + 1, false) FROM audit_events`
+      );
+      await client.query(
+        `UPDATE pdf_blobs b
+         SET ref_count = (SELECT COUNT(*) FROM pdf_file_versions v WHERE v.content_hash = b.content_hash)`
+      );
+      return results;
+    });
+
+    for (const [table, result] of results) {
+      console.log(`   ${table}: ${result.inserted} inserido(s)${result.skipped > 0 ? `, ${result.skipped} já existente(s)` : ''}`);
+    }
+    console.log(`🎉 Restauração concluída: ${toCopy.length} objeto(s) copiado(s) para o storage "${storage.name}"`);
+    if (missing.length > 0) {
+      console.log('📝 Execute npm run fsck -- --mark-broken para marcar os documentos sem arquivo');
+    }
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await Promise.all(tempDirs.map(dir => fs.promises.rm(dir, { recursive: true, force: true })));
+    process.exit();
+  }
+}
+
+restoreBackup();
@@ -0,0 +1,86 @@
+import { PoolClient } from 'pg';
+
+/**
+ * Tabelas copiadas no backup, na ordem em que são restauradas (cada uma
+ * depois das que ela referencia). upload_sessions (uploads em andamento) e
+ * schema_migrations (recriada pelo migrate:up) ficam de fora.
+ */
+
+export type RemappedTable = 'users' | 'folders' | 'tags';
+
+export interface BackupTable {
+  name: string;
+  orderBy: string;
+  // Colunas que apontam para registros que, no merge, podem já existir com outro id
+  references?: Record<string, RemappedTable>;
+  // Linha pertence a um documento; no merge, documentos já existentes não são alterados
+  fileColumn?: string;
+}
+
+export const BACKUP_TABLES: BackupTable[] = [
+  { name: 'users', orderBy: 'created_at, id' },
+  { name: 'folders', orderBy: 'created_at, id', references: { owner_id: 'users', parent_id: 'folders' } },
+  { name: 'tags', orderBy: 'created_at, id', references: { owner_id: 'users' } },
+  { name: 'webhook_subscriptions', orderBy: 'created_at, id', references: { owner_id: 'users' } },
+  { name: 'pdf_blobs', orderBy: 'created_at, content_hash' },
+  { name: 'pdf_files', orderBy: 'upload_date, id', references: { owner_id: 'users', folder_id: 'folders' } },
+  { name: 'pdf_file_versions', orderBy: 'file_id, version_number', fileColumn: 'file_id' },
+  { name: 'pdf_file_tags', orderBy: 'file_id, tag_id', references: { tag_id: 'tags' }, fileColumn: 'file_id' },
+  { name: 'pdf_file_sources', orderBy: 'file_id, position', fileColumn: 'file_id' },
+  { name: 'pdf_file_changes', orderBy: 'changed_at, id', references: { changed_by: 'users' }, fileColumn: 'file_id' },
+  { name: 'share_links', orderBy: 'created_at, id', references: { created_by: 'users' }, fileColumn: 'file_id' },
+  { name: 'quarantined_files', orderBy: 'created_at, id', references: { owner_id: 'users' } },
+  { name: 'audit_events', orderBy: 'id', references: { actor_id: 'users' } },
+  { name: 'webhook_deliveries', orderBy: 'created_at, id' }
+];
+
+export const BACKUP_FORMAT = 'pdf-upload-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export const MANIFEST_PATH = 'manifest.json';
+// SHA-256 do manifest.json, que por sua vez traz o de cada entrada
+export const MANIFEST_CHECKSUM_PATH = 'manifest.sha256';
+
+export interface BackupTableEntry {
+  table: string;
+  rows: number;
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BackupObjectEntry {
+  key: string;
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kind: 'full' | 'incremental';
+  createdAt: string;
+  // Momento do snapshot do banco; use como --since do próximo incremental
+  snapshotAt: string;
+  since: string | null;
+  schemaVersion: number;
+  storageDriver: string;
+  tables: BackupTableEntry[];
+  objects: BackupObjectEntry[];
+  // Objetos referenciados pelo banco que não estavam no storage
+  missingObjects: string[];
+}
+
+// Colunas gravadas no backup: as geradas (ex.: search_vector) são recalculadas pelo banco
+export const loadColumns = async (client: PoolClient, table: string): Promise<string[]> => {
+  const result = await client.query(
+    `SELECT column_name FROM information_schema.columns
+     WHERE table_schema = current_schema() AND table_name = $1 AND is_generated = 'NEVER'
+     ORDER BY ordinal_position`,
+    [table]
+  );
+  return result.rows.map(row => row.column_name);
+};
+
+export const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import tar from 'tar-stream';
+
+/**
+ * Leitura e escrita dos backups (.tar.gz). As chaves do storage ficam no
+ * manifesto; dentro do tar só há os nomes fixos abaixo, e qualquer outra
+ * entrada é recusada na extração.
+ */
+const ENTRY_NAME = /^(manifest\.json|manifest\.sha256|database\/[a-z_]+\.jsonl|objects\/\d{6})$/;
+
+export interface TarEntryInfo {
+  size: number;
+  sha256: string;
+}
+
+// Escreve respeitando o backpressure do destino
+const write = (output: Writable, chunk: Buffer): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (output.write(chunk)) return resolve();
+    const onDrain = () => { output.removeListener('error', onError); resolve(); };
+    const onError = (error: Error) => { output.removeListener('drain', onDrain); reject(error); };
+    output.once('drain', onDrain);
+    output.once('error', onError);
+  });
+
+export class TarWriter {
+  private readonly pack = tar.pack();
+  private readonly done: Promise<void>;
+
+  constructor(archivePath: string) {
+    const gzip = zlib.createGzip();
+    this.pack.on('error', error => gzip.destroy(error));
+    this.pack.pipe(gzip);
+    this.done = pipeline(gzip, fs.createWriteStream(archivePath, { flags: 'wx' }));
+    // Erros aparecem em finish(); evita rejeição não tratada até lá
+    this.done.catch(() => undefined);
+  }
+
+  /** Acrescenta o conteúdo do stream, que precisa ter exatamente size bytes. */
+  async addStream(name: string, size: number, source: Readable): Promise<TarEntryInfo> {
+    if (!ENTRY_NAME.test(name)) {
+      throw new Error(`Nome inválido para o backup: ${name}`);
+    }
+
+    const hash = crypto.createHash('sha256');
+    let written = 0;
+    let entry!: ReturnType<tar.Pack['entry']>;
+    const finished = new Promise<void>((resolve, reject) => {
+      entry = this.pack.entry({ name, size, mode: 0o644 }, error => (error ? reject(error) : resolve()));
+    });
+    finished.catch(() => undefined);
+
+    try {
+      for await (const chunk of source) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        written += buffer.length;
+        if (written > size) break;
+        hash.update(buffer);
+        if (!entry.write(buffer)) {
+          await Promise.race([new Promise<void>(resolve => entry.once('drain', () => resolve())), finished]);
+        }
+      }
+    } finally {
+      source.destroy();
+    }
+    if (written !== size) {
+      const error = new Error(`${name}: tamanho mudou durante o backup (${written} de ${size} bytes)`);
+      this.pack.destroy(error);
+      throw error;
+    }
+    entry.end(null);
+    await finished;
+
+    return { size, sha256: hash.digest('hex') };
+  }
+
+  addBuffer(name: string, data: Buffer): Promise<TarEntryInfo> {
+    return this.addStream(name, data.length, Readable.from([data]));
+  }
+
+  async finish(): Promise<void> {
+    this.pack.finalize();
+    await this.done;
+  }
+}
+
+/**
+ * Extrai o arquivo em targetDir e retorna o tamanho e o SHA-256 de cada
+ * entrada, pelo nome. Entradas fora da lista de nomes esperados, que não
+ * sejam arquivos regulares ou que resolvam para fora de targetDir são recusadas.
+ */
+export async function extractTar(archivePath: string, targetDir: string): Promise<Map<string, TarEntryInfo>> {
+  const root = path.resolve(targetDir);
+  const entries = new Map<string, TarEntryInfo>();
+  const extract = tar.extract();
+  const gunzip = zlib.createGunzip();
+
+  const input = fs.createReadStream(archivePath);
+  input.on('error', error => extract.destroy(error));
+  gunzip.on('error', error => extract.destroy(error));
+  input.pipe(gunzip).pipe(extract);
+
+  try {
+    for await (const entry of extract) {
+      const { name, type } = entry.header;
+      if (type !== 'file' || !ENTRY_NAME.test(name) || entries.has(name)) {
+        throw new Error(`Entrada inesperada no backup: ${name}`);
+      }
+      const target = path.resolve(root, ...name.split('/'));
+      if (!target.startsWith(root + path.sep)) {
+        throw new Error(`Entrada inesperada no backup: ${name}`);
+      }
+
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      const hash = crypto.createHash('sha256');
+      let received = 0;
+      const output = fs.createWriteStream(target, { flags: 'wx' });
+      try {
+        for await (const chunk of entry as AsyncIterable<Buffer>) {
+          hash.update(chunk);
+          received += chunk.length;
+          await write(output, chunk);
+        }
+      } finally {
+        await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => (error ? reject(error) : resolve())));
+      }
+      entries.set(name, { size: received, sha256: hash.digest('hex') });
+    }
+  } finally {
+    input.destroy();
+  }
+
+  return entries;
+}
@@ -0,0 +1,89 @@
+import os from 'os';
+import crypto from 'crypto';
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const PORT = process.env.PORT || 5000;
+export const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
+export const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '10485760');
+
+// Arquivos recebidos ficam aqui até serem enviados ao storage
+export const TMP_DIR = process.env.TMP_DIR || path.join(os.tmpdir(), 'pdf-upload');
+
+// Uploads retomáveis (em partes) para arquivos grandes
+export const CHUNKS_DIR = process.env.CHUNKS_DIR || `${UPLOAD_DIR}/.chunks`;
+export const CHUNK_SIZE = parseInt(process.env.CHUNK_SIZE || '5242880');
+export const MAX_RESUMABLE_FILE_SIZE = parseInt(process.env.MAX_RESUMABLE_FILE_SIZE || '524288000');
+// Horas sem receber partes até a sessão expirar, e intervalo da limpeza das expiradas
+export const RESUMABLE_UPLOAD_EXPIRY_HOURS = parseInt(process.env.RESUMABLE_UPLOAD_EXPIRY_HOURS || '24');
+export const RESUMABLE_UPLOAD_CLEANUP_INTERVAL_MINUTES = parseInt(process.env.RESUMABLE_UPLOAD_CLEANUP_INTERVAL_MINUTES || '60');
+
+// Storage: 'local' (diretório UPLOAD_DIR) ou 's3' (AWS S3, MinIO e compatíveis)
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'local';
+
+export const S3_CONFIG = {
+  endpoint: process.env.S3_ENDPOINT || undefined,
+  region: process.env.S3_REGION || 'us-east-1',
+  bucket: process.env.S3_BUCKET || 'pdf-upload',
+  accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+  secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+  // MinIO exige URLs no formato http://host/bucket/chave
+  forcePathStyle: (process.env.S3_FORCE_PATH_STYLE || 'true') === 'true'
+};
+
+// Pré-visualizações: miniatura da 1ª página e páginas do visualizador, em pixels de largura
+export const THUMBNAIL_WIDTH = parseInt(process.env.THUMBNAIL_WIDTH || '300');
+export const PAGE_RENDER_WIDTH = parseInt(process.env.PAGE_RENDER_WIDTH || '1240');
+
+// Autenticação (JWT em cookie httpOnly). Em produção JWT_SECRET é obrigatório; fora dela, sem o segredo,
+// cada processo gera um aleatório e as sessões não sobrevivem a um reinício
+if (!process.env.JWT_SECRET && process.env.NODE_ENV === 'production') {
+  throw new Error('JWT_SECRET não definido; obrigatório com NODE_ENV=production');
+}
+export const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+export const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+export const AUTH_COOKIE = 'token';
+
+if (!process.env.JWT_SECRET) {
+  console.warn('⚠️  JWT_SECRET não definido; usando um segredo aleatório (as sessões expiram ao reiniciar)');
+}
+
+// Lixeira: dias até a remoção definitiva e intervalo da limpeza automática
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30');
+export const TRASH_PURGE_INTERVAL_MINUTES = parseInt(process.env.TRASH_PURGE_INTERVAL_MINUTES || '60');
+
+// Webhooks: tentativas por entrega (com espera exponencial a partir de WEBHOOK_RETRY_BASE_SECONDS),
+// tempo limite de cada requisição e intervalo em que a fila de entregas é verificada
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+export const WEBHOOK_RETRY_BASE_SECONDS = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30');
+export const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+export const WEBHOOK_POLL_INTERVAL_SECONDS = parseInt(process.env.WEBHOOK_POLL_INTERVAL_SECONDS || '15');
+// URLs de webhook que resolvem para loopback, redes privadas ou link-local são recusadas (SSRF);
+// libere só em desenvolvimento, para testar com um receptor local
+export const WEBHOOK_ALLOW_PRIVATE_NETWORKS = process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true';
+
+// Limites de upload e cotas de armazenamento (0 = sem limite). As cotas por dono valem para
+// todos os usuários, salvo as definidas individualmente por um admin; a global vale para o sistema todo
+export const MAX_FILES_PER_UPLOAD = parseInt(process.env.MAX_FILES_PER_UPLOAD || '10');
+export const QUOTA_GLOBAL_BYTES = parseInt(process.env.QUOTA_GLOBAL_BYTES || '0');
+export const QUOTA_GLOBAL_FILES = parseInt(process.env.QUOTA_GLOBAL_FILES || '0');
+export const QUOTA_OWNER_BYTES = parseInt(process.env.QUOTA_OWNER_BYTES || '0');
+export const QUOTA_OWNER_FILES = parseInt(process.env.QUOTA_OWNER_FILES || '0');
+// Percentual de uso a partir do qual a interface avisa que o limite está próximo
+export const QUOTA_WARNING_PERCENT = parseInt(process.env.QUOTA_WARNING_PERCENT || '90');
+
+// Senhas erradas aceitas por janela em links compartilhados: por endereço IP e por link (contra força bruta)
+export const SHARE_PASSWORD_ATTEMPTS_PER_IP = parseInt(process.env.SHARE_PASSWORD_ATTEMPTS_PER_IP || '10');
+export const SHARE_PASSWORD_ATTEMPTS_PER_LINK = parseInt(process.env.SHARE_PASSWORD_ATTEMPTS_PER_LINK || '30');
+export const SHARE_PASSWORD_WINDOW_MINUTES = parseInt(process.env.SHARE_PASSWORD_WINDOW_MINUTES || '15');
+
+// Cache-Control dos downloads e visualizações de PDFs. O padrão obriga o navegador a revalidar
+// (com ETag/Last-Modified, respondidos com 304), já que o acesso ao documento pode mudar
+export const DOWNLOAD_CACHE_CONTROL = process.env.DOWNLOAD_CACHE_CONTROL || 'private, no-cache';
+export const PREVIEW_CACHE_CONTROL = process.env.PREVIEW_CACHE_CONTROL || 'private, max-age=86400';
+
+// Verificação do storage (npm run fsck): objetos sem registro mais novos que isto são ignorados,
+// pois podem pertencer a um upload ainda não concluído
+export const STORAGE_CHECK_MIN_AGE_MINUTES = parseInt(process.env.STORAGE_CHECK_MIN_AGE_MINUTES || '60');
@@ -0,0 +1,60 @@
+import { query, withTransaction } from './config';
+import { storage, withLocalFile } from '../storage';
+import { acquireBlob, computeFileHash } from '../services/files';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Calcula o hash dos arquivos enviados antes da deduplicação e une as cópias idênticas
+async function backfillHashes(): Promise<void> {
+  try {
+    console.log('🔄 Calculando hashes dos arquivos existentes...');
+
+    const result = await query(
+      'SELECT id, custom_name, file_name, file_path, file_size FROM pdf_files WHERE content_hash IS NULL ORDER BY upload_date'
+    );
+
+    let hashed = 0;
+    let merged = 0;
+
+    for (const file of result.rows) {
+      if (!(await storage.stat(file.file_path))) {
+        console.log(`⚠️  Arquivo físico não encontrado: ${file.custom_name}`);
+        continue;
+      }
+
+      const hash = await withLocalFile(file.file_path, computeFileHash);
+      const blob = await withTransaction(async client => {
+        const blob = await acquireBlob(client, hash, {
+          fileName: file.file_path,
+          fileSize: parseInt(file.file_size)
+        });
+        await client.query(
+          'UPDATE pdf_files SET content_hash = $1, file_name = $2, file_path = $3 WHERE id = $4',
+          [hash, blob.file_name, blob.file_path, file.id]
+        );
+        await client.query(
+          `UPDATE pdf_file_versions SET content_hash = $1, file_name = $2, file_path = $3
+           WHERE file_id = $4 AND content_hash IS NULL`,
+          [hash, blob.file_name, blob.file_path, file.id]
+        );
+        return blob;
+      });
+
+      hashed++;
+      if (!blob.inserted && blob.file_path !== file.file_path) {
+        await storage.delete(file.file_path);
+        merged++;
+      }
+    }
+
+    console.log(`🎉 ${hashed} arquivo(s) processado(s), ${merged} cópia(s) duplicada(s) removida(s)`);
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+  } finally {
+    process.exit();
+  }
+}
+
+backfillHashes();
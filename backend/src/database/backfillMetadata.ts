@@ -0,0 +1,53 @@
+import { query } from './config';
+import { storage, withLocalFile } from '../storage';
+import { METADATA_COLUMNS, metadataValues } from '../services/files';
+import { extractPdfMetadata } from '../services/pdfMetadata';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Lê os metadados dos arquivos enviados antes de eles serem extraídos no upload
+async function backfillMetadata(): Promise<void> {
+  try {
+    console.log('🔄 Lendo metadados dos PDFs existentes...');
+
+    // Cada conteúdo é lido uma vez e atualiza documentos e versões que o usam
+    const result = await query(
+      `SELECT file_path FROM pdf_files WHERE page_count IS NULL AND NOT is_encrypted
+       UNION
+       SELECT file_path FROM pdf_file_versions WHERE page_count IS NULL AND NOT is_encrypted`
+    );
+
+    const assignments = METADATA_COLUMNS.map((column, index) => `${column} = $${index + 2}`).join(', ');
+    let updated = 0;
+    let failed = 0;
+
+    for (const { file_path: key } of result.rows) {
+      if (!(await storage.stat(key))) {
+        console.log(`⚠️  Arquivo físico não encontrado: ${key}`);
+        failed++;
+        continue;
+      }
+
+      try {
+        const metadata = await withLocalFile(key, extractPdfMetadata);
+        const values = [key, ...metadataValues(metadata)];
+        await query(`UPDATE pdf_files SET ${assignments} WHERE file_path = $1`, values);
+        await query(`UPDATE pdf_file_versions SET ${assignments} WHERE file_path = $1`, values);
+        updated++;
+      } catch (error: any) {
+        console.log(`⚠️  Falha ao ler ${key}: ${error.message}`);
+        failed++;
+      }
+    }
+
+    console.log(`🎉 ${updated} conteúdo(s) atualizado(s), ${failed} com falha`);
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+  } finally {
+    process.exit();
+  }
+}
+
+backfillMetadata();
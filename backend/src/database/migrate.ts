@@ -0,0 +1,86 @@
+import dotenv from 'dotenv';
+
+import { getMigrationStatus, migrateDown, migrateUp, migrationLabel } from './migrations';
+
+dotenv.config();
+
+// Uso: npm run migrate:up | npm run migrate:down [-- --steps 2] | npm run migrate:status
+const parseArgs = (argv: string[]) => {
+  const stepsIndex = argv.indexOf('--steps');
+  return {
+    command: argv[0],
+    steps: stepsIndex >= 0 ? parseInt(argv[stepsIndex + 1]) : 1
+  };
+};
+
+async function up(): Promise<void> {
+  console.log('🔄 Aplicando migrações pendentes...');
+  const applied = await migrateUp();
+  console.log(applied.length > 0
+    ? `🎉 ${applied.length} migração(ões) aplicada(s)`
+    : '🎉 Banco de dados já está atualizado');
+}
+
+async function down(steps: number): Promise<void> {
+  if (!(steps > 0)) {
+    throw new Error('--steps deve ser um número positivo');
+  }
+  console.log(`🔄 Desfazendo ${steps} migração(ões)...`);
+  const reverted = await migrateDown(steps);
+  console.log(`🎉 ${reverted.length} migração(ões) desfeita(s)`);
+}
+
+async function status(): Promise<void> {
+  const entries = await getMigrationStatus();
+
+  for (const entry of entries) {
+    const name = migrationLabel(entry.migration || entry.applied!);
+
+    if (entry.modified) {
+      console.log(`⚠️  ${name} — alterada após aplicada`);
+    } else if (!entry.migration) {
+      console.log(`❓ ${name} — aplicada, arquivo não encontrado`);
+    } else if (entry.applied) {
+      console.log(`✅ ${name} — aplicada em ${entry.applied.appliedAt.toLocaleString('pt-BR')}`);
+    } else {
+      console.log(`⏳ ${name} — pendente`);
+    }
+  }
+
+  const pending = entries.filter(entry => !entry.applied).length;
+  console.log(`📊 ${entries.length - pending} aplicada(s), ${pending} pendente(s)`);
+}
+
+async function migrate(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    switch (args.command) {
+      case 'up':
+        await up();
+        break;
+      case 'down':
+        await down(args.steps);
+        break;
+      case 'status':
+        await status();
+        break;
+      default:
+        throw new Error(`Comando desconhecido: ${args.command ?? '(nenhum)'}. Use up, down ou status`);
+    }
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+    process.exitCode = 1;
+
+    if (error.code === '3D000') {
+      console.log('\n📝 Execute manualmente:');
+      console.log('sudo -u postgres psql');
+      console.log('CREATE DATABASE pdf_upload;');
+    }
+  } finally {
+    process.exit();
+  }
+}
+
+migrate();
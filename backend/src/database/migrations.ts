@@ -0,0 +1,226 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+
+import { pool } from './config';
+
+// Arquivos NNN_nome.up.sql / NNN_nome.down.sql, aplicados em ordem numérica
+export const MIGRATIONS_DIR = path.join(__dirname, '../../migrations');
+
+const MIGRATION_FILE = /^(\d+)_(.+)\.up\.sql$/;
+
+// Impede que dois processos apliquem migrações ao mesmo tempo
+const LOCK_ID = 72_010_001;
+
+export interface Migration {
+  version: number;
+  name: string;
+  checksum: string;
+  up: string;
+  down: string | null;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  migration: Migration | null;
+  applied: AppliedMigration | null;
+  // Aplicada, mas o arquivo mudou desde então
+  modified: boolean;
+}
+
+// Nome como no arquivo, ex.: 001_create_pdf_files
+export const migrationLabel = (entry: { version: number; name: string }): string =>
+  `${String(entry.version).padStart(3, '0')}_${entry.name}`;
+
+const checksumOf = (sql: string): string =>
+  crypto.createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+
+export const loadMigrations = (): Migration[] => {
+  const migrations = fs.readdirSync(MIGRATIONS_DIR)
+    .map(file => ({ file, match: MIGRATION_FILE.exec(file) }))
+    .filter((entry): entry is { file: string; match: RegExpExecArray } => entry.match !== null)
+    .map(({ file, match }) => {
+      const up = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+      const downPath = path.join(MIGRATIONS_DIR, file.replace(/\.up\.sql$/, '.down.sql'));
+      return {
+        version: parseInt(match[1]),
+        name: match[2],
+        checksum: checksumOf(up),
+        up,
+        down: fs.existsSync(downPath) ? fs.readFileSync(downPath, 'utf8') : null
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new Error(`Versão de migração duplicada: ${migration.version}`);
+    }
+  });
+  return migrations;
+};
+
+const ensureMigrationsTable = async (client: PoolClient): Promise<void> => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+const toAppliedMigration = (row: any): AppliedMigration => ({
+  version: row.version,
+  name: row.name,
+  checksum: row.checksum,
+  appliedAt: row.applied_at
+});
+
+const getAppliedMigrations = async (client: PoolClient): Promise<AppliedMigration[]> => {
+  const result = await client.query('SELECT * FROM schema_migrations ORDER BY version');
+  return result.rows.map(toAppliedMigration);
+};
+
+/**
+ * Cruza os arquivos com a tabela schema_migrations, em ordem de versão.
+ * Inclui migrações aplicadas cujo arquivo não existe mais.
+ */
+const buildStatus = (migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] => {
+  const versions = new Set([...migrations.map(m => m.version), ...applied.map(a => a.version)]);
+
+  return Array.from(versions)
+    .sort((a, b) => a - b)
+    .map(version => {
+      const migration = migrations.find(m => m.version === version) || null;
+      const appliedMigration = applied.find(a => a.version === version) || null;
+      return {
+        migration,
+        applied: appliedMigration,
+        modified: Boolean(migration && appliedMigration && migration.checksum !== appliedMigration.checksum)
+      };
+    });
+};
+
+// Executa fn com um cliente dedicado, segurando o lock de migrações
+const withMigrationLock = async <T>(fn: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [LOCK_ID]);
+    await ensureMigrationsTable(client);
+    return await fn(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+};
+
+const runInTransaction = async (client: PoolClient, fn: () => Promise<void>): Promise<void> => {
+  await client.query('BEGIN');
+  try {
+    await fn();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+};
+
+const assertUnmodified = (status: MigrationStatus[]): void => {
+  const modified = status.filter(entry => entry.modified);
+  if (modified.length > 0) {
+    throw new Error(
+      'Migrações já aplicadas foram alteradas: ' +
+      modified.map(entry => migrationLabel(entry.migration!)).join(', ')
+    );
+  }
+};
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  return withMigrationLock(async client => buildStatus(loadMigrations(), await getAppliedMigrations(client)));
+}
+
+/**
+ * Aplica as migrações pendentes, cada uma em sua própria transação.
+ * Retorna as que foram aplicadas.
+ */
+export async function migrateUp(): Promise<Migration[]> {
+  return withMigrationLock(async client => {
+    const status = buildStatus(loadMigrations(), await getAppliedMigrations(client));
+    assertUnmodified(status);
+
+    const pending = status
+      .filter(entry => entry.migration && !entry.applied)
+      .map(entry => entry.migration!);
+
+    for (const migration of pending) {
+      await runInTransaction(client, async () => {
+        await client.query(migration.up);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+      console.log(`✅ ${migrationLabel(migration)}`);
+    }
+    return pending;
+  });
+}
+
+/**
+ * Desfaz as últimas `steps` migrações aplicadas, da mais recente para a
+ * mais antiga. Retorna as que foram desfeitas.
+ */
+export async function migrateDown(steps: number = 1): Promise<Migration[]> {
+  return withMigrationLock(async client => {
+    const status = buildStatus(loadMigrations(), await getAppliedMigrations(client));
+    assertUnmodified(status);
+
+    const toRevert = status.filter(entry => entry.applied).reverse().slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const entry of toRevert) {
+      const migration = entry.migration;
+      if (!migration) {
+        throw new Error(`Arquivo da migração ${migrationLabel(entry.applied!)} não encontrado`);
+      }
+      if (migration.down === null) {
+        throw new Error(`Migração ${migrationLabel(migration)} não tem arquivo .down.sql`);
+      }
+
+      await runInTransaction(client, async () => {
+        await client.query(migration.down!);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      });
+      console.log(`↩️  ${migrationLabel(migration)}`);
+      reverted.push(migration);
+    }
+    return reverted;
+  });
+}
+
+/**
+ * Falha se há migrações pendentes ou alteradas. Usado na
+ * inicialização do servidor, que não sobe com o schema desatualizado.
+ */
+export async function assertMigrationsApplied(): Promise<void> {
+  const status = await getMigrationStatus();
+  assertUnmodified(status);
+
+  const pending = status.filter(entry => !entry.applied);
+  if (pending.length > 0) {
+    throw new Error(
+      `${pending.length} migração(ões) pendente(s): ` +
+      pending.map(entry => migrationLabel(entry.migration!)).join(', ') +
+      '. Execute npm run migrate:up'
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { query } from './config';
+import { storage, withLocalFile } from '../storage';
+import { extractPdfText } from '../services/pdfText';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Extrai o texto dos arquivos enviados antes da busca full-text existir
+async function reindexText(): Promise<void> {
+  try {
+    console.log('🔄 Indexando conteúdo dos PDFs...');
+
+    const result = await query(
+      'SELECT id, custom_name, file_path FROM pdf_files WHERE content_text IS NULL ORDER BY upload_date'
+    );
+
+    let indexed = 0;
+    let failed = 0;
+
+    for (const file of result.rows) {
+      if (!(await storage.stat(file.file_path))) {
+        console.log(`⚠️  Arquivo físico não encontrado: ${file.custom_name}`);
+        failed++;
+        continue;
+      }
+
+      try {
+        const contentText = await withLocalFile(file.file_path, extractPdfText);
+        await query('UPDATE pdf_files SET content_text = $1 WHERE id = $2', [contentText, file.id]);
+        indexed++;
+      } catch (error: any) {
+        console.log(`⚠️  Falha ao extrair texto de ${file.custom_name}: ${error.message}`);
+        failed++;
+      }
+    }
+
+    console.log(`🎉 ${indexed} arquivo(s) indexado(s), ${failed} com falha`);
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+  } finally {
+    process.exit();
+  }
+}
+
+reindexText();
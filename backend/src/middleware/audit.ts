@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { recordAuditEvents } from '../services/audit';
+import { isUuid } from '../services/organization';
+import { AuditAction, AuditResult } from '../types';
+
+export interface AuditTarget {
+  // null para eventos sem documento na biblioteca (ex.: upload rejeitado)
+  id: string | null;
+  name?: string;
+  // Para quando o resultado varia por documento (ex.: parte de um upload rejeitada)
+  result?: AuditResult;
+  details?: Record<string, unknown>;
+}
+
+// Documentos afetados, quando não são (só) o :id da rota: uploads, lotes, documentos gerados
+export const setAuditTargets = (res: Response, targets: AuditTarget[]): void => {
+  res.locals.auditTargets = targets;
+};
+
+const resultOf = (res: Response): AuditResult => {
+  // Conexão encerrada antes do fim da resposta (ex.: download interrompido)
+  if (!res.writableFinished) return 'failure';
+  if ([401, 403, 404, 410].includes(res.statusCode)) return 'denied';
+  return res.statusCode >= 400 ? 'failure' : 'success';
+};
+
+/**
+ * Registra a ação no log de auditoria quando a resposta termina, com o
+ * resultado deduzido do status e a mensagem de erro, se houver. O documento
+ * é o parâmetro `idParam` da rota, a menos que o handler chame setAuditTargets.
+ * `action` pode depender da requisição; null não registra nada. HEAD e 304
+ * não entregam conteúdo e não são registrados; respostas parciais (206)
+ * levam o intervalo enviado em details.range.
+ */
+export const audit = (
+  action: AuditAction | ((req: Request) => AuditAction | null),
+  idParam: string | null = 'id'
+) => (req: Request, res: Response, next: NextFunction) => {
+  const paramId = idParam ? req.params[idParam] : undefined;
+
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (body?.error) res.locals.auditError = body.error;
+    return json(body);
+  };
+
+  res.on('close', () => {
+    const name = typeof action === 'function' ? action(req) : action;
+    if (!name || req.method === 'HEAD' || res.statusCode === 304) return;
+
+    const result = resultOf(res);
+    const targets: (AuditTarget | null)[] = res.locals.auditTargets ||
+      [paramId && isUuid(paramId) ? { id: paramId } : null];
+
+    recordAuditEvents(targets.map(target => {
+      const details = {
+        ...(result !== 'success' && { status: res.statusCode }),
+        ...(res.statusCode === 206 && { range: res.get('Content-Range') }),
+        ...(res.locals.auditError && { error: res.locals.auditError }),
+        ...target?.details
+      };
+      return {
+        actorId: req.user?.id,
+        actorEmail: req.user?.email,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        fileId: target?.id || null,
+        fileName: target?.name,
+        action: name,
+        result: target?.result || result,
+        details: Object.keys(details).length > 0 ? details : null
+      };
+    }));
+  });
+
+  next();
+};
@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+
+import { query } from '../database/config';
+import { JWT_SECRET, JWT_EXPIRES_IN, AUTH_COOKIE } from '../config';
+import { AuthUser } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+export const isAdmin = (user: AuthUser): boolean => user.role === 'admin';
+
+/**
+ * Valor do parâmetro de dono nas consultas, usado como
+ * `($n::uuid IS NULL OR owner_id = $n)`: null libera tudo (admin).
+ */
+export const scopeOwnerId = (user: AuthUser): string | null => (isAdmin(user) ? null : user.id);
+
+export const setAuthCookie = (res: Response, user: AuthUser): void => {
+  const token = jwt.sign({ sub: user.id }, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions);
+  res.cookie(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 7 * 24 * 60 * 60 * 1000
+  });
+};
+
+export const clearAuthCookie = (res: Response): void => {
+  res.clearCookie(AUTH_COOKIE);
+};
+
+const readToken = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice(7);
+  return req.cookies?.[AUTH_COOKIE];
+};
+
+// Exige sessão válida e carrega o usuário em req.user
+export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const token = readToken(req);
+  if (!token) {
+    return res.status(401).json({ success: false, error: 'Autenticação necessária' });
+  }
+
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    const result = await query('SELECT id, email, name, role FROM users WHERE id = $1', [payload.sub]);
+
+    if (result.rows.length === 0) {
+      return res.status(401).json({ success: false, error: 'Sessão inválida ou expirada' });
+    }
+
+    req.user = result.rows[0];
+    next();
+  } catch (error: any) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      return res.status(401).json({ success: false, error: 'Sessão inválida ou expirada' });
+    }
+    next(error);
+  }
+};
+
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user || !isAdmin(req.user)) {
+    return res.status(403).json({ success: false, error: 'Acesso restrito a administradores' });
+  }
+  next();
+};
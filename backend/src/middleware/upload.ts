@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import multer, { FileFilterCallback } from 'multer';
+
+import { TMP_DIR, MAX_FILE_SIZE, MAX_FILES_PER_UPLOAD } from '../config';
+import { generateFileName } from '../services/files';
+import { checkQuota } from '../services/quotas';
+import { formatFileSize } from '../utils/format';
+import { UploadResponse } from '../types';
+
+// Configuração do Multer
+const uploadStorage = multer.diskStorage({
+  destination: (req: Request, file: Express.Multer.File, cb: (error: Error | null, destination: string) => void) => {
+    cb(null, TMP_DIR);
+  },
+  filename: (req: Request, file: Express.Multer.File, cb: (error: Error | null, filename: string) => void) => {
+    cb(null, generateFileName(file.originalname));
+  }
+});
+
+const fileFilter = (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+  const allowedMimes = ['application/pdf', 'application/x-pdf'];
+  if (allowedMimes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Apenas arquivos PDF são permitidos!'));
+  }
+};
+
+export const upload = multer({
+  storage: uploadStorage,
+  fileFilter,
+  limits: { fileSize: MAX_FILE_SIZE }
+});
+
+// Folga para os cabeçalhos e campos do multipart, que também entram no Content-Length
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+/**
+ * Recusa o envio antes de receber os arquivos quando ele não cabe na cota do
+ * usuário (ou na global), estimando os bytes pelo Content-Length. A
+ * conferência exata, com os tamanhos, vem ao gravar.
+ */
+export const rejectWhenQuotaFull = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const length = parseInt(req.get('Content-Length') || '');
+    const bytes = Number.isSafeInteger(length) ? Math.max(length - MULTIPART_OVERHEAD, 1) : 1;
+    const error = await checkQuota(req.user!.id, { files: 1, bytes });
+    if (error) {
+      const response: UploadResponse = { success: false, message: '', files: [], error };
+      return res.status(413).json(response);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Middleware de erro
+export const handleUploadError = (error: Error, req: Request, res: Response, next: NextFunction) => {
+  if (error instanceof multer.MulterError) {
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      const response: UploadResponse = {
+        success: false,
+        message: '',
+        files: [],
+        error: `Arquivo muito grande. Máximo ${formatFileSize(MAX_FILE_SIZE)} permitido.`
+      };
+      return res.status(400).json(response);
+    }
+    if (error.code === 'LIMIT_UNEXPECTED_FILE') {
+      const response: UploadResponse = {
+        success: false,
+        message: '',
+        files: [],
+        error: `Máximo de ${MAX_FILES_PER_UPLOAD} arquivos por envio.`
+      };
+      return res.status(400).json(response);
+    }
+  }
+  const response: UploadResponse = {
+    success: false,
+    message: '',
+    files: [],
+    error: error.message
+  };
+  res.status(400).json(response);
+};
@@ -0,0 +1,88 @@
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { buildAuditFilters, toAuditEvent } from '../services/audit';
+import { AuditResponse } from '../types';
+
+// Montado em /api/audit, após requireAuth
+const router = Router();
+
+const MAX_PAGE_SIZE = 100;
+const MAX_EXPORT_ROWS = 50000;
+
+const CSV_COLUMNS = [
+  'occurred_at', 'actor_id', 'actor_email', 'ip', 'user_agent',
+  'file_id', 'file_name', 'action', 'result', 'details'
+];
+
+// Aspas quando necessário; valores iniciados por =, +, - ou @ não viram fórmula na planilha
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Eventos do mais recente para o mais antigo, com filtros por documento, ação e período
+router.get('/', async (req: Request, res: Response<AuditResponse>) => {
+  const pageNum = parseInt(req.query.page as string) || 1;
+  const limitNum = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+  const emptyPagination = { page: pageNum, limit: limitNum, total: 0, totalPages: 0 };
+
+  try {
+    const filters = buildAuditFilters(req.user!, req.query);
+    if (!filters) {
+      return res.status(400).json({ success: false, events: [], pagination: emptyPagination, error: 'Filtros inválidos' });
+    }
+
+    const result = await query(
+      `SELECT * FROM audit_events WHERE ${filters.where}
+       ORDER BY occurred_at DESC, id DESC
+       LIMIT $${filters.params.length + 1} OFFSET $${filters.params.length + 2}`,
+      [...filters.params, limitNum, (pageNum - 1) * limitNum]
+    );
+    const countResult = await query(`SELECT COUNT(*) FROM audit_events WHERE ${filters.where}`, filters.params);
+    const total = parseInt(countResult.rows[0].count);
+
+    res.json({
+      success: true,
+      events: result.rows.map(toAuditEvent),
+      pagination: { page: pageNum, limit: limitNum, total, totalPages: Math.ceil(total / limitNum) }
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao listar auditoria:', error);
+    res.status(500).json({ success: false, events: [], pagination: emptyPagination, error: 'Erro interno no servidor' });
+  }
+});
+
+// Os mesmos filtros, em CSV (até MAX_EXPORT_ROWS eventos)
+router.get('/export', async (req: Request, res: Response) => {
+  try {
+    const filters = buildAuditFilters(req.user!, req.query);
+    if (!filters) {
+      return res.status(400).json({ success: false, error: 'Filtros inválidos' });
+    }
+
+    const result = await query(
+      `SELECT ${CSV_COLUMNS.join(', ')} FROM audit_events WHERE ${filters.where}
+       ORDER BY occurred_at DESC, id DESC
+       LIMIT ${MAX_EXPORT_ROWS}`,
+      filters.params
+    );
+
+    const lines = [CSV_COLUMNS.join(','), ...result.rows.map(row => CSV_COLUMNS.map(column => csvCell(row[column])).join(','))];
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="auditoria-${date}.csv"`);
+    // BOM para o Excel reconhecer o UTF-8
+    res.send('\uFEFF' + lines.join('\r\n') + '\r\n');
+
+  } catch (error: any) {
+    console.error('Erro ao exportar auditoria:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import { Request, Response, Router } from 'express';
+import bcrypt from 'bcryptjs';
+
+import { query } from '../database/config';
+import { requireAuth, setAuthCookie, clearAuthCookie } from '../middleware/auth';
+import { EMAIL_PATTERN, MIN_PASSWORD_LENGTH, hashPassword, normalizeEmail } from '../services/users';
+import { AuthResponse } from '../types';
+
+const router = Router();
+
+// Cadastro. Administradores são criados ou promovidos pelo npm run user:admin
+router.post('/register', async (req: Request, res: Response<AuthResponse>) => {
+  try {
+    const { name, email, password } = req.body;
+    const normalizedEmail = normalizeEmail(email);
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ success: false, error: 'Nome é obrigatório' });
+    }
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      return res.status(400).json({ success: false, error: 'E-mail inválido' });
+    }
+    if (!password || String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`
+      });
+    }
+
+    const passwordHash = await hashPassword(String(password));
+    const result = await query(
+      `INSERT INTO users (name, email, password_hash, role)
+       VALUES ($1, $2, $3, 'user')
+       ON CONFLICT (email) DO NOTHING
+       RETURNING id, email, name, role`,
+      [String(name).trim(), normalizedEmail, passwordHash]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({ success: false, error: 'E-mail já cadastrado' });
+    }
+
+    const user = result.rows[0];
+    setAuthCookie(res, user);
+    res.status(201).json({ success: true, user });
+
+  } catch (error: any) {
+    console.error('Erro no cadastro:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Login
+router.post('/login', async (req: Request, res: Response<AuthResponse>) => {
+  try {
+    const { email, password } = req.body;
+    const result = await query(
+      'SELECT id, email, name, role, password_hash FROM users WHERE email = $1',
+      [normalizeEmail(email)]
+    );
+
+    const row = result.rows[0];
+    if (!row || !(await bcrypt.compare(String(password || ''), row.password_hash))) {
+      return res.status(401).json({ success: false, error: 'E-mail ou senha inválidos' });
+    }
+
+    const { password_hash, ...user } = row;
+    setAuthCookie(res, user);
+    res.json({ success: true, user });
+
+  } catch (error: any) {
+    console.error('Erro no login:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Logout
+router.post('/logout', (req: Request, res: Response<AuthResponse>) => {
+  clearAuthCookie(res);
+  res.json({ success: true });
+});
+
+// Usuário da sessão atual
+router.get('/me', requireAuth, (req: Request, res: Response<AuthResponse>) => {
+  res.json({ success: true, user: req.user });
+});
+
+export default router;
@@ -0,0 +1,258 @@
+import express, { Request, Response, Router } from 'express';
+import archiver from 'archiver';
+import { Readable } from 'stream';
+
+import { query, withTransaction } from '../database/config';
+import { storage } from '../storage';
+import { requireAuth, scopeOwnerId } from '../middleware/auth';
+import { audit, setAuditTargets } from '../middleware/audit';
+import { getFileTagNames, isUuid, parseTagNames, setFileTags } from '../services/organization';
+import { BulkAction, BulkActionResponse } from '../types';
+
+// Montado em /api/files, com autenticação em cada rota para não repetir a
+// consulta do usuário nas demais rotas de /api/files
+const router = Router();
+
+const MAX_BULK_IDS = 500;
+const TAG_MODES = ['add', 'remove', 'replace'];
+const BULK_ACTIONS: BulkAction[] = ['delete', 'move', 'tag'];
+
+/**
+ * Lista de ids do corpo: array em JSON ou campo repetido/separado por
+ * vírgulas em formulário. Retorna null se vazia, inválida ou grande demais.
+ */
+const parseIds = (input: unknown): string[] | null => {
+  const values = Array.isArray(input) ? input : typeof input === 'string' ? input.split(',') : null;
+  if (!values || values.some(value => typeof value !== 'string' || !isUuid(value.trim()))) return null;
+
+  const ids = [...new Set(values.map(value => value.trim()))];
+  return ids.length > 0 && ids.length <= MAX_BULK_IDS ? ids : null;
+};
+
+// Nome único dentro do ZIP: "contrato.pdf", "contrato (2).pdf"...
+const uniqueEntryName = (name: string, used: Set<string>): string => {
+  const base = name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'documento';
+  let candidate = `${base}.pdf`;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n}).pdf`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Cada documento entra na auditoria com a mesma ação da operação individual
+const bulkAuditAction = (req: Request) => (BULK_ACTIONS.includes(req.body.action) ? req.body.action : null);
+
+// Excluir (para a lixeira), mover ou alterar tags de vários documentos de uma vez
+router.post('/bulk', requireAuth, audit(bulkAuditAction), async (req: Request, res: Response<BulkActionResponse>) => {
+  try {
+    const ids = parseIds(req.body.ids);
+    const action = req.body.action as BulkAction;
+
+    if (!ids) {
+      return res.status(400).json({ success: false, affected: 0, error: `Informe de 1 a ${MAX_BULK_IDS} ids válidos` });
+    }
+    setAuditTargets(res, ids.map(id => ({ id, details: { bulk: true } })));
+    if (!BULK_ACTIONS.includes(action)) {
+      return res.status(400).json({ success: false, affected: 0, error: 'Ação inválida (use delete, move ou tag)' });
+    }
+
+    const tagMode = req.body.mode || 'add';
+    const tagNames = action === 'tag' ? parseTagNames(req.body.tags) : [];
+    if (action === 'tag' && (!tagNames || !TAG_MODES.includes(tagMode))) {
+      return res.status(400).json({ success: false, affected: 0, error: 'Lista de tags ou modo inválido' });
+    }
+
+    const folderId = action === 'move' ? req.body.folderId || null : null;
+
+    const outcome = await withTransaction(async client => {
+      // Trava os documentos para que a operação valha para todos ou nenhum
+      const files = await client.query(
+        `SELECT id, owner_id FROM pdf_files
+         WHERE id = ANY($1::uuid[]) AND ($2::uuid IS NULL OR owner_id = $2) AND deleted_at IS NULL
+         FOR UPDATE`,
+        [ids, scopeOwnerId(req.user!)]
+      );
+      const found = new Set(files.rows.map(file => file.id));
+      const notFound = ids.filter(id => !found.has(id));
+      if (notFound.length > 0) return { status: 404, error: 'Arquivo(s) não encontrado(s)', notFound };
+
+      if (action === 'delete') {
+        await client.query('UPDATE pdf_files SET deleted_at = CURRENT_TIMESTAMP WHERE id = ANY($1::uuid[])', [ids]);
+        return { message: `${ids.length} arquivo(s) movido(s) para a lixeira` };
+      }
+
+      if (action === 'move') {
+        let folderName = '';
+        if (folderId) {
+          // A pasta precisa ser do dono de todos os documentos
+          const folder = await client.query('SELECT * FROM folders WHERE id = $1', [isUuid(folderId) ? folderId : null]);
+          if (!folder.rows[0] || files.rows.some(file => file.owner_id !== folder.rows[0].owner_id)) {
+            return { status: 404, error: 'Pasta não encontrada' };
+          }
+          folderName = folder.rows[0].name;
+        }
+        await client.query('UPDATE pdf_files SET folder_id = $2 WHERE id = ANY($1::uuid[])', [ids, folderId]);
+        return { message: `${ids.length} arquivo(s) movido(s) para ${folderId ? `"${folderName}"` : 'a raiz'}` };
+      }
+
+      if (files.rows.some(file => !file.owner_id)) {
+        return { status: 400, error: 'Documentos sem dono não podem receber tags' };
+      }
+      // Calcula as novas listas antes de gravar, para validar o limite de tags em todos
+      const removed = new Set(tagNames!.map(name => name.toLowerCase()));
+      const updates: { file: any; names: string[] | null }[] = [];
+      for (const file of files.rows) {
+        const current = tagMode === 'replace' ? [] : await getFileTagNames(client, file.id);
+        updates.push({
+          file,
+          names: tagMode === 'remove'
+            ? current.filter(name => !removed.has(name.toLowerCase()))
+            : parseTagNames([...current, ...tagNames!])
+        });
+      }
+      if (updates.some(update => !update.names)) {
+        return { status: 400, error: 'Limite de tags por documento excedido' };
+      }
+
+      for (const { file, names } of updates) {
+        await setFileTags(client, file.id, file.owner_id, names!);
+      }
+      return { message: `Tags atualizadas em ${ids.length} arquivo(s)` };
+    });
+
+    if ('error' in outcome) {
+      return res.status(outcome.status!).json({
+        success: false,
+        affected: 0,
+        error: outcome.error,
+        ...('notFound' in outcome && { notFound: outcome.notFound })
+      });
+    }
+
+    res.json({ success: true, message: outcome.message, affected: ids.length });
+
+  } catch (error: any) {
+    console.error('Erro na operação em lote:', error);
+    res.status(500).json({ success: false, affected: 0, error: 'Erro interno no servidor' });
+  }
+});
+
+/**
+ * Acrescenta o PDF ao ZIP e espera ele entrar por inteiro. Um erro na leitura
+ * do storage ou no ZIP rejeita (o archiver não repassa erros da origem e a
+ * espera nunca terminaria); se o cliente desconecta, a leitura é descartada.
+ */
+const appendToArchive = (archive: archiver.Archiver, source: Readable, name: string, res: Response): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      archive.removeListener('entry', onEntry);
+      archive.removeListener('error', onError);
+      source.removeListener('error', onError);
+      res.removeListener('close', onClose);
+    };
+    const onEntry = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      source.destroy();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      source.destroy();
+      resolve();
+    };
+
+    archive.once('entry', onEntry);
+    archive.once('error', onError);
+    source.once('error', onError);
+    res.once('close', onClose);
+    archive.append(source, { name });
+  });
+
+/**
+ * ZIP com os documentos selecionados, gerado enquanto é enviado: cada PDF
+ * é lido do storage só quando o anterior terminou de entrar no arquivo.
+ * Aceita JSON ou formulário, para o navegador baixar direto via <form>.
+ */
+router.post('/archive', requireAuth, express.urlencoded({ extended: false }), audit('download'), async (req: Request, res: Response) => {
+  let archive: archiver.Archiver | null = null;
+
+  try {
+    const ids = parseIds(req.body.ids);
+    if (!ids) {
+      return res.status(400).json({ success: false, error: `Informe de 1 a ${MAX_BULK_IDS} ids válidos` });
+    }
+
+    const result = await query(
+      `SELECT id, custom_name, file_path FROM pdf_files
+       WHERE id = ANY($1::uuid[]) AND ($2::uuid IS NULL OR owner_id = $2) AND deleted_at IS NULL
+       ORDER BY custom_name`,
+      [ids, scopeOwnerId(req.user!)]
+    );
+    if (result.rows.length === 0) {
+      setAuditTargets(res, ids.map(id => ({ id, details: { archive: true } })));
+      return res.status(404).json({ success: false, error: 'Nenhum arquivo encontrado' });
+    }
+
+    setAuditTargets(res, result.rows.map(file => ({ id: file.id, name: file.custom_name, details: { archive: true } })));
+
+    // PDFs já são comprimidos; guardar sem compressão poupa CPU
+    archive = archiver('zip', { store: true });
+    archive.on('warning', error => console.warn('Aviso ao gerar ZIP:', error));
+    archive.on('error', error => {
+      console.error('Erro ao gerar ZIP:', error);
+      res.destroy(error);
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.attachment(`documentos-${date}.zip`);
+    res.setHeader('Content-Type', 'application/zip');
+    archive.pipe(res);
+
+    const used = new Set<string>();
+    const missing: string[] = [];
+
+    for (const file of result.rows) {
+      // Cliente desconectou: não há para quem terminar o ZIP
+      if (res.destroyed) {
+        archive.abort();
+        return;
+      }
+
+      if (!(await storage.stat(file.file_path))) {
+        missing.push(file.custom_name);
+        continue;
+      }
+
+      const stream = await storage.createReadStream(file.file_path);
+      await appendToArchive(archive, stream, uniqueEntryName(file.custom_name, used), res);
+    }
+    if (res.destroyed) {
+      archive.abort();
+      return;
+    }
+
+    if (missing.length > 0) {
+      archive.append(
+        `Arquivos não encontrados no storage:\n${missing.join('\n')}\n`,
+        { name: 'arquivos-ausentes.txt' }
+      );
+    }
+    await archive.finalize();
+
+  } catch (error: any) {
+    console.error('Erro ao gerar ZIP:', error);
+    if (res.headersSent) {
+      archive?.abort();
+      res.destroy(error);
+    } else {
+      res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+    }
+  }
+});
+
+export default router;
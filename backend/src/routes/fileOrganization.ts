@@ -0,0 +1,195 @@
+import { Request, Response, Router } from 'express';
+
+import { query, withTransaction } from '../database/config';
+import { requireAuth } from '../middleware/auth';
+import { audit, setAuditTargets } from '../middleware/audit';
+import { FILE_COLUMNS, findAccessibleFile, toUploadedFile } from '../services/files';
+import { applyDetailsChange, parseDetailsPatch, toFileChange, toFileDetails } from '../services/fileDetails';
+import { attachTags, findOwnedFolder, parseTagNames, setFileTags } from '../services/organization';
+import { FileChangesResponse, FileResponse } from '../types';
+
+// Montado em /api/files/:id, com autenticação em cada rota (como as pré-visualizações)
+const router = Router({ mergeParams: true });
+
+const loadFile = async (id: string) => {
+  const result = await query(`SELECT ${FILE_COLUMNS} FROM pdf_files WHERE id = $1`, [id]);
+  return (await attachTags([toUploadedFile(result.rows[0])]))[0];
+};
+
+const MAX_CHANGES = 200;
+
+// ETag dos dados do documento: muda a cada alteração de updated_at
+const detailsTag = (updatedAt: Date | string): string => `"${new Date(updatedAt).getTime()}"`;
+
+/**
+ * Controle de concorrência do PATCH: If-Match com o ETag ou updatedAt no
+ * corpo, ambos opcionais. Confere com o updated_at atual do documento.
+ */
+const preconditionHolds = (req: Request, updatedAt: Date): boolean => {
+  const ifMatch = req.get('If-Match');
+  if (ifMatch && ifMatch.trim() !== '*' && !ifMatch.split(',').map(tag => tag.trim()).includes(detailsTag(updatedAt))) {
+    return false;
+  }
+  return req.body.updatedAt === undefined || Date.parse(req.body.updatedAt) === updatedAt.getTime();
+};
+
+// Documento, com o ETag usado no controle de concorrência do PATCH
+router.get('/', requireAuth, async (req: Request, res: Response<FileResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+    }
+
+    const uploaded = await loadFile(file.id);
+    res.setHeader('ETag', detailsTag(uploaded.updatedAt));
+    res.json({ success: true, file: uploaded });
+
+  } catch (error: any) {
+    console.error('Erro ao carregar arquivo:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Alterar o nome e os dados descritivos (descrição, data, referência, propriedades)
+router.patch('/', requireAuth, audit('update'), async (req: Request, res: Response<FileResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+    }
+
+    const parsed = parseDetailsPatch(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+    if (req.body.updatedAt !== undefined && (typeof req.body.updatedAt !== 'string' || isNaN(Date.parse(req.body.updatedAt)))) {
+      return res.status(400).json({ success: false, error: 'updatedAt inválido' });
+    }
+
+    const outcome = await withTransaction(async client => {
+      // Trava o documento para conferir a versão e gravar sem corrida
+      const result = await client.query(
+        `SELECT ${FILE_COLUMNS} FROM pdf_files WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+        [file.id]
+      );
+      const current = result.rows[0];
+      if (!current) return { status: 404 };
+      if (!preconditionHolds(req, current.updated_at)) return { status: 412 };
+
+      return { changes: await applyDetailsChange(client, toFileDetails(current), file.id, req.user!.id, parsed.values) };
+    });
+
+    if (outcome.status === 404) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+    }
+
+    const updated = await loadFile(file.id);
+    res.setHeader('ETag', detailsTag(updated.updatedAt));
+
+    // Devolve a versão atual para o cliente refazer a edição sobre ela
+    if (outcome.status === 412) {
+      return res.status(412).json({
+        success: false,
+        file: updated,
+        error: 'O documento foi alterado desde que foi carregado; confira os dados atuais e tente de novo'
+      });
+    }
+
+    const fields = Object.keys(outcome.changes!);
+    // Sem mudanças não há evento na auditoria
+    setAuditTargets(res, fields.length > 0 ? [{ id: file.id, details: { fields } }] : []);
+    res.json({
+      success: true,
+      message: fields.length > 0 ? 'Dados do documento atualizados' : 'Nenhuma alteração',
+      file: updated
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao atualizar arquivo:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Histórico de alterações do nome e dados descritivos, da mais recente para a mais antiga
+router.get('/changes', requireAuth, async (req: Request, res: Response<FileChangesResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, changes: [], error: 'Arquivo não encontrado' });
+    }
+
+    const result = await query(
+      `SELECT c.*, u.name AS changed_by_name FROM pdf_file_changes c
+       LEFT JOIN users u ON u.id = c.changed_by
+       WHERE c.file_id = $1 ORDER BY c.changed_at DESC LIMIT $2`,
+      [file.id, MAX_CHANGES]
+    );
+    res.json({ success: true, changes: result.rows.map(toFileChange) });
+
+  } catch (error: any) {
+    console.error('Erro ao listar alterações:', error);
+    res.status(500).json({ success: false, changes: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Mover para uma pasta do dono do documento (folderId null = raiz)
+router.put('/folder', requireAuth, audit('move'), async (req: Request, res: Response<FileResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+    }
+
+    const folderId = req.body.folderId || null;
+    const folder = folderId && file.owner_id ? await findOwnedFolder(file.owner_id, folderId) : null;
+    if (folderId && !folder) {
+      return res.status(404).json({ success: false, error: 'Pasta não encontrada' });
+    }
+
+    await query('UPDATE pdf_files SET folder_id = $2 WHERE id = $1', [file.id, folderId]);
+
+    res.json({
+      success: true,
+      message: folder ? `Movido para "${folder.name}"` : 'Movido para a raiz',
+      file: await loadFile(file.id)
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao mover arquivo:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Substituir as tags do documento
+router.put('/tags', requireAuth, audit('tag'), async (req: Request, res: Response<FileResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+    }
+
+    const names = parseTagNames(req.body.tags);
+    if (!names) {
+      return res.status(400).json({ success: false, error: 'Lista de tags inválida' });
+    }
+    if (!file.owner_id) {
+      return res.status(400).json({ success: false, error: 'Documentos sem dono não podem receber tags' });
+    }
+
+    await withTransaction(client => setFileTags(client, file.id, file.owner_id, names));
+
+    res.json({ success: true, message: 'Tags atualizadas', file: await loadFile(file.id) });
+
+  } catch (error: any) {
+    console.error('Erro ao atualizar tags:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
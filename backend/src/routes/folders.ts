@@ -0,0 +1,155 @@
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { findOwnedFolder, isUuid, toFolder } from '../services/organization';
+import { FolderResponse, FoldersResponse } from '../types';
+
+// Montado em /api/folders, após requireAuth. Cada usuário vê só as próprias pastas.
+const router = Router();
+
+const MAX_FOLDER_NAME = 255;
+
+const validateName = (name: unknown): string | null => {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  return trimmed && trimmed.length <= MAX_FOLDER_NAME ? trimmed : null;
+};
+
+const isUniqueViolation = (error: any): boolean => error.code === '23505';
+
+const selectFolder = async (id: string) => {
+  const result = await query(
+    `SELECT f.*, (SELECT COUNT(*) FROM pdf_files p WHERE p.folder_id = f.id AND p.deleted_at IS NULL) AS file_count
+     FROM folders f WHERE f.id = $1`,
+    [id]
+  );
+  return toFolder(result.rows[0]);
+};
+
+// Listar pastas (lista plana com parentId; o cliente monta a árvore)
+router.get('/', async (req: Request, res: Response<FoldersResponse>) => {
+  try {
+    const result = await query(
+      `SELECT f.*, (SELECT COUNT(*) FROM pdf_files p WHERE p.folder_id = f.id AND p.deleted_at IS NULL) AS file_count
+       FROM folders f WHERE f.owner_id = $1
+       ORDER BY lower(f.name)`,
+      [req.user!.id]
+    );
+
+    res.json({ success: true, folders: result.rows.map(toFolder) });
+
+  } catch (error: any) {
+    console.error('Erro ao listar pastas:', error);
+    res.status(500).json({ success: false, folders: [], error: 'Erro ao carregar pastas' });
+  }
+});
+
+// Criar pasta
+router.post('/', async (req: Request, res: Response<FolderResponse>) => {
+  try {
+    const name = validateName(req.body.name);
+    const { parentId } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ success: false, error: 'Nome da pasta é obrigatório' });
+    }
+    if (parentId && !(await findOwnedFolder(req.user!.id, parentId))) {
+      return res.status(404).json({ success: false, error: 'Pasta de destino não encontrada' });
+    }
+
+    const result = await query(
+      'INSERT INTO folders (owner_id, parent_id, name) VALUES ($1, $2, $3) RETURNING id',
+      [req.user!.id, parentId || null, name]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Pasta "${name}" criada`,
+      folder: await selectFolder(result.rows[0].id)
+    });
+
+  } catch (error: any) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: 'Já existe uma pasta com esse nome neste local' });
+    }
+    console.error('Erro ao criar pasta:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Renomear e/ou mover pasta (parentId null move para a raiz)
+router.patch('/:id', async (req: Request, res: Response<FolderResponse>) => {
+  try {
+    const folder = await findOwnedFolder(req.user!.id, req.params.id);
+
+    if (!folder) {
+      return res.status(404).json({ success: false, error: 'Pasta não encontrada' });
+    }
+
+    const name = req.body.name === undefined ? folder.name : validateName(req.body.name);
+    if (!name) {
+      return res.status(400).json({ success: false, error: 'Nome da pasta é obrigatório' });
+    }
+
+    const parentId = req.body.parentId === undefined ? folder.parent_id : req.body.parentId || null;
+    if (parentId && parentId !== folder.parent_id) {
+      if (!(await findOwnedFolder(req.user!.id, parentId))) {
+        return res.status(404).json({ success: false, error: 'Pasta de destino não encontrada' });
+      }
+
+      // O destino não pode ser a própria pasta nem uma de suas subpastas
+      const cycle = await query(
+        `WITH RECURSIVE subtree AS (
+           SELECT id FROM folders WHERE id = $1
+           UNION ALL
+           SELECT f.id FROM folders f JOIN subtree s ON f.parent_id = s.id
+         )
+         SELECT 1 FROM subtree WHERE id = $2`,
+        [folder.id, parentId]
+      );
+      if (cycle.rows.length > 0) {
+        return res.status(400).json({ success: false, error: 'Uma pasta não pode ser movida para dentro dela mesma' });
+      }
+    }
+
+    await query('UPDATE folders SET name = $2, parent_id = $3 WHERE id = $1', [folder.id, name, parentId]);
+
+    res.json({
+      success: true,
+      message: 'Pasta atualizada',
+      folder: await selectFolder(folder.id)
+    });
+
+  } catch (error: any) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: 'Já existe uma pasta com esse nome neste local' });
+    }
+    console.error('Erro ao atualizar pasta:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Excluir pasta: as subpastas são excluídas junto e os documentos voltam para a raiz
+router.delete('/:id', async (req: Request, res: Response<FolderResponse>) => {
+  try {
+    if (!isUuid(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Pasta não encontrada' });
+    }
+
+    const result = await query(
+      'DELETE FROM folders WHERE id = $1 AND owner_id = $2 RETURNING name',
+      [req.params.id, req.user!.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Pasta não encontrada' });
+    }
+
+    res.json({ success: true, message: `Pasta "${result.rows[0].name}" excluída` });
+
+  } catch (error: any) {
+    console.error('Erro ao excluir pasta:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
@@ -0,0 +1,315 @@
+import fs from 'fs';
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { requireAuth } from '../middleware/auth';
+import { audit, setAuditTargets } from '../middleware/audit';
+import { findAccessibleFile } from '../services/files';
+import { attachTags, isUuid } from '../services/organization';
+import { QuotaExceededError, checkQuota } from '../services/quotas';
+import {
+  MAX_OUTPUT_PAGES,
+  PageOperation,
+  PageRef,
+  buildDocument,
+  createDerivedFiles,
+  findSourceFiles,
+  isValidRotation,
+  parsePageRanges
+} from '../services/pdfTools';
+import { FileSource, FileSourcesResponse, UploadResponse, UploadedFile } from '../types';
+
+// Montado em /api/files, com autenticação em cada rota (como as operações em lote)
+const router = Router();
+
+const MAX_MERGE_FILES = 50;
+const MAX_NAME_LENGTH = 255;
+
+// Nome do documento gerado: o informado ou um padrão a partir da origem
+const resultName = (input: unknown, fallback: string): string | null => {
+  if (input === undefined || input === null || input === '') return fallback.slice(0, MAX_NAME_LENGTH);
+  if (typeof input !== 'string' || !input.trim() || input.trim().length > MAX_NAME_LENGTH) return null;
+  return input.trim();
+};
+
+/**
+ * Monta os documentos (um por lista de páginas) e confere se cabem, juntos,
+ * na cota do usuário. Se não cabem, descarta os temporários e devolve o erro.
+ * A conferência que vale é a de createDerivedFiles, ao gravar.
+ */
+const buildWithinQuota = async (
+  req: Request,
+  parts: PageRef[][],
+  sources: Map<string, any>
+): Promise<{ paths: string[] } | { error: string }> => {
+  const paths: string[] = [];
+  for (const pages of parts) {
+    paths.push(await buildDocument(pages, sources));
+  }
+
+  const sizes = await Promise.all(paths.map(async filePath => (await fs.promises.stat(filePath)).size));
+  const error = await checkQuota(req.user!.id, { files: paths.length, bytes: sizes.reduce((total, size) => total + size, 0) });
+  if (error) {
+    await Promise.all(paths.map(filePath => fs.promises.unlink(filePath)));
+    return { error };
+  }
+  return { paths };
+};
+
+/**
+ * Confere as páginas pedidas contra os documentos de origem e gera o novo
+ * documento. Responde 404/400 quando a origem não existe ou não pode ser editada.
+ */
+const respondWithDerived = async (
+  req: Request,
+  res: Response<UploadResponse>,
+  pages: PageRef[],
+  name: string,
+  operation: PageOperation
+) => {
+  if (pages.length === 0 || pages.length > MAX_OUTPUT_PAGES) {
+    return res.status(400).json({ success: false, message: '', files: [], error: `O resultado deve ter de 1 a ${MAX_OUTPUT_PAGES} páginas` });
+  }
+
+  const ids = [...new Set(pages.map(ref => ref.fileId))];
+  const sources = await findSourceFiles(req.user!, ids);
+  if (sources.size < ids.length) {
+    return res.status(404).json({ success: false, message: '', files: [], error: 'Arquivo(s) não encontrado(s)' });
+  }
+  if ([...sources.values()].some(file => file.is_encrypted)) {
+    return res.status(400).json({ success: false, message: '', files: [], error: 'Documentos criptografados não podem ser editados' });
+  }
+  if (pages.some(ref => ref.page > sources.get(ref.fileId).page_count)) {
+    return res.status(400).json({ success: false, message: '', files: [], error: 'Página fora do documento' });
+  }
+
+  const built = await buildWithinQuota(req, [pages], sources);
+  if ('error' in built) {
+    return res.status(413).json({ success: false, message: '', files: [], error: built.error });
+  }
+
+  let file: UploadedFile;
+  try {
+    [file] = await createDerivedFiles(req.user!, [{ name, filePath: built.paths[0], pages }], sources, operation);
+  } catch (error) {
+    if (!(error instanceof QuotaExceededError)) throw error;
+    return res.status(413).json({ success: false, message: '', files: [], error: error.message });
+  }
+  setAuditTargets(res, [{ id: file.id, name: file.customName, details: { sources: ids } }]);
+  res.status(201).json({
+    success: true,
+    message: `Documento "${file.customName}" criado com ${pages.length} página(s)`,
+    files: await attachTags([file])
+  });
+};
+
+// Juntar documentos inteiros, na ordem informada
+router.post('/merge', requireAuth, audit('merge'), async (req: Request, res: Response<UploadResponse>) => {
+  try {
+    const fileIds = req.body.fileIds;
+    if (!Array.isArray(fileIds) || fileIds.length < 2 || fileIds.length > MAX_MERGE_FILES || !fileIds.every(isUuid)) {
+      return res.status(400).json({ success: false, message: '', files: [], error: `Informe de 2 a ${MAX_MERGE_FILES} documentos` });
+    }
+
+    const name = resultName(req.body.name, 'Documentos combinados');
+    if (!name) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Nome inválido' });
+    }
+
+    const sources = await findSourceFiles(req.user!, fileIds);
+    if (sources.size < new Set(fileIds).size) {
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Arquivo(s) não encontrado(s)' });
+    }
+
+    const pages: PageRef[] = fileIds.flatMap((fileId: string) =>
+      Array.from({ length: sources.get(fileId).page_count || 0 }, (_, index) => ({ fileId, page: index + 1 }))
+    );
+    await respondWithDerived(req, res, pages, name, 'merge');
+
+  } catch (error: any) {
+    console.error('Erro ao juntar documentos:', error);
+    res.status(500).json({ success: false, message: '', files: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Montar um documento página a página, de um ou mais documentos (organizador de páginas)
+router.post('/compose', requireAuth, audit('compose'), async (req: Request, res: Response<UploadResponse>) => {
+  try {
+    const input = req.body.pages;
+    const valid = Array.isArray(input) && input.every(ref =>
+      ref && isUuid(ref.fileId) && Number.isInteger(ref.page) && ref.page >= 1 &&
+      (ref.rotate === undefined || isValidRotation(ref.rotate))
+    );
+    if (!valid) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Lista de páginas inválida' });
+    }
+
+    const name = resultName(req.body.name, 'Novo documento');
+    if (!name) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Nome inválido' });
+    }
+
+    const pages: PageRef[] = input.map((ref: PageRef) => ({ fileId: ref.fileId, page: ref.page, rotate: ref.rotate }));
+    await respondWithDerived(req, res, pages, name, 'compose');
+
+  } catch (error: any) {
+    console.error('Erro ao montar documento:', error);
+    res.status(500).json({ success: false, message: '', files: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Dividir em vários documentos, um por intervalo ("1-3, 4-")
+router.post('/:id/split', requireAuth, audit('split'), async (req: Request, res: Response<UploadResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Arquivo não encontrado' });
+    }
+
+    const sources = await findSourceFiles(req.user!, [file.id]);
+    const source = sources.get(file.id);
+    if (source.is_encrypted) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Documentos criptografados não podem ser editados' });
+    }
+
+    const ranges = parsePageRanges(req.body.ranges, source.page_count);
+    if (!ranges || ranges.length > MAX_MERGE_FILES) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Intervalos de páginas inválidos' });
+    }
+
+    const parts = ranges.map(range => range.map(page => ({ fileId: file.id, page })));
+    const built = await buildWithinQuota(req, parts, sources);
+    if ('error' in built) {
+      return res.status(413).json({ success: false, message: '', files: [], error: built.error });
+    }
+
+    // As partes entram todas ou nenhuma
+    const outputs = parts.map((pages, index) => ({
+      name: `${file.custom_name} (parte ${index + 1})`.slice(0, MAX_NAME_LENGTH),
+      filePath: built.paths[index],
+      pages
+    }));
+    let files: UploadedFile[];
+    try {
+      files = await createDerivedFiles(req.user!, outputs, sources, 'split');
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) throw error;
+      return res.status(413).json({ success: false, message: '', files: [], error: error.message });
+    }
+    setAuditTargets(res, files.map(part => ({ id: part.id, name: part.customName, details: { sources: [file.id] } })));
+
+    res.status(201).json({
+      success: true,
+      message: `Documento dividido em ${files.length} parte(s)`,
+      files: await attachTags(files)
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao dividir documento:', error);
+    res.status(500).json({ success: false, message: '', files: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Extrair páginas, na ordem pedida ("5, 1-3" também reordena)
+router.post('/:id/extract', requireAuth, audit('extract'), async (req: Request, res: Response<UploadResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Arquivo não encontrado' });
+    }
+
+    const sources = await findSourceFiles(req.user!, [file.id]);
+    const ranges = parsePageRanges(req.body.pages, sources.get(file.id).page_count || 0);
+    if (!ranges) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Páginas inválidas' });
+    }
+
+    const name = resultName(req.body.name, `${file.custom_name} (páginas ${req.body.pages.trim()})`);
+    if (!name) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Nome inválido' });
+    }
+
+    const pages = ranges.flat().map(page => ({ fileId: file.id, page }));
+    await respondWithDerived(req, res, pages, name, 'extract');
+
+  } catch (error: any) {
+    console.error('Erro ao extrair páginas:', error);
+    res.status(500).json({ success: false, message: '', files: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Gerar uma cópia com páginas giradas (todas, se "pages" não for informado)
+router.post('/:id/rotate', requireAuth, audit('rotate'), async (req: Request, res: Response<UploadResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Arquivo não encontrado' });
+    }
+
+    const angle = req.body.angle;
+    if (![90, 180, 270].includes(angle)) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Ângulo inválido (use 90, 180 ou 270)' });
+    }
+
+    const sources = await findSourceFiles(req.user!, [file.id]);
+    const pageCount = sources.get(file.id).page_count || 0;
+    const selected = req.body.pages ? parsePageRanges(req.body.pages, pageCount) : [[]];
+    if (!selected) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Páginas inválidas' });
+    }
+
+    const rotated = new Set(selected.flat());
+    const pages = Array.from({ length: pageCount }, (_, index) => ({
+      fileId: file.id,
+      page: index + 1,
+      rotate: !req.body.pages || rotated.has(index + 1) ? angle : 0
+    }));
+
+    const name = resultName(req.body.name, `${file.custom_name} (girado)`);
+    if (!name) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Nome inválido' });
+    }
+
+    await respondWithDerived(req, res, pages, name, 'rotate');
+
+  } catch (error: any) {
+    console.error('Erro ao girar páginas:', error);
+    res.status(500).json({ success: false, message: '', files: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// De quais documentos (e versões) vieram as páginas de um documento gerado
+router.get('/:id/sources', requireAuth, async (req: Request, res: Response<FileSourcesResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, sources: [], error: 'Arquivo não encontrado' });
+    }
+
+    const result = await query(
+      `SELECT source_file_id, source_name, source_version, operation, pages
+       FROM pdf_file_sources WHERE file_id = $1 ORDER BY position`,
+      [file.id]
+    );
+
+    const sources: FileSource[] = result.rows.map(row => ({
+      fileId: row.source_file_id,
+      name: row.source_name,
+      version: row.source_version,
+      operation: row.operation,
+      pages: row.pages
+    }));
+
+    res.json({ success: true, sources });
+
+  } catch (error: any) {
+    console.error('Erro ao buscar origem do documento:', error);
+    res.status(500).json({ success: false, sources: [], error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
@@ -0,0 +1,57 @@
+import { Request, Response, Router } from 'express';
+
+import { PREVIEW_CACHE_CONTROL } from '../config';
+import { requireAuth } from '../middleware/auth';
+import { findAccessibleFile } from '../services/files';
+import { ensurePreview, PreviewTarget } from '../services/previews';
+import { sendStoredFile } from '../services/download';
+
+// Montado em /api/files/:id; a autenticação fica em cada rota para não
+// repetir a consulta do usuário nas demais rotas de /api/files/:id
+const router = Router({ mergeParams: true });
+
+const sendPreview = async (req: Request, res: Response, target: PreviewTarget) => {
+  const file = await findAccessibleFile(req.user!, req.params.id);
+
+  if (!file) {
+    return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+  }
+
+  const preview = await ensurePreview(file, target);
+  if (!preview) {
+    return res.status(404).json({ success: false, error: 'Página não encontrada' });
+  }
+
+  const name = target === 'thumbnail' ? 'miniatura.png' : `pagina-${target}.png`;
+  res.setHeader('X-Page-Count', preview.pageCount);
+  const sent = await sendStoredFile(res, preview.key, name, {
+    inline: true,
+    contentType: 'image/png',
+    cacheControl: PREVIEW_CACHE_CONTROL
+  });
+  if (!sent) {
+    return res.status(404).json({ success: false, error: 'Pré-visualização não encontrada' });
+  }
+};
+
+// Miniatura da primeira página
+router.get('/thumbnail', requireAuth, async (req: Request, res: Response) => {
+  try {
+    await sendPreview(req, res, 'thumbnail');
+  } catch (error: any) {
+    console.error('Erro ao gerar miniatura:', error);
+    res.status(500).json({ success: false, error: 'Erro ao gerar miniatura' });
+  }
+});
+
+// Página renderizada para o visualizador
+router.get('/pages/:page', requireAuth, async (req: Request, res: Response) => {
+  try {
+    await sendPreview(req, res, parseInt(req.params.page) || 0);
+  } catch (error: any) {
+    console.error('Erro ao renderizar página:', error);
+    res.status(500).json({ success: false, error: 'Erro ao renderizar página' });
+  }
+});
+
+export default router;
@@ -0,0 +1,121 @@
+import express, { Request, Response, Router } from 'express';
+import bcrypt from 'bcryptjs';
+
+import { query } from '../database/config';
+import {
+  SHARE_PASSWORD_ATTEMPTS_PER_IP,
+  SHARE_PASSWORD_ATTEMPTS_PER_LINK,
+  SHARE_PASSWORD_WINDOW_MINUTES
+} from '../config';
+import { audit, setAuditTargets } from '../middleware/audit';
+import { requestedInline, sendStoredFile } from '../services/download';
+import { isShareLinkActive } from '../services/shareLinks';
+import { AttemptLimiter } from '../utils/attemptLimiter';
+
+// Montado em /s, sem autenticação
+const router = Router();
+
+router.use(express.urlencoded({ extended: false }));
+
+// Senhas erradas por IP e por link; no limite, nem a senha certa é aceita até a janela acabar
+const attemptsByIp = new AttemptLimiter(SHARE_PASSWORD_ATTEMPTS_PER_IP, SHARE_PASSWORD_WINDOW_MINUTES * 60 * 1000);
+const attemptsByLink = new AttemptLimiter(SHARE_PASSWORD_ATTEMPTS_PER_LINK, SHARE_PASSWORD_WINDOW_MINUTES * 60 * 1000);
+
+// Página mínima para quem abre um link protegido pelo navegador
+const renderPasswordForm = (error?: string): string => `<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><title>Documento protegido</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 80px auto; text-align: center;">
+  <h2>Documento protegido por senha</h2>
+  ${error ? `<p style="color: #c0392b;">${error}</p>` : ''}
+  <form method="post">
+    <input type="password" name="password" placeholder="Senha" required autofocus>
+    <button type="submit">Baixar</button>
+  </form>
+</body>
+</html>`;
+
+const denyPassword = (req: Request, res: Response, error: string, status: number = 401) => {
+  res.status(status);
+  if (req.accepts(['json', 'html']) === 'html') {
+    return res.type('html').send(renderPasswordForm(req.method === 'POST' ? error : undefined));
+  }
+  return res.json({ success: false, error });
+};
+
+const downloadShared = async (req: Request, res: Response) => {
+  try {
+    const result = await query(
+      `SELECT s.*, f.file_path, f.custom_name
+       FROM share_links s JOIN pdf_files f ON f.id = s.file_id AND f.deleted_at IS NULL
+       WHERE s.token = $1`,
+      [req.params.token]
+    );
+
+    const link = result.rows[0];
+    if (link) {
+      setAuditTargets(res, [{ id: link.file_id, details: { shareId: link.id } }]);
+    }
+
+    if (!link || link.revoked_at) {
+      return res.status(404).json({ success: false, error: 'Link não encontrado' });
+    }
+    if (!isShareLinkActive(link)) {
+      return res.status(410).json({ success: false, error: 'Link expirado ou limite de downloads atingido' });
+    }
+
+    if (link.password_hash) {
+      const password = req.body?.password || req.get('X-Share-Password');
+      if (!password) {
+        return denyPassword(req, res, 'Senha necessária');
+      }
+      const ip = req.ip || '';
+      const retryAfter = Math.max(attemptsByIp.retryAfter(ip), attemptsByLink.retryAfter(link.id));
+      if (retryAfter > 0) {
+        res.setHeader('Retry-After', retryAfter);
+        return denyPassword(req, res, 'Muitas tentativas de senha; tente novamente mais tarde', 429);
+      }
+      attemptsByIp.record(ip);
+      attemptsByLink.record(link.id);
+      if (!(await bcrypt.compare(String(password), link.password_hash))) {
+        return denyPassword(req, res, 'Senha incorreta');
+      }
+      attemptsByIp.forgive(ip);
+      attemptsByLink.forgive(link.id);
+    }
+
+    // Reserva o download de forma atômica para respeitar o limite sob concorrência
+    const claimed = await query(
+      `UPDATE share_links SET download_count = download_count + 1
+       WHERE id = $1 AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())
+         AND (max_downloads IS NULL OR download_count < max_downloads)
+       RETURNING id`,
+      [link.id]
+    );
+
+    if (claimed.rows.length === 0) {
+      return res.status(410).json({ success: false, error: 'Link expirado ou limite de downloads atingido' });
+    }
+
+    // Cada resposta conta no limite do link, então não há Range nem 304
+    const sent = await sendStoredFile(res, link.file_path, `${link.custom_name}.pdf`, {
+      inline: requestedInline(req),
+      conditional: false
+    });
+    if (!sent) {
+      await query('UPDATE share_links SET download_count = download_count - 1 WHERE id = $1', [link.id]);
+      return res.status(404).json({ success: false, error: 'Arquivo físico não encontrado' });
+    }
+
+  } catch (error: any) {
+    console.error('Erro no download compartilhado:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+};
+
+// Sem sessão: o evento fica sem autor, identificado pelo link usado
+router.get('/:token', audit('share.download', null), downloadShared);
+router.post('/:token', audit('share.download', null), downloadShared);
+
+export default router;
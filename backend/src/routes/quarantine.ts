@@ -0,0 +1,57 @@
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { storage } from '../storage';
+import { scopeOwnerId } from '../middleware/auth';
+import { isUuid } from '../services/organization';
+import { toQuarantinedFile } from '../services/quarantine';
+import { DeleteResponse, QuarantineResponse } from '../types';
+
+// Montado em /api/quarantine, após requireAuth
+const router = Router();
+
+// Listar uploads em quarentena
+router.get('/', async (req: Request, res: Response<QuarantineResponse>) => {
+  try {
+    const result = await query(
+      `SELECT * FROM quarantined_files WHERE ($1::uuid IS NULL OR owner_id = $1)
+       ORDER BY created_at DESC`,
+      [scopeOwnerId(req.user!)]
+    );
+
+    res.json({ success: true, files: result.rows.map(toQuarantinedFile) });
+
+  } catch (error: any) {
+    console.error('Erro ao listar quarentena:', error);
+    res.status(500).json({ success: false, files: [], error: 'Erro ao carregar quarentena' });
+  }
+});
+
+// Descartar um upload em quarentena
+router.delete('/:id', async (req: Request, res: Response<DeleteResponse>) => {
+  try {
+    if (!isUuid(req.params.id)) {
+      return res.status(404).json({ success: false, message: '', error: 'Arquivo não encontrado na quarentena' });
+    }
+
+    const result = await query(
+      `DELETE FROM quarantined_files WHERE id = $1 AND ($2::uuid IS NULL OR owner_id = $2)
+       RETURNING storage_key`,
+      [req.params.id, scopeOwnerId(req.user!)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: '', error: 'Arquivo não encontrado na quarentena' });
+    }
+
+    await storage.delete(result.rows[0].storage_key);
+
+    res.json({ success: true, message: 'Arquivo descartado da quarentena' });
+
+  } catch (error: any) {
+    console.error('Erro ao descartar da quarentena:', error);
+    res.status(500).json({ success: false, message: '', error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
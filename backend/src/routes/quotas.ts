@@ -0,0 +1,60 @@
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { isUuid } from '../services/organization';
+import { listOwnerQuotas } from '../services/quotas';
+import { OwnerQuotaResponse, OwnerQuotasResponse } from '../types';
+
+// Montado em /api/quotas, após requireAuth e requireAdmin
+const router = Router();
+
+/**
+ * Limite próprio do usuário: null volta ao padrão da configuração e 0
+ * libera sem limite. undefined indica valor inválido.
+ */
+const parseLimit = (input: unknown): number | null | undefined => {
+  if (input === null || input === '') return null;
+  const value = typeof input === 'string' ? Number(input) : input;
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0 ? value : undefined;
+};
+
+// Uso e cotas de todos os usuários
+router.get('/users', async (req: Request, res: Response<OwnerQuotasResponse>) => {
+  try {
+    res.json({ success: true, owners: await listOwnerQuotas() });
+  } catch (error: any) {
+    console.error('Erro ao listar cotas:', error);
+    res.status(500).json({ success: false, owners: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Definir as cotas de um usuário
+router.put('/users/:id', async (req: Request, res: Response<OwnerQuotaResponse>) => {
+  try {
+    const maxBytes = parseLimit(req.body.maxBytes);
+    const maxFiles = parseLimit(req.body.maxFiles);
+    if (maxBytes === undefined || maxFiles === undefined || (maxFiles !== null && maxFiles > 2147483647)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Limites inválidos (use um inteiro não negativo, 0 para sem limite ou null para o padrão)'
+      });
+    }
+
+    const result = await query(
+      'UPDATE users SET quota_bytes = $2, quota_files = $3 WHERE id = $1 RETURNING id',
+      [isUuid(req.params.id) ? req.params.id : null, maxBytes, maxFiles]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Usuário não encontrado' });
+    }
+
+    const [owner] = await listOwnerQuotas(req.params.id);
+    res.json({ success: true, message: 'Cotas atualizadas', owner });
+
+  } catch (error: any) {
+    console.error('Erro ao atualizar cotas:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
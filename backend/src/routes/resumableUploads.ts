@@ -0,0 +1,344 @@
+import express, { Request, Response, Router } from 'express';
+import path from 'path';
+import fs from 'fs';
+
+import { query } from '../database/config';
+import { CHUNK_SIZE, MAX_RESUMABLE_FILE_SIZE, RESUMABLE_UPLOAD_EXPIRY_HOURS } from '../config';
+import { createTempPath } from '../storage';
+import { audit, setAuditTargets } from '../middleware/audit';
+import { createPdfFile, generateFileName } from '../services/files';
+import { findOwnedFolder, isUuid, parseTagNames } from '../services/organization';
+import { screenUpload } from '../services/quarantine';
+import { QuotaExceededError, checkQuota } from '../services/quotas';
+import { removeSessionDir, sessionDir } from '../services/resumableUploads';
+import { formatFileSize } from '../utils/format';
+import { ResumableUpload, ResumableUploadResponse, UploadResponse, UploadedFile } from '../types';
+
+const router = Router();
+
+const ALLOWED_MIMES = ['application/pdf', 'application/x-pdf'];
+
+const toResumableUpload = (session: any): ResumableUpload => ({
+  id: session.id,
+  customName: session.custom_name,
+  originalName: session.original_name,
+  fileSize: parseInt(session.file_size),
+  chunkSize: session.chunk_size,
+  totalChunks: session.total_chunks,
+  receivedChunks: [...session.received_chunks].sort((a: number, b: number) => a - b),
+  status: session.status,
+  expiresAt: new Date(session.expires_at).toLocaleString('pt-BR')
+});
+
+const chunkPath = (id: string, index: number): string => path.join(sessionDir(id), `${index}.part`);
+
+const expectedChunkSize = (session: any, index: number): number =>
+  Math.min(session.chunk_size, parseInt(session.file_size) - index * session.chunk_size);
+
+// Cada usuário só enxerga as próprias sessões, e as expiradas já não existem
+const findSession = async (id: string, ownerId: string) => {
+  if (!isUuid(id)) return undefined;
+  const result = await query(
+    'SELECT * FROM upload_sessions WHERE id = $1 AND owner_id = $2 AND expires_at > NOW()',
+    [id, ownerId]
+  );
+  return result.rows[0];
+};
+
+// Aceita só inteiros (número ou texto só com dígitos); "10abc" não vale 10
+const parseFileSize = (value: unknown): number | null => {
+  const size = typeof value === 'number' ? value : typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  return Number.isSafeInteger(size) && size > 0 ? size : null;
+};
+
+// Iniciar upload retomável
+router.post('/', async (req: Request, res: Response<ResumableUploadResponse>) => {
+  try {
+    const { fileName, fileSize, mimeType, customName, folderId } = req.body;
+    const size = parseFileSize(fileSize);
+
+    if (!fileName || fileSize === undefined) {
+      return res.status(400).json({ success: false, error: 'Nome e tamanho do arquivo são obrigatórios' });
+    }
+
+    if (size === null) {
+      return res.status(400).json({ success: false, error: 'Tamanho do arquivo inválido' });
+    }
+
+    if (mimeType && !ALLOWED_MIMES.includes(mimeType)) {
+      return res.status(400).json({ success: false, error: 'Apenas arquivos PDF são permitidos!' });
+    }
+
+    if (size > MAX_RESUMABLE_FILE_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `Arquivo muito grande. Máximo ${formatFileSize(MAX_RESUMABLE_FILE_SIZE)} permitido.`
+      });
+    }
+
+    // Conferida aqui para não receber um arquivo que não cabe, e de novo ao concluir
+    const quotaError = await checkQuota(req.user!.id, { files: 1, bytes: size });
+    if (quotaError) {
+      return res.status(413).json({ success: false, error: quotaError });
+    }
+
+    // Pasta e tags são aplicadas quando o upload é concluído
+    const tags = parseTagNames(req.body.tags);
+    if (!tags) {
+      return res.status(400).json({ success: false, error: 'Lista de tags inválida' });
+    }
+    if (folderId && !(await findOwnedFolder(req.user!.id, folderId))) {
+      return res.status(404).json({ success: false, error: 'Pasta não encontrada' });
+    }
+
+    const totalChunks = Math.ceil(size / CHUNK_SIZE);
+    const result = await query(
+      `INSERT INTO upload_sessions
+         (custom_name, original_name, file_size, chunk_size, total_chunks, owner_id, folder_id, tags, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW() + make_interval(hours => $9))
+       RETURNING *`,
+      [
+        customName || fileName.replace('.pdf', ''), fileName, size, CHUNK_SIZE, totalChunks,
+        req.user!.id, folderId || null, tags, RESUMABLE_UPLOAD_EXPIRY_HOURS
+      ]
+    );
+
+    await fs.promises.mkdir(sessionDir(result.rows[0].id), { recursive: true });
+
+    res.status(201).json({ success: true, upload: toResumableUpload(result.rows[0]) });
+
+  } catch (error: any) {
+    console.error('Erro ao iniciar upload:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Consultar progresso (usado para retomar)
+router.get('/:id', async (req: Request, res: Response<ResumableUploadResponse>) => {
+  try {
+    const session = await findSession(req.params.id, req.user!.id);
+
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Upload não encontrado' });
+    }
+
+    res.json({ success: true, upload: toResumableUpload(session) });
+
+  } catch (error: any) {
+    console.error('Erro ao consultar upload:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Enviar uma parte
+router.put(
+  '/:id/chunks/:index',
+  express.raw({ type: 'application/octet-stream', limit: CHUNK_SIZE }),
+  async (req: Request, res: Response<ResumableUploadResponse>) => {
+    try {
+      const { id } = req.params;
+      // Só dígitos: parseInt aceitaria "1abc" ou "1.5" como a parte 1
+      const index = /^\d+$/.test(req.params.index) ? Number(req.params.index) : NaN;
+      const session = await findSession(id, req.user!.id);
+
+      if (!session) {
+        return res.status(404).json({ success: false, error: 'Upload não encontrado' });
+      }
+
+      if (session.status !== 'pending') {
+        return res.status(409).json({ success: false, error: 'Upload já finalizado' });
+      }
+
+      if (isNaN(index) || index < 0 || index >= session.total_chunks) {
+        return res.status(400).json({ success: false, error: 'Índice de parte inválido' });
+      }
+
+      const chunk = req.body as Buffer;
+      if (!Buffer.isBuffer(chunk) || chunk.length !== expectedChunkSize(session, index)) {
+        return res.status(400).json({ success: false, error: 'Tamanho da parte inválido' });
+      }
+
+      // Grava em arquivo temporário e renomeia, para nunca deixar uma parte pela metade
+      const target = chunkPath(id, index);
+      await fs.promises.mkdir(sessionDir(id), { recursive: true });
+      await fs.promises.writeFile(`${target}.tmp`, chunk);
+      await fs.promises.rename(`${target}.tmp`, target);
+
+      const result = await query(
+        `UPDATE upload_sessions
+         SET received_chunks = CASE WHEN $2 = ANY(received_chunks)
+               THEN received_chunks ELSE array_append(received_chunks, $2) END,
+             updated_at = CURRENT_TIMESTAMP,
+             expires_at = NOW() + make_interval(hours => $3)
+         WHERE id = $1
+         RETURNING *`,
+        [id, index, RESUMABLE_UPLOAD_EXPIRY_HOURS]
+      );
+
+      res.json({ success: true, upload: toResumableUpload(result.rows[0]) });
+
+    } catch (error: any) {
+      console.error('Erro ao receber parte:', error);
+      res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+    }
+  }
+);
+
+// Remontar o arquivo e registrar o PDF
+router.post('/:id/complete', audit('upload', null), async (req: Request, res: Response<UploadResponse>) => {
+  const { id } = req.params;
+  let targetPath: string | null = null;
+
+  try {
+    if (!isUuid(id)) {
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Upload não encontrado' });
+    }
+
+    // Renova o prazo para que a limpeza não remova as partes durante a montagem
+    const locked = await query(
+      `UPDATE upload_sessions
+       SET status = 'assembling', updated_at = CURRENT_TIMESTAMP, expires_at = NOW() + make_interval(hours => $3)
+       WHERE id = $1 AND owner_id = $2 AND status = 'pending' AND cardinality(received_chunks) = total_chunks
+         AND expires_at > NOW()
+       RETURNING *`,
+      [id, req.user!.id, RESUMABLE_UPLOAD_EXPIRY_HOURS]
+    );
+
+    if (locked.rows.length === 0) {
+      const session = await findSession(id, req.user!.id);
+      const error = !session
+        ? 'Upload não encontrado'
+        : session.status !== 'pending'
+          ? 'Upload já finalizado'
+          : `Faltam ${session.total_chunks - session.received_chunks.length} parte(s)`;
+      return res.status(session ? 409 : 404).json({ success: false, message: '', files: [], error });
+    }
+
+    const session = locked.rows[0];
+    const fileName = generateFileName(session.original_name);
+    targetPath = createTempPath(fileName);
+
+    for (let index = 0; index < session.total_chunks; index++) {
+      await fs.promises.appendFile(targetPath, await fs.promises.readFile(chunkPath(id, index)));
+    }
+
+    const stats = await fs.promises.stat(targetPath);
+
+    if (stats.size !== parseInt(session.file_size)) {
+      await fs.promises.unlink(targetPath);
+      await query(`UPDATE upload_sessions SET status = 'failed', updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [id]);
+      await removeSessionDir(id);
+      return res.status(400).json({
+        success: false,
+        message: '',
+        files: [],
+        error: 'O tamanho do arquivo recebido não confere'
+      });
+    }
+
+    const rejection = await screenUpload({
+      originalName: session.original_name,
+      fileName,
+      filePath: targetPath,
+      fileSize: stats.size
+    }, session.owner_id);
+
+    if (rejection) {
+      setAuditTargets(res, [
+        { id: null, name: session.original_name, details: { quarantineId: rejection.quarantineId, reason: rejection.reason } }
+      ]);
+      targetPath = null;
+      await query(`UPDATE upload_sessions SET status = 'quarantined', updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [id]);
+      await removeSessionDir(id);
+      return res.status(422).json({
+        success: false,
+        message: '',
+        files: [],
+        rejected: [rejection],
+        error: `Arquivo rejeitado: ${rejection.reason}`
+      });
+    }
+
+    // O temporário é movido para o storage, ou descartado se duplicado ou recusado
+    const filePath = targetPath;
+    targetPath = null;
+    let uploaded: UploadedFile;
+    try {
+      uploaded = await createPdfFile({
+        customName: session.custom_name,
+        originalName: session.original_name,
+        fileName,
+        filePath,
+        fileSize: stats.size,
+        mimeType: 'application/pdf',
+        ownerId: session.owner_id,
+        folderId: session.folder_id,
+        tags: session.tags
+      }, { enforceQuota: true });
+    } catch (error) {
+      // Outros envios podem ter ocupado a cota desde o início; a sessão volta a "pending" para nova tentativa
+      if (!(error instanceof QuotaExceededError)) throw error;
+      await query(`UPDATE upload_sessions SET status = 'pending', updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [id]);
+      return res.status(413).json({ success: false, message: '', files: [], error: error.message });
+    }
+
+    await query(
+      `UPDATE upload_sessions SET status = 'completed', file_id = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [id, uploaded.id]
+    );
+    await removeSessionDir(id);
+
+    setAuditTargets(res, [
+      { id: uploaded.id, name: uploaded.customName, details: { resumable: true, ...(uploaded.duplicate && { duplicate: true }) } }
+    ]);
+    res.json({
+      success: true,
+      message: '1 arquivo(s) upload realizado com sucesso!' +
+        (uploaded.duplicate ? ' O conteúdo já existia e não ocupa espaço extra.' : ''),
+      files: [uploaded],
+      duplicates: uploaded.duplicate ? 1 : 0
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao finalizar upload:', error);
+
+    // Devolve a sessão para "pending" para que o cliente possa tentar de novo
+    if (targetPath && fs.existsSync(targetPath)) {
+      fs.unlinkSync(targetPath);
+    }
+    await query(
+      `UPDATE upload_sessions SET status = 'pending' WHERE id = $1 AND status = 'assembling'`,
+      [id]
+    ).catch(() => undefined);
+
+    res.status(500).json({ success: false, message: '', files: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Cancelar upload
+router.delete('/:id', async (req: Request, res: Response<ResumableUploadResponse>) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ success: false, error: 'Upload não encontrado' });
+    }
+
+    const result = await query(
+      `DELETE FROM upload_sessions WHERE id = $1 AND owner_id = $2 AND status IN ('pending', 'failed') RETURNING id`,
+      [id, req.user!.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Upload não encontrado' });
+    }
+
+    await removeSessionDir(id);
+    res.json({ success: true });
+
+  } catch (error: any) {
+    console.error('Erro ao cancelar upload:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
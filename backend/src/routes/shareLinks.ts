@@ -0,0 +1,119 @@
+import { Request, Response, Router } from 'express';
+import bcrypt from 'bcryptjs';
+
+import { query } from '../database/config';
+import { audit, setAuditTargets } from '../middleware/audit';
+import { findAccessibleFile } from '../services/files';
+import { isUuid } from '../services/organization';
+import { generateShareToken, toShareLink } from '../services/shareLinks';
+import { ShareLinkResponse, ShareLinksResponse } from '../types';
+
+// Montado em /api/files/:id/shares, após requireAuth
+const router = Router({ mergeParams: true });
+
+// Listar links do documento
+router.get('/', async (req: Request, res: Response<ShareLinksResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, links: [], error: 'Arquivo não encontrado' });
+    }
+
+    const result = await query(
+      'SELECT * FROM share_links WHERE file_id = $1 ORDER BY created_at DESC',
+      [file.id]
+    );
+
+    res.json({ success: true, links: result.rows.map(toShareLink) });
+
+  } catch (error: any) {
+    console.error('Erro ao listar links:', error);
+    res.status(500).json({ success: false, links: [], error: 'Erro ao carregar links' });
+  }
+});
+
+// Criar link (validade, senha e limite de downloads são opcionais)
+router.post('/', audit('share.create'), async (req: Request, res: Response<ShareLinkResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+    }
+
+    const { expiresAt, password, maxDownloads } = req.body;
+
+    let expiresAtDate: Date | null = null;
+    if (expiresAt) {
+      expiresAtDate = new Date(expiresAt);
+      if (isNaN(expiresAtDate.getTime()) || expiresAtDate <= new Date()) {
+        return res.status(400).json({ success: false, error: 'A validade deve ser uma data futura' });
+      }
+    }
+
+    let maxDownloadsNum: number | null = null;
+    if (maxDownloads !== undefined && maxDownloads !== null && maxDownloads !== '') {
+      maxDownloadsNum = Number(maxDownloads);
+      if (!Number.isInteger(maxDownloadsNum) || maxDownloadsNum < 1) {
+        return res.status(400).json({ success: false, error: 'Limite de downloads inválido' });
+      }
+    }
+
+    const passwordHash = password ? await bcrypt.hash(String(password), 10) : null;
+
+    const result = await query(
+      `INSERT INTO share_links (token, file_id, created_by, password_hash, expires_at, max_downloads)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [generateShareToken(), file.id, req.user!.id, passwordHash, expiresAtDate, maxDownloadsNum]
+    );
+    setAuditTargets(res, [{ id: file.id, details: { shareId: result.rows[0].id } }]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Link de compartilhamento criado',
+      link: toShareLink(result.rows[0])
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao criar link:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Revogar link
+router.delete('/:shareId', audit('share.revoke'), async (req: Request, res: Response<ShareLinkResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+    }
+
+    const result = isUuid(req.params.shareId)
+      ? await query(
+        `UPDATE share_links SET revoked_at = COALESCE(revoked_at, NOW())
+         WHERE id = $1 AND file_id = $2
+         RETURNING *`,
+        [req.params.shareId, file.id]
+      )
+      : null;
+
+    if (!result || result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Link não encontrado' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Link revogado',
+      link: toShareLink(result.rows[0])
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao revogar link:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
@@ -0,0 +1,50 @@
+import { Request, Response, Router } from 'express';
+
+import { STORAGE_REPAIR_ACTIONS, checkStorage } from '../services/storageCheck';
+import { StorageCheckResponse, StorageRepairAction } from '../types';
+
+// Montado em /api/storage, após requireAuth e requireAdmin
+const router = Router();
+
+// Relatório de consistência entre banco e storage, sem alterar nada
+router.get('/check', async (req: Request, res: Response<StorageCheckResponse>) => {
+  try {
+    const report = await checkStorage({ verifyHashes: req.query.verifyHashes === 'true' });
+    res.json({ success: true, report });
+  } catch (error: any) {
+    console.error('Erro ao verificar storage:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+/**
+ * Verifica e aplica as ações pedidas: { actions: ['adopt' | 'markBroken' |
+ * 'fixRefCounts' | 'purge'], dryRun?: boolean, verifyHashes?: boolean }.
+ * Documentos adotados ficam com o admin que pediu o reparo.
+ */
+router.post('/repair', async (req: Request, res: Response<StorageCheckResponse>) => {
+  try {
+    const { actions, dryRun, verifyHashes } = req.body;
+    if (!Array.isArray(actions) || actions.length === 0 ||
+        !actions.every(action => STORAGE_REPAIR_ACTIONS.includes(action))) {
+      return res.status(400).json({
+        success: false,
+        error: `Informe as ações de reparo (${STORAGE_REPAIR_ACTIONS.join(', ')})`
+      });
+    }
+
+    const report = await checkStorage({
+      actions: actions as StorageRepairAction[],
+      dryRun: dryRun === true,
+      verifyHashes: verifyHashes === true,
+      adoptOwnerId: req.user!.id
+    });
+    res.json({ success: true, report });
+
+  } catch (error: any) {
+    console.error('Erro ao reparar storage:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
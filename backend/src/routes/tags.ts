@@ -0,0 +1,130 @@
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { isUuid, toTag } from '../services/organization';
+import { TagResponse, TagsResponse } from '../types';
+
+// Montado em /api/tags, após requireAuth. As tags são de cada usuário.
+const router = Router();
+
+const MAX_TAG_NAME = 50;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const validateName = (name: unknown): string | null => {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  return trimmed && trimmed.length <= MAX_TAG_NAME ? trimmed : null;
+};
+
+const isUniqueViolation = (error: any): boolean => error.code === '23505';
+
+// Listar tags com a quantidade de documentos
+router.get('/', async (req: Request, res: Response<TagsResponse>) => {
+  try {
+    const result = await query(
+      `SELECT t.*, (SELECT COUNT(*) FROM pdf_file_tags ft JOIN pdf_files p ON p.id = ft.file_id
+                    WHERE ft.tag_id = t.id AND p.deleted_at IS NULL) AS file_count
+       FROM tags t WHERE t.owner_id = $1
+       ORDER BY lower(t.name)`,
+      [req.user!.id]
+    );
+
+    res.json({ success: true, tags: result.rows.map(toTag) });
+
+  } catch (error: any) {
+    console.error('Erro ao listar tags:', error);
+    res.status(500).json({ success: false, tags: [], error: 'Erro ao carregar tags' });
+  }
+});
+
+// Criar tag
+router.post('/', async (req: Request, res: Response<TagResponse>) => {
+  try {
+    const name = validateName(req.body.name);
+    const color = req.body.color || null;
+
+    if (!name) {
+      return res.status(400).json({ success: false, error: `Nome da tag é obrigatório (máximo ${MAX_TAG_NAME} caracteres)` });
+    }
+    if (color && !COLOR_PATTERN.test(color)) {
+      return res.status(400).json({ success: false, error: 'Cor inválida (use o formato #rrggbb)' });
+    }
+
+    const result = await query(
+      'INSERT INTO tags (owner_id, name, color) VALUES ($1, $2, $3) RETURNING *',
+      [req.user!.id, name, color]
+    );
+
+    res.status(201).json({ success: true, message: `Tag "${name}" criada`, tag: toTag(result.rows[0]) });
+
+  } catch (error: any) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: 'Já existe uma tag com esse nome' });
+    }
+    console.error('Erro ao criar tag:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Renomear ou mudar a cor
+router.patch('/:id', async (req: Request, res: Response<TagResponse>) => {
+  try {
+    const current = isUuid(req.params.id)
+      ? await query('SELECT * FROM tags WHERE id = $1 AND owner_id = $2', [req.params.id, req.user!.id])
+      : null;
+    const tag = current?.rows[0];
+
+    if (!tag) {
+      return res.status(404).json({ success: false, error: 'Tag não encontrada' });
+    }
+
+    const name = req.body.name === undefined ? tag.name : validateName(req.body.name);
+    const color = req.body.color === undefined ? tag.color : req.body.color || null;
+
+    if (!name) {
+      return res.status(400).json({ success: false, error: `Nome da tag é obrigatório (máximo ${MAX_TAG_NAME} caracteres)` });
+    }
+    if (color && !COLOR_PATTERN.test(color)) {
+      return res.status(400).json({ success: false, error: 'Cor inválida (use o formato #rrggbb)' });
+    }
+
+    const result = await query(
+      'UPDATE tags SET name = $2, color = $3 WHERE id = $1 RETURNING *',
+      [tag.id, name, color]
+    );
+
+    res.json({ success: true, message: 'Tag atualizada', tag: toTag(result.rows[0]) });
+
+  } catch (error: any) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, error: 'Já existe uma tag com esse nome' });
+    }
+    console.error('Erro ao atualizar tag:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Excluir tag (some de todos os documentos)
+router.delete('/:id', async (req: Request, res: Response<TagResponse>) => {
+  try {
+    if (!isUuid(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Tag não encontrada' });
+    }
+
+    const result = await query(
+      'DELETE FROM tags WHERE id = $1 AND owner_id = $2 RETURNING name',
+      [req.params.id, req.user!.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Tag não encontrada' });
+    }
+
+    res.json({ success: true, message: `Tag "${result.rows[0].name}" excluída` });
+
+  } catch (error: any) {
+    console.error('Erro ao excluir tag:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
@@ -0,0 +1,95 @@
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { TRASH_RETENTION_DAYS } from '../config';
+import { scopeOwnerId } from '../middleware/auth';
+import { audit, setAuditTargets } from '../middleware/audit';
+import { FILE_COLUMNS, deletePdfFile, findTrashedFile, toUploadedFile } from '../services/files';
+import { attachTags } from '../services/organization';
+import { DeleteResponse, TrashResponse } from '../types';
+
+// Montado em /api/trash, após requireAuth
+const router = Router();
+
+// Listar documentos na lixeira, os excluídos mais recentemente primeiro
+router.get('/', async (req: Request, res: Response<TrashResponse>) => {
+  try {
+    const pageNum = parseInt(req.query.page as string) || 1;
+    const limitNum = parseInt(req.query.limit as string) || 10;
+    const ownerId = scopeOwnerId(req.user!);
+
+    const result = await query(
+      `SELECT ${FILE_COLUMNS} FROM pdf_files
+       WHERE ($1::uuid IS NULL OR owner_id = $1) AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC
+       LIMIT $2 OFFSET $3`,
+      [ownerId, limitNum, (pageNum - 1) * limitNum]
+    );
+    const countResult = await query(
+      'SELECT COUNT(*) FROM pdf_files WHERE ($1::uuid IS NULL OR owner_id = $1) AND deleted_at IS NOT NULL',
+      [ownerId]
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    res.json({
+      success: true,
+      files: await attachTags(result.rows.map(toUploadedFile)),
+      pagination: { page: pageNum, limit: limitNum, total, totalPages: Math.ceil(total / limitNum) },
+      retentionDays: TRASH_RETENTION_DAYS
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao listar lixeira:', error);
+    res.status(500).json({
+      success: false,
+      files: [],
+      pagination: { page: 1, limit: 10, total: 0, totalPages: 0 },
+      retentionDays: TRASH_RETENTION_DAYS,
+      error: 'Erro ao carregar lixeira'
+    });
+  }
+});
+
+// Esvaziar a lixeira
+router.delete('/', audit('purge'), async (req: Request, res: Response<DeleteResponse>) => {
+  try {
+    const result = await query(
+      'SELECT id, custom_name FROM pdf_files WHERE ($1::uuid IS NULL OR owner_id = $1) AND deleted_at IS NOT NULL',
+      [scopeOwnerId(req.user!)]
+    );
+    setAuditTargets(res, result.rows.map(file => ({ id: file.id, name: file.custom_name })));
+
+    for (const file of result.rows) {
+      await deletePdfFile(file);
+    }
+
+    res.json({ success: true, message: `${result.rows.length} arquivo(s) removido(s) definitivamente` });
+
+  } catch (error: any) {
+    console.error('Erro ao esvaziar lixeira:', error);
+    res.status(500).json({ success: false, message: '', error: 'Erro ao esvaziar lixeira' });
+  }
+});
+
+// Remover definitivamente um documento da lixeira
+router.delete('/:id', audit('purge'), async (req: Request, res: Response<DeleteResponse>) => {
+  try {
+    const file = await findTrashedFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, message: '', error: 'Arquivo não encontrado na lixeira' });
+    }
+
+    // O nome é gravado agora, pois o documento deixa de existir
+    setAuditTargets(res, [{ id: file.id, name: file.custom_name }]);
+    await deletePdfFile(file);
+
+    res.json({ success: true, message: 'Arquivo removido definitivamente' });
+
+  } catch (error: any) {
+    console.error('Erro ao remover da lixeira:', error);
+    res.status(500).json({ success: false, message: '', error: 'Erro ao remover arquivo' });
+  }
+});
+
+export default router;
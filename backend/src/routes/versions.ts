@@ -0,0 +1,191 @@
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { upload, handleUploadError } from '../middleware/upload';
+import { scopeOwnerId } from '../middleware/auth';
+import { audit, setAuditTargets } from '../middleware/audit';
+import {
+  addPdfFileVersion,
+  findAccessibleFile,
+  promotePdfFileVersion,
+  removeTempFile,
+  toFileVersion
+} from '../services/files';
+import { requestedInline, sendStoredFile } from '../services/download';
+import { isUuid } from '../services/organization';
+import { screenUpload } from '../services/quarantine';
+import { QuotaExceededError, checkQuota } from '../services/quotas';
+import { UploadResponse, UploadedFile, VersionsResponse } from '../types';
+
+// Montado em /api/files/:id/versions, após requireAuth
+const router = Router({ mergeParams: true });
+
+const MAX_VERSION_NUMBER = 2147483647;
+
+// Número da versão na URL: só dígitos e dentro de INTEGER; senão null (404)
+const parseVersionNumber = (value: string): number | null => {
+  if (!/^\d+$/.test(value)) return null;
+  const version = Number(value);
+  return version >= 1 && version <= MAX_VERSION_NUMBER ? version : null;
+};
+
+// Listar versões
+router.get('/', async (req: Request, res: Response<VersionsResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, versions: [], error: 'Arquivo não encontrado' });
+    }
+
+    const result = await query(
+      'SELECT * FROM pdf_file_versions WHERE file_id = $1 ORDER BY version_number DESC',
+      [file.id]
+    );
+
+    res.json({
+      success: true,
+      versions: result.rows.map(version => toFileVersion(version, file.current_version))
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao listar versões:', error);
+    res.status(500).json({ success: false, versions: [], error: 'Erro ao carregar versões' });
+  }
+});
+
+// Enviar nova versão
+router.post('/', audit('version.upload'), upload.single('pdfFile'), handleUploadError, async (req: Request, res: Response<UploadResponse>) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ success: false, message: '', files: [], error: 'Nenhum arquivo selecionado' });
+    }
+
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      removeTempFile(req.file.path);
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Arquivo não encontrado' });
+    }
+
+    // A nova versão conta na cota do dono do documento (conferida de novo ao gravar)
+    const quotaError = await checkQuota(file.owner_id, { files: 0, bytes: req.file.size });
+    if (quotaError) {
+      removeTempFile(req.file.path);
+      return res.status(413).json({ success: false, message: '', files: [], error: quotaError });
+    }
+
+    const rejection = await screenUpload({
+      originalName: req.file.originalname,
+      fileName: req.file.filename,
+      filePath: req.file.path,
+      fileSize: req.file.size
+    }, req.user!.id);
+
+    if (rejection) {
+      return res.status(422).json({
+        success: false,
+        message: '',
+        files: [],
+        rejected: [rejection],
+        error: `Arquivo rejeitado: ${rejection.reason}`
+      });
+    }
+
+    let updated: UploadedFile | null;
+    try {
+      updated = await addPdfFileVersion(file.id, {
+        originalName: req.file.originalname,
+        fileName: req.file.filename,
+        filePath: req.file.path,
+        fileSize: req.file.size,
+        mimeType: req.file.mimetype
+      }, { enforceQuota: true });
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) throw error;
+      return res.status(413).json({ success: false, message: '', files: [], error: error.message });
+    }
+
+    if (!updated) {
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Arquivo não encontrado' });
+    }
+
+    setAuditTargets(res, [{ id: file.id, details: { version: updated.version } }]);
+    res.json({
+      success: true,
+      message: `Versão ${updated.version} enviada com sucesso!`,
+      files: [updated]
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao enviar versão:', error);
+    if (req.file) removeTempFile(req.file.path);
+    res.status(500).json({ success: false, message: '', files: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Download de uma versão específica
+router.get('/:version/download', audit('version.download'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const version = parseVersionNumber(req.params.version);
+    if (!isUuid(id) || version === null) {
+      return res.status(404).json({ success: false, error: 'Versão não encontrada' });
+    }
+
+    const result = await query(
+      `SELECT v.file_path, v.version_number, f.custom_name
+       FROM pdf_file_versions v JOIN pdf_files f ON f.id = v.file_id
+       WHERE v.file_id = $1 AND v.version_number = $2 AND ($3::uuid IS NULL OR f.owner_id = $3)
+         AND f.deleted_at IS NULL`,
+      [id, version, scopeOwnerId(req.user!)]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Versão não encontrada' });
+    }
+
+    const file = result.rows[0];
+    setAuditTargets(res, [{ id, details: { version: file.version_number } }]);
+    const downloadName = `${file.custom_name} (v${file.version_number}).pdf`;
+
+    if (!(await sendStoredFile(res, file.file_path, downloadName, { inline: requestedInline(req) }))) {
+      return res.status(404).json({ success: false, error: 'Arquivo físico não encontrado' });
+    }
+
+  } catch (error: any) {
+    console.error('Erro no download da versão:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Restaurar uma versão como atual
+router.post('/:version/promote', audit('version.promote'), async (req: Request, res: Response<UploadResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Arquivo não encontrado' });
+    }
+
+    const versionNumber = parseVersionNumber(req.params.version);
+    const updated = versionNumber === null ? null : await promotePdfFileVersion(file.id, versionNumber);
+
+    if (!updated) {
+      return res.status(404).json({ success: false, message: '', files: [], error: 'Versão não encontrada' });
+    }
+
+    setAuditTargets(res, [{ id: file.id, details: { version: versionNumber } }]);
+    res.json({
+      success: true,
+      message: `Versão ${versionNumber} restaurada como atual`,
+      files: [updated]
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao restaurar versão:', error);
+    res.status(500).json({ success: false, message: '', files: [], error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
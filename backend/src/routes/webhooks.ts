@@ -0,0 +1,315 @@
+import { Request, Response, Router } from 'express';
+
+import { query } from '../database/config';
+import { WEBHOOK_ALLOW_PRIVATE_NETWORKS } from '../config';
+import { scopeOwnerId } from '../middleware/auth';
+import { isUuid } from '../services/organization';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  queueWebhookPing,
+  redeliverWebhook,
+  toWebhookDelivery,
+  toWebhookSubscription
+} from '../services/webhooks';
+import { PrivateAddressError, assertPublicUrl } from '../utils/publicAddress';
+import {
+  WebhookDeliveriesResponse,
+  WebhookDeliveryResponse,
+  WebhookEvent,
+  WebhookSubscriptionResponse,
+  WebhookSubscriptionsResponse
+} from '../types';
+
+// Montado em /api/webhooks, após requireAuth
+const router = Router();
+
+const MAX_DESCRIPTION_LENGTH = 255;
+
+const parseUrl = (input: unknown): string | null => {
+  if (typeof input !== 'string' || input.length > 2000) return null;
+  try {
+    const url = new URL(input);
+    return ['http:', 'https:'].includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Mensagem de erro se a URL não puder receber webhooks (host interno ou inexistente)
+const checkDestination = async (url: string): Promise<string | null> => {
+  if (WEBHOOK_ALLOW_PRIVATE_NETWORKS) return null;
+  try {
+    await assertPublicUrl(url);
+    return null;
+  } catch (error: any) {
+    return error instanceof PrivateAddressError
+      ? 'A URL aponta para um endereço interno'
+      : 'Não foi possível resolver o host da URL';
+  }
+};
+
+const parseEvents = (input: unknown): WebhookEvent[] | null => {
+  if (!Array.isArray(input) || input.length === 0) return null;
+  if (input.some(event => !WEBHOOK_EVENTS.includes(event))) return null;
+  return [...new Set(input as WebhookEvent[])];
+};
+
+const parseDescription = (input: unknown): string | null | undefined => {
+  if (input === undefined || input === null || input === '') return null;
+  if (typeof input !== 'string' || input.trim().length > MAX_DESCRIPTION_LENGTH) return undefined;
+  return input.trim();
+};
+
+// Assinatura do usuário (admins acessam todas)
+const findSubscription = async (req: Request) => {
+  if (!isUuid(req.params.id)) return null;
+  const result = await query(
+    'SELECT * FROM webhook_subscriptions WHERE id = $1 AND ($2::uuid IS NULL OR owner_id = $2)',
+    [req.params.id, scopeOwnerId(req.user!)]
+  );
+  return result.rows[0] || null;
+};
+
+// Listar assinaturas
+router.get('/', async (req: Request, res: Response<WebhookSubscriptionsResponse>) => {
+  try {
+    const result = await query(
+      'SELECT * FROM webhook_subscriptions WHERE ($1::uuid IS NULL OR owner_id = $1) ORDER BY created_at',
+      [scopeOwnerId(req.user!)]
+    );
+    res.json({ success: true, subscriptions: result.rows.map(toWebhookSubscription) });
+
+  } catch (error: any) {
+    console.error('Erro ao listar webhooks:', error);
+    res.status(500).json({ success: false, subscriptions: [], error: 'Erro interno no servidor' });
+  }
+});
+
+// Criar assinatura; o segredo para validar as assinaturas HMAC só é exibido aqui
+router.post('/', async (req: Request, res: Response<WebhookSubscriptionResponse>) => {
+  try {
+    const url = parseUrl(req.body.url);
+    const events = parseEvents(req.body.events);
+    const description = parseDescription(req.body.description);
+
+    if (!url) {
+      return res.status(400).json({ success: false, error: 'URL inválida (use http ou https)' });
+    }
+    if (!events) {
+      return res.status(400).json({ success: false, error: `Eventos inválidos (use ${WEBHOOK_EVENTS.join(', ')})` });
+    }
+    if (description === undefined) {
+      return res.status(400).json({ success: false, error: 'Descrição inválida' });
+    }
+    if (req.body.active !== undefined && typeof req.body.active !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'O campo active deve ser verdadeiro ou falso' });
+    }
+    const destinationError = await checkDestination(url);
+    if (destinationError) {
+      return res.status(400).json({ success: false, error: destinationError });
+    }
+
+    const secret = generateWebhookSecret();
+    const result = await query(
+      `INSERT INTO webhook_subscriptions (owner_id, url, secret, events, description, active)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [req.user!.id, url, secret, events, description, req.body.active ?? true]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Webhook criado. Guarde o segredo: ele não será exibido novamente',
+      subscription: { ...toWebhookSubscription(result.rows[0]), secret }
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao criar webhook:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Detalhes da assinatura
+router.get('/:id', async (req: Request, res: Response<WebhookSubscriptionResponse>) => {
+  try {
+    const subscription = await findSubscription(req);
+
+    if (!subscription) {
+      return res.status(404).json({ success: false, error: 'Webhook não encontrado' });
+    }
+
+    res.json({ success: true, subscription: toWebhookSubscription(subscription) });
+
+  } catch (error: any) {
+    console.error('Erro ao buscar webhook:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Alterar URL, eventos, descrição ou ativação; rotateSecret gera um novo segredo
+router.patch('/:id', async (req: Request, res: Response<WebhookSubscriptionResponse>) => {
+  try {
+    const subscription = await findSubscription(req);
+
+    if (!subscription) {
+      return res.status(404).json({ success: false, error: 'Webhook não encontrado' });
+    }
+
+    const url = req.body.url !== undefined ? parseUrl(req.body.url) : subscription.url;
+    const events = req.body.events !== undefined ? parseEvents(req.body.events) : subscription.events;
+    const description = req.body.description !== undefined ? parseDescription(req.body.description) : subscription.description;
+    const active = req.body.active !== undefined ? req.body.active : subscription.active;
+
+    if (!url) {
+      return res.status(400).json({ success: false, error: 'URL inválida (use http ou https)' });
+    }
+    if (!events) {
+      return res.status(400).json({ success: false, error: `Eventos inválidos (use ${WEBHOOK_EVENTS.join(', ')})` });
+    }
+    if (description === undefined) {
+      return res.status(400).json({ success: false, error: 'Descrição inválida' });
+    }
+    if (typeof active !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'O campo active deve ser verdadeiro ou falso' });
+    }
+    const destinationError = url !== subscription.url ? await checkDestination(url) : null;
+    if (destinationError) {
+      return res.status(400).json({ success: false, error: destinationError });
+    }
+
+    const secret = req.body.rotateSecret === true ? generateWebhookSecret() : subscription.secret;
+    const result = await query(
+      `UPDATE webhook_subscriptions
+       SET url = $2, events = $3, description = $4, active = $5, secret = $6, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 RETURNING *`,
+      [subscription.id, url, events, description, active, secret]
+    );
+
+    res.json({
+      success: true,
+      message: 'Webhook atualizado',
+      subscription: {
+        ...toWebhookSubscription(result.rows[0]),
+        ...(req.body.rotateSecret === true && { secret })
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao atualizar webhook:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Excluir assinatura (e o histórico de entregas)
+router.delete('/:id', async (req: Request, res: Response<WebhookSubscriptionResponse>) => {
+  try {
+    const subscription = await findSubscription(req);
+
+    if (!subscription) {
+      return res.status(404).json({ success: false, error: 'Webhook não encontrado' });
+    }
+
+    await query('DELETE FROM webhook_subscriptions WHERE id = $1', [subscription.id]);
+
+    res.json({ success: true, message: 'Webhook excluído' });
+
+  } catch (error: any) {
+    console.error('Erro ao excluir webhook:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Enviar um evento de teste
+router.post('/:id/ping', async (req: Request, res: Response<WebhookDeliveryResponse>) => {
+  try {
+    const subscription = await findSubscription(req);
+
+    if (!subscription) {
+      return res.status(404).json({ success: false, error: 'Webhook não encontrado' });
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Evento de teste enfileirado',
+      delivery: await queueWebhookPing(subscription.id)
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao enviar ping:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Log de entregas, das mais recentes para as mais antigas (status=pending|succeeded|failed filtra)
+router.get('/:id/deliveries', async (req: Request, res: Response<WebhookDeliveriesResponse>) => {
+  const pageNum = parseInt(req.query.page as string) || 1;
+  const limitNum = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const status = req.query.status || null;
+
+  try {
+    const subscription = await findSubscription(req);
+
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        deliveries: [],
+        pagination: { page: pageNum, limit: limitNum, total: 0, totalPages: 0 },
+        error: 'Webhook não encontrado'
+      });
+    }
+
+    const result = await query(
+      `SELECT * FROM webhook_deliveries
+       WHERE subscription_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC
+       LIMIT $3 OFFSET $4`,
+      [subscription.id, status, limitNum, (pageNum - 1) * limitNum]
+    );
+    const countResult = await query(
+      'SELECT COUNT(*) FROM webhook_deliveries WHERE subscription_id = $1 AND ($2::text IS NULL OR status = $2)',
+      [subscription.id, status]
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    res.json({
+      success: true,
+      deliveries: result.rows.map(toWebhookDelivery),
+      pagination: { page: pageNum, limit: limitNum, total, totalPages: Math.ceil(total / limitNum) }
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao listar entregas:', error);
+    res.status(500).json({
+      success: false,
+      deliveries: [],
+      pagination: { page: pageNum, limit: limitNum, total: 0, totalPages: 0 },
+      error: 'Erro interno no servidor'
+    });
+  }
+});
+
+// Reenviar uma entrega (cria uma nova, com o mesmo conteúdo)
+router.post('/:id/deliveries/:deliveryId/redeliver', async (req: Request, res: Response<WebhookDeliveryResponse>) => {
+  try {
+    const subscription = await findSubscription(req);
+    const result = subscription && isUuid(req.params.deliveryId)
+      ? await query('SELECT * FROM webhook_deliveries WHERE id = $1 AND subscription_id = $2', [req.params.deliveryId, subscription.id])
+      : null;
+
+    if (!result || result.rows.length === 0) {
+      return res.status(404).json({ success: false, error: 'Entrega não encontrada' });
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Entrega reenfileirada',
+      delivery: await redeliverWebhook(result.rows[0])
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao reenviar entrega:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+export default router;
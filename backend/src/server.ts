@@ -1,97 +1,101 @@
-import express, { Request, Response, NextFunction } from 'express';
-import multer, { FileFilterCallback } from 'multer';
-import path from 'path';
+import express, { Request, Response } from 'express';
 import fs from 'fs';
 import cors from 'cors';
-import { v4 as uuidv4 } from 'uuid';
+import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 
 import { query } from './database/config';
+import { assertMigrationsApplied } from './database/migrations';
+import { MAX_FILES_PER_UPLOAD, PORT, TMP_DIR } from './config';
+import { storage } from './storage';
+import {
+  FILE_COLUMNS,
+  NewPdfFile,
+  createPdfFiles,
+  findAccessibleFile,
+  findTrashedFile,
+  removeTempFile,
+  toUploadedFile
+} from './services/files';
+import { moveToTrash, restoreFromTrash, startTrashPurgeJob } from './services/trash';
+import { startWebhookWorker } from './services/webhooks';
+import { startUploadSessionCleanupJob } from './services/resumableUploads';
+import { QuotaExceededError, checkQuota, getGlobalUsage, getOwnerUsage } from './services/quotas';
+import { getAnalytics, parseAnalyticsRange } from './services/analytics';
+import { screenUpload } from './services/quarantine';
+import { requestedInline, sendStoredFile } from './services/download';
+import { buildFileFilters } from './services/fileFilters';
+import { cursorCondition, encodeCursor, orderBy, parseFileListing, sortExpression } from './services/fileListing';
+import { attachTags, findOwnedFolder, parseTagNames } from './services/organization';
+import { upload, handleUploadError, rejectWhenQuotaFull } from './middleware/upload';
+import { isAdmin, requireAdmin, requireAuth, scopeOwnerId } from './middleware/auth';
+import { audit, setAuditTargets } from './middleware/audit';
+import { formatFileSize } from './utils/format';
+import authRouter from './routes/auth';
+import resumableUploadsRouter from './routes/resumableUploads';
+import versionsRouter from './routes/versions';
+import shareLinksRouter from './routes/shareLinks';
+import publicSharesRouter from './routes/publicShares';
+import previewsRouter from './routes/previews';
+import foldersRouter from './routes/folders';
+import tagsRouter from './routes/tags';
+import fileOrganizationRouter from './routes/fileOrganization';
+import trashRouter from './routes/trash';
+import quarantineRouter from './routes/quarantine';
+import bulkFilesRouter from './routes/bulkFiles';
+import auditRouter from './routes/audit';
+import webhooksRouter from './routes/webhooks';
+import pdfToolsRouter from './routes/pdfTools';
+import quotasRouter from './routes/quotas';
+import storageRouter from './routes/storage';
 import { 
   UploadResponse, 
   FilesResponse, 
   StatsResponse, 
   DeleteResponse,
   HealthResponse,
-  UploadedFile 
+  UploadedFile,
+  FileResponse,
+  RejectedFile
 } from './types';
 
 dotenv.config();
 
 const app = express();
-const PORT = process.env.PORT || 5000;
-const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
-const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '10485760');
 
 // Middleware
 app.use(cors({
   origin: process.env.CLIENT_URL || 'http://localhost:3000',
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['X-Page-Count']
 }));
 app.use(express.json());
-app.use('/uploads', express.static(path.join(__dirname, '..', 'uploads')));
+app.use(cookieParser());
 
-// Criar diretório de uploads
-if (!fs.existsSync(UPLOAD_DIR)) {
-  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+// Criar diretório temporário dos uploads
+if (!fs.existsSync(TMP_DIR)) {
+  fs.mkdirSync(TMP_DIR, { recursive: true });
 }
 
-// Configuração do Multer
-const storage = multer.diskStorage({
-  destination: (req: Request, file: Express.Multer.File, cb: (error: Error | null, destination: string) => void) => {
-    cb(null, UPLOAD_DIR);
-  },
-  filename: (req: Request, file: Express.Multer.File, cb: (error: Error | null, filename: string) => void) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const safeName = file.originalname.replace(/\s+/g, '_');
-    cb(null, 'pdf-' + uniqueSuffix + '-' + safeName);
-  }
-});
-
-const fileFilter = (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
-  const allowedMimes = ['application/pdf', 'application/x-pdf'];
-  if (allowedMimes.includes(file.mimetype)) {
-    cb(null, true);
-  } else {
-    cb(new Error('Apenas arquivos PDF são permitidos!'));
-  }
-};
-
-const upload = multer({
-  storage,
-  fileFilter,
-  limits: { fileSize: MAX_FILE_SIZE }
-});
-
-// Middleware de erro
-const handleUploadError = (error: Error, req: Request, res: Response, next: NextFunction) => {
-  if (error instanceof multer.MulterError) {
-    if (error.code === 'LIMIT_FILE_SIZE') {
-      const response: UploadResponse = {
-        success: false,
-        message: '',
-        files: [],
-        error: 'Arquivo muito grande. Máximo 10MB permitido.'
-      };
-      return res.status(400).json(response);
-    }
-  }
-  const response: UploadResponse = {
-    success: false,
-    message: '',
-    files: [],
-    error: error.message
-  };
-  res.status(400).json(response);
-};
-
-// Função utilitária
-const formatFileSize = (bytes: number): string => {
-  if (bytes === 0) return '0 Bytes';
-  const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+// Marcadores usados pelo ts_headline, convertidos em <mark> após escapar o HTML
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ` +
+  'MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "';
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatSnippet = (headline: string | null): string | undefined => {
+  if (!headline || !headline.includes(HIGHLIGHT_START)) return undefined;
+  return escapeHtml(headline)
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_STOP).join('</mark>');
 };
 
 // Rotas da API
@@ -104,8 +108,53 @@ app.get('/api/health', (req: Request, res: Response<HealthResponse>) => {
   res.json(response);
 });
 
+// Autenticação
+app.use('/api/auth', authRouter);
+
+// Upload retomável em partes
+app.use('/api/uploads', requireAuth, resumableUploadsRouter);
+
+// Versões de um documento
+app.use('/api/files/:id/versions', requireAuth, versionsRouter);
+
+// Links de compartilhamento (gestão pelo dono e download público)
+app.use('/api/files/:id/shares', requireAuth, shareLinksRouter);
+app.use('/s', publicSharesRouter);
+
+// Miniaturas e páginas renderizadas
+app.use('/api/files/:id', previewsRouter);
+
+// Pastas e tags
+app.use('/api/folders', requireAuth, foldersRouter);
+app.use('/api/tags', requireAuth, tagsRouter);
+app.use('/api/files/:id', fileOrganizationRouter);
+
+// Operações em lote e download em ZIP
+app.use('/api/files', bulkFilesRouter);
+
+// Juntar, dividir, extrair e girar páginas
+app.use('/api/files', pdfToolsRouter);
+
+// Lixeira
+app.use('/api/trash', requireAuth, trashRouter);
+
+// Uploads reprovados na validação
+app.use('/api/quarantine', requireAuth, quarantineRouter);
+
+// Log de auditoria
+app.use('/api/audit', requireAuth, auditRouter);
+
+// Webhooks de eventos dos documentos
+app.use('/api/webhooks', requireAuth, webhooksRouter);
+
+// Cotas de armazenamento por usuário (admin)
+app.use('/api/quotas', requireAuth, requireAdmin, quotasRouter);
+
+// Verificação e reparo da consistência entre banco e storage (admin)
+app.use('/api/storage', requireAuth, requireAdmin, storageRouter);
+
 // Upload de arquivos
-app.post('/api/upload', upload.array('pdfFiles', 10), handleUploadError, async (req: Request, res: Response<UploadResponse>) => {
+app.post('/api/upload', requireAuth, audit('upload'), rejectWhenQuotaFull, upload.array('pdfFiles', MAX_FILES_PER_UPLOAD), handleUploadError, async (req: Request, res: Response<UploadResponse>) => {
   try {
     if (!req.files || (req.files as Express.Multer.File[]).length === 0) {
       const response: UploadResponse = {
@@ -118,7 +167,7 @@ app.post('/api/upload', upload.array('pdfFiles', 10), handleUploadError, async (
     }
 
     const files = req.files as Express.Multer.File[];
-    const { customNames } = req.body;
+    const { customNames, folderId } = req.body;
     let customNamesArray: string[] = [];
 
     try {
@@ -133,36 +182,99 @@ app.post('/api/upload', upload.array('pdfFiles', 10), handleUploadError, async (
       return res.status(400).json(response);
     }
 
-    const results: UploadedFile[] = [];
+    // Pasta e tags valem para todos os arquivos do envio
+    const tags = parseTagNames(req.body.tags);
+    const folder = folderId ? await findOwnedFolder(req.user!.id, folderId) : null;
+    if (!tags || (folderId && !folder)) {
+      files.forEach(file => removeTempFile(file.path));
+      const response: UploadResponse = {
+        success: false,
+        message: '',
+        files: [],
+        error: !tags ? 'Lista de tags inválida' : 'Pasta não encontrada'
+      };
+      return res.status(400).json(response);
+    }
+
+    // O envio entra inteiro ou nada entra. Aqui só recusa cedo; a conferência que vale é a de createPdfFiles
+    const quotaError = await checkQuota(req.user!.id, {
+      files: files.length,
+      bytes: files.reduce((total, file) => total + file.size, 0)
+    });
+    if (quotaError) {
+      files.forEach(file => removeTempFile(file.path));
+      const response: UploadResponse = { success: false, message: '', files: [], error: quotaError };
+      return res.status(413).json(response);
+    }
+
+    const accepted: NewPdfFile[] = [];
+    const rejected: RejectedFile[] = [];
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
       const customName = customNamesArray[i] || file.originalname.replace('.pdf', '');
-      const fileId = uuidv4();
-
-      const result = await query(
-        `INSERT INTO pdf_files 
-         (id, custom_name, original_name, file_name, file_path, file_size, mime_type) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7) 
-         RETURNING *`,
-        [fileId, customName, file.originalname, file.filename, file.path, file.size, file.mimetype]
-      );
-
-      results.push({
-        id: fileId,
+
+      // O mimetype vem do cliente; o conteúdo é conferido antes de entrar na biblioteca
+      const rejection = await screenUpload({
+        originalName: file.originalname,
+        fileName: file.filename,
+        filePath: file.path,
+        fileSize: file.size
+      }, req.user!.id);
+      if (rejection) {
+        rejected.push(rejection);
+        continue;
+      }
+
+      accepted.push({
         customName,
         originalName: file.originalname,
         fileName: file.filename,
-        fileSize: formatFileSize(file.size),
-        uploadDate: new Date().toLocaleString('pt-BR'),
-        downloadUrl: `/api/download/${fileId}`
+        filePath: file.path,
+        fileSize: file.size,
+        mimeType: file.mimetype,
+        ownerId: req.user!.id,
+        folderId: folder?.id,
+        tags
       });
     }
 
+    let results: UploadedFile[] = [];
+    try {
+      results = await createPdfFiles(accepted, { enforceQuota: true });
+    } catch (error) {
+      // Outro envio ocupou a cota desde a conferência acima
+      if (!(error instanceof QuotaExceededError)) throw error;
+      const response: UploadResponse = { success: false, message: '', files: [], rejected, error: error.message };
+      return res.status(413).json(response);
+    }
+
+    // Os rejeitados também entram na auditoria, sem documento
+    setAuditTargets(res, [
+      ...results.map(file => ({ id: file.id, name: file.customName, ...(file.duplicate && { details: { duplicate: true } }) })),
+      ...rejected.map(file => ({ id: null, name: file.originalName, result: 'failure' as const, details: { quarantineId: file.quarantineId, reason: file.reason } }))
+    ]);
+
+    if (results.length === 0) {
+      const response: UploadResponse = {
+        success: false,
+        message: '',
+        files: [],
+        rejected,
+        error: 'Nenhum arquivo aceito: ' + rejected.map(file => `${file.originalName} (${file.reason})`).join('; ')
+      };
+      return res.status(422).json(response);
+    }
+
+    const duplicates = results.filter(file => file.duplicate).length;
     const response: UploadResponse = {
       success: true,
-      message: `${results.length} arquivo(s) upload realizado com sucesso!`,
-      files: results
+      message: `${results.length} arquivo(s) upload realizado com sucesso!` +
+        (duplicates > 0 ? ` ${duplicates} já existia(m) e não ocupa(m) espaço extra.` : '') +
+        (rejected.length > 0 ? ` ${rejected.length} rejeitado(s) e enviado(s) para a quarentena.` : ''),
+      files: results,
+      duplicates,
+      rejected
     };
     res.json(response);
 
@@ -179,52 +291,84 @@ app.post('/api/upload', upload.array('pdfFiles', 10), handleUploadError, async (
 });
 
 // Listar arquivos
-app.get('/api/files', async (req: Request, res: Response<FilesResponse>) => {
+app.get('/api/files', requireAuth, async (req: Request, res: Response<FilesResponse>) => {
   try {
-    const { search, page = '1', limit = '10' } = req.query;
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const offset = (pageNum - 1) * limitNum;
+    const { search } = req.query;
+    const listing = parseFileListing(req.query, Boolean(search));
+    if ('error' in listing) {
+      return res.status(400).json({
+        success: false,
+        files: [],
+        pagination: { page: 1, limit: 0, total: 0, totalPages: 0, nextCursor: null },
+        error: listing.error
+      });
+    }
 
-    let whereClause = '';
-    let queryParams: any[] = [limitNum, offset];
+    const params: unknown[] = [];
+    const conditions = buildFileFilters(req.query, req.user!, params);
 
+    let termParam: string | undefined;
     if (search) {
-      whereClause = `WHERE custom_name ILIKE $3 OR original_name ILIKE $3`;
-      queryParams.push(`%${search}%`);
+      // Busca no conteúdo (ranqueada por relevância) e também pelos nomes
+      params.push(search as string, `%${search}%`);
+      termParam = `$${params.length - 1}`;
+      const like = `$${params.length}`;
+      conditions.push(`(search_vector @@ websearch_to_tsquery('portuguese', ${termParam})
+        OR custom_name ILIKE ${like} OR original_name ILIKE ${like})`);
     }
 
-    const result = await query(
-      `SELECT * FROM pdf_files 
-       ${whereClause} 
-       ORDER BY upload_date DESC 
-       LIMIT $1 OFFSET $2`,
-      queryParams
-    );
-
     const countResult = await query(
-      `SELECT COUNT(*) FROM pdf_files ${whereClause}`,
-      search ? [`%${search}%`] : []
+      `SELECT COUNT(*) FROM pdf_files WHERE ${conditions.join(' AND ')}`,
+      params
     );
 
-    const files: UploadedFile[] = result.rows.map(file => ({
-      id: file.id,
-      customName: file.custom_name,
-      originalName: file.original_name,
-      fileName: file.file_name,
-      fileSize: formatFileSize(file.file_size),
-      uploadDate: new Date(file.upload_date).toLocaleString('pt-BR'),
-      downloadUrl: `/api/download/${file.id}`
-    }));
-
+    // Com cursor, a página começa depois do último item entregue, sem OFFSET
+    const sort = sortExpression(listing.sort, termParam);
+    if (listing.cursor) {
+      conditions.push(cursorCondition(sort, listing, params));
+    }
+    const offset = listing.cursor ? 0 : (listing.page - 1) * listing.limit;
+    const n = params.length;
+
+    // Um item a mais indica se há próxima página
+    const page = `SELECT ${FILE_COLUMNS}, (${sort.expression})::text AS sort_key, ${sort.expression} AS sort_value
+       FROM pdf_files
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${orderBy(sort.expression, listing)}
+       LIMIT $${n + 1} OFFSET $${n + 2}`;
+
+    const result = search
+      ? await query(
+        // O trecho destacado só é gerado para os itens da página
+        `SELECT paged.*, ts_headline('portuguese', coalesce(f.content_text, ''),
+           websearch_to_tsquery('portuguese', ${termParam}), $${n + 3}) AS snippet
+         FROM (${page}) paged JOIN pdf_files f ON f.id = paged.id
+         ORDER BY ${orderBy('paged.sort_value', listing, 'paged.id')}`,
+        [...params, listing.limit + 1, offset, HEADLINE_OPTIONS]
+      )
+      : await query(page, [...params, listing.limit + 1, offset]);
+
+    const rows = result.rows.slice(0, listing.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor = result.rows.length > listing.limit
+      ? encodeCursor({ sort: listing.sort, direction: listing.direction, value: last.sort_key, id: last.id })
+      : null;
+
+    const files: UploadedFile[] = await attachTags(rows.map(file => ({
+      ...toUploadedFile(file),
+      snippet: formatSnippet(file.snippet)
+    })));
+
+    const total = parseInt(countResult.rows[0].count);
     const response: FilesResponse = {
       success: true,
       files,
       pagination: {
-        page: pageNum,
-        limit: limitNum,
-        total: parseInt(countResult.rows[0].count),
-        totalPages: Math.ceil(parseInt(countResult.rows[0].count) / limitNum)
+        page: listing.page,
+        limit: listing.limit,
+        total,
+        totalPages: Math.ceil(total / listing.limit),
+        nextCursor
       }
     };
     res.json(response);
@@ -234,53 +378,57 @@ app.get('/api/files', async (req: Request, res: Response<FilesResponse>) => {
     const response: FilesResponse = {
       success: false,
       files: [],
-      pagination: { page: 1, limit: 10, total: 0, totalPages: 0 },
+      pagination: { page: 1, limit: 10, total: 0, totalPages: 0, nextCursor: null },
       error: 'Erro ao carregar arquivos'
     };
     res.status(500).json(response);
   }
 });
 
-// Download de arquivo
-app.get('/api/download/:id', async (req: Request, res: Response) => {
+// Download de arquivo (?disposition=inline para abrir no navegador)
+app.get('/api/download/:id', requireAuth, audit('download'), async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const file = await findAccessibleFile(req.user!, req.params.id);
 
-    const result = await query(
-      'SELECT * FROM pdf_files WHERE id = $1',
-      [id]
-    );
-
-    if (result.rows.length === 0) {
+    if (!file) {
       return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
     }
 
-    const file = result.rows[0];
-    const filePath = path.join(__dirname, '..', file.file_path);
-
-    if (!fs.existsSync(filePath)) {
+    if (!(await sendStoredFile(res, file.file_path, `${file.custom_name}.pdf`, { inline: requestedInline(req) }))) {
       return res.status(404).json({ success: false, error: 'Arquivo físico não encontrado' });
     }
 
-    res.download(filePath, `${file.custom_name}.pdf`);
-
   } catch (error: any) {
     console.error('Erro no download:', error);
     res.status(500).json({ success: false, error: 'Erro interno no servidor' });
   }
 });
 
-// Deletar arquivo
-app.delete('/api/files/:id', async (req: Request, res: Response<DeleteResponse>) => {
+// Visualização no navegador
+app.get('/api/view/:id', requireAuth, audit('view'), async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const file = await findAccessibleFile(req.user!, req.params.id);
 
-    const result = await query(
-      'SELECT * FROM pdf_files WHERE id = $1',
-      [id]
-    );
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado' });
+    }
 
-    if (result.rows.length === 0) {
+    if (!(await sendStoredFile(res, file.file_path, `${file.custom_name}.pdf`, { inline: true }))) {
+      return res.status(404).json({ success: false, error: 'Arquivo físico não encontrado' });
+    }
+
+  } catch (error: any) {
+    console.error('Erro na visualização:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
+// Deletar arquivo (vai para a lixeira)
+app.delete('/api/files/:id', requireAuth, audit('delete'), async (req: Request, res: Response<DeleteResponse>) => {
+  try {
+    const file = await findAccessibleFile(req.user!, req.params.id);
+
+    if (!file) {
       const response: DeleteResponse = {
         success: false,
         message: '',
@@ -289,17 +437,11 @@ app.delete('/api/files/:id', async (req: Request, res: Response<DeleteResponse>)
       return res.status(404).json(response);
     }
 
-    const file = result.rows[0];
-
-    await query('DELETE FROM pdf_files WHERE id = $1', [id]);
-
-    if (fs.existsSync(file.file_path)) {
-      fs.unlinkSync(file.file_path);
-    }
+    await moveToTrash(file.id);
 
     const response: DeleteResponse = {
       success: true,
-      message: 'Arquivo deletado com sucesso'
+      message: 'Arquivo movido para a lixeira'
     };
     res.json(response);
 
@@ -314,13 +456,60 @@ app.delete('/api/files/:id', async (req: Request, res: Response<DeleteResponse>)
   }
 });
 
+// Restaurar arquivo da lixeira
+app.post('/api/files/:id/restore', requireAuth, audit('restore'), async (req: Request, res: Response<FileResponse>) => {
+  try {
+    const file = await findTrashedFile(req.user!, req.params.id);
+
+    if (!file) {
+      return res.status(404).json({ success: false, error: 'Arquivo não encontrado na lixeira' });
+    }
+
+    await restoreFromTrash(file.id);
+
+    const restored = await query(`SELECT ${FILE_COLUMNS} FROM pdf_files WHERE id = $1`, [file.id]);
+    res.json({
+      success: true,
+      message: 'Arquivo restaurado',
+      file: (await attachTags([toUploadedFile(restored.rows[0])]))[0]
+    });
+
+  } catch (error: any) {
+    console.error('Erro ao restaurar:', error);
+    res.status(500).json({ success: false, error: 'Erro interno no servidor' });
+  }
+});
+
 // Estatísticas
-app.get('/api/stats', async (req: Request, res: Response<StatsResponse>) => {
+const EMPTY_STATS: StatsResponse['stats'] = {
+  totalFiles: 0, totalSize: '0 Bytes', recentUploads: 0, trashFiles: 0, trashSize: '0 Bytes', quota: null
+};
+
+// Estatísticas; com ?interval=day|week|month, ?from e ?to (AAAA-MM-DD) inclui as séries e rankings
+app.get('/api/stats', requireAuth, async (req: Request, res: Response<StatsResponse>) => {
   try {
-    const totalFiles = await query('SELECT COUNT(*) FROM pdf_files');
-    const totalSize = await query('SELECT SUM(file_size) as total_size FROM pdf_files');
+    const withAnalytics = ['interval', 'from', 'to'].some(name => req.query[name] !== undefined);
+    const range = withAnalytics ? parseAnalyticsRange(req.query) : null;
+    if (withAnalytics && !range) {
+      return res.status(400).json({
+        success: false,
+        stats: EMPTY_STATS,
+        error: 'Período inválido (use interval=day|week|month e datas AAAA-MM-DD, até 400 pontos)'
+      });
+    }
+
+    const ownerParams = [scopeOwnerId(req.user!)];
+    const ownerClause = '($1::uuid IS NULL OR owner_id = $1) AND deleted_at IS NULL';
+    const totalFiles = await query(`SELECT COUNT(*) FROM pdf_files WHERE ${ownerClause}`, ownerParams);
+    const totalSize = await query(`SELECT SUM(file_size) as total_size FROM pdf_files WHERE ${ownerClause}`, ownerParams);
     const recentUploads = await query(
-      'SELECT COUNT(*) FROM pdf_files WHERE upload_date >= NOW() - INTERVAL \'7 days\''
+      `SELECT COUNT(*) FROM pdf_files WHERE ${ownerClause} AND upload_date >= NOW() - INTERVAL '7 days'`,
+      ownerParams
+    );
+    const trash = await query(
+      `SELECT COUNT(*), SUM(file_size) as total_size FROM pdf_files
+       WHERE ($1::uuid IS NULL OR owner_id = $1) AND deleted_at IS NOT NULL`,
+      ownerParams
     );
 
     const response: StatsResponse = {
@@ -328,7 +517,11 @@ app.get('/api/stats', async (req: Request, res: Response<StatsResponse>) => {
       stats: {
         totalFiles: parseInt(totalFiles.rows[0].count),
         totalSize: formatFileSize(parseInt(totalSize.rows[0].total_size || '0')),
-        recentUploads: parseInt(recentUploads.rows[0].count)
+        recentUploads: parseInt(recentUploads.rows[0].count),
+        trashFiles: parseInt(trash.rows[0].count),
+        trashSize: formatFileSize(parseInt(trash.rows[0].total_size || '0')),
+        quota: isAdmin(req.user!) ? await getGlobalUsage() : await getOwnerUsage(req.user!.id),
+        ...(range && { analytics: await getAnalytics(req.user!, range) })
       }
     };
     res.json(response);
@@ -337,15 +530,25 @@ app.get('/api/stats', async (req: Request, res: Response<StatsResponse>) => {
     console.error('Erro nas estatísticas:', error);
     const response: StatsResponse = {
       success: false,
-      stats: { totalFiles: 0, totalSize: '0 Bytes', recentUploads: 0 },
+      stats: EMPTY_STATS,
       error: 'Erro ao carregar estatísticas'
     };
     res.status(500).json(response);
   }
 });
 
-// Iniciar servidor
-app.listen(PORT, () => {
-  console.log(`🚀 Backend TypeScript rodando em http://localhost:${PORT}`);
-  console.log(`📁 Uploads: ${path.resolve(UPLOAD_DIR)}`);
-});
\ No newline at end of file
+// Iniciar servidor (somente com o schema em dia)
+assertMigrationsApplied()
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`🚀 Backend TypeScript rodando em http://localhost:${PORT}`);
+      console.log(`📁 Storage: ${storage.name}`);
+      startTrashPurgeJob();
+      startUploadSessionCleanupJob();
+      startWebhookWorker();
+    });
+  })
+  .catch((error: any) => {
+    console.error('❌ Servidor não iniciado:', error.message);
+    process.exit(1);
+  });
\ No newline at end of file
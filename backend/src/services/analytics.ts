@@ -0,0 +1,156 @@
+import { query } from '../database/config';
+import { scopeOwnerId } from '../middleware/auth';
+import { formatFileSize } from '../utils/format';
+import { AuditAction, AuthUser, RankedFile, SizeBucket, StatsAnalytics, StatsInterval } from '../types';
+
+export const STATS_INTERVALS: StatsInterval[] = ['day', 'week', 'month'];
+
+// Sem período informado: os últimos 30 dias até hoje
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_POINTS = 400;
+const TOP_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Limites (exclusivos) entre as faixas do histograma de tamanhos
+const SIZE_BOUNDS = [100 * 1024, 1024 * 1024, 10 * 1024 * 1024, 50 * 1024 * 1024];
+
+// Downloads contados a partir do log de auditoria: só os concluídos e, de
+// downloads em partes (Range), só a parte que começa no primeiro byte
+const DOWNLOAD_ACTIONS: AuditAction[] = ['download', 'version.download', 'share.download'];
+const countedDownload = (actionsParam: string): string =>
+  `e.action = ANY(${actionsParam}::text[]) AND e.result = 'success'
+   AND (e.details->>'range' IS NULL OR e.details->>'range' LIKE 'bytes 0-%')`;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface AnalyticsRange {
+  interval: StatsInterval;
+  from: string;
+  to: string;
+}
+
+const parseDate = (value: string): Date | null => {
+  if (!DATE_ONLY.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : null;
+};
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const today = (): string => {
+  const now = new Date();
+  return toDateString(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
+
+/**
+ * Período das séries (interval=day|week|month, from e to como AAAA-MM-DD,
+ * ambos inclusivos). Retorna null se algum valor é inválido, se o período
+ * está invertido ou se geraria pontos demais.
+ */
+export function parseAnalyticsRange(filters: Record<string, unknown>): AnalyticsRange | null {
+  const { interval = 'day', from, to } = filters;
+  if (!STATS_INTERVALS.includes(interval as StatsInterval)) return null;
+  if ((from !== undefined && typeof from !== 'string') || (to !== undefined && typeof to !== 'string')) return null;
+
+  const end = parseDate(to || today());
+  const start = from ? parseDate(from) : end && new Date(end.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  if (!start || !end || start > end) return null;
+
+  const days = (end.getTime() - start.getTime()) / DAY_MS + 1;
+  const points = interval === 'day' ? days : interval === 'week' ? days / 7 : days / 28;
+  if (points > MAX_POINTS) return null;
+
+  return { interval: interval as StatsInterval, from: toDateString(start), to: toDateString(end) };
+}
+
+const sizeLabel = (index: number): string => {
+  if (index === 0) return `< ${formatFileSize(SIZE_BOUNDS[0])}`;
+  if (index === SIZE_BOUNDS.length) return `≥ ${formatFileSize(SIZE_BOUNDS[index - 1])}`;
+  return `${formatFileSize(SIZE_BOUNDS[index - 1])} – ${formatFileSize(SIZE_BOUNDS[index])}`;
+};
+
+const toRankedFile = (row: any): RankedFile => ({
+  id: row.id,
+  customName: row.custom_name,
+  fileSize: formatFileSize(parseInt(row.file_size)),
+  bytes: parseInt(row.file_size),
+  ...(row.downloads !== undefined && { downloads: parseInt(row.downloads) })
+});
+
+/**
+ * Séries de uploads e downloads por período, distribuição de tamanhos e os
+ * maiores e mais baixados documentos, no escopo do usuário (admins: todos).
+ * Uploads incluem documentos hoje na lixeira; a distribuição e os rankings
+ * consideram só os documentos ativos.
+ */
+export async function getAnalytics(user: AuthUser, range: AnalyticsRange): Promise<StatsAnalytics> {
+  const ownerId = scopeOwnerId(user);
+
+  // Os períodos começam no início do dia, da semana (segunda) ou do mês
+  const series = await query(
+    `WITH periods AS (
+       SELECT generate_series(date_trunc($2::text, $3::date::timestamp), $4::date::timestamp,
+                              ('1 ' || $2::text)::interval)::date AS period
+     ), uploads AS (
+       SELECT date_trunc($2::text, upload_date)::date AS period, COUNT(*) AS count
+       FROM pdf_files
+       WHERE ($1::uuid IS NULL OR owner_id = $1) AND upload_date >= $3::date AND upload_date < $4::date + 1
+       GROUP BY 1
+     ), downloads AS (
+       SELECT date_trunc($2::text, e.occurred_at)::date AS period, COUNT(*) AS count
+       FROM audit_events e LEFT JOIN pdf_files f ON f.id = e.file_id
+       WHERE ${countedDownload('$5')} AND ($1::uuid IS NULL OR f.owner_id = $1)
+         AND e.occurred_at >= $3::date AND e.occurred_at < $4::date + 1
+       GROUP BY 1
+     )
+     SELECT to_char(p.period, 'YYYY-MM-DD') AS period,
+            COALESCE(u.count, 0) AS uploads, COALESCE(d.count, 0) AS downloads
+     FROM periods p LEFT JOIN uploads u USING (period) LEFT JOIN downloads d USING (period)
+     ORDER BY p.period`,
+    [ownerId, range.interval, range.from, range.to, DOWNLOAD_ACTIONS]
+  );
+
+  const sizes = await query(
+    `SELECT width_bucket(file_size, $2::bigint[]) AS bucket, COUNT(*) AS count
+     FROM pdf_files WHERE ($1::uuid IS NULL OR owner_id = $1) AND deleted_at IS NULL
+     GROUP BY 1`,
+    [ownerId, SIZE_BOUNDS]
+  );
+  const counts = new Map(sizes.rows.map(row => [row.bucket, parseInt(row.count)]));
+  const sizeDistribution: SizeBucket[] = [...SIZE_BOUNDS, null].map((maxBytes, index) => ({
+    label: sizeLabel(index),
+    minBytes: index === 0 ? 0 : SIZE_BOUNDS[index - 1],
+    maxBytes,
+    count: counts.get(index) || 0
+  }));
+
+  const largest = await query(
+    `SELECT id, custom_name, file_size
+     FROM pdf_files WHERE ($1::uuid IS NULL OR owner_id = $1) AND deleted_at IS NULL
+     ORDER BY file_size DESC, custom_name LIMIT $2`,
+    [ownerId, TOP_LIMIT]
+  );
+
+  const mostDownloaded = await query(
+    `SELECT f.id, f.custom_name, f.file_size, COUNT(*) AS downloads
+     FROM audit_events e JOIN pdf_files f ON f.id = e.file_id
+     WHERE ${countedDownload('$2')}
+       AND ($1::uuid IS NULL OR f.owner_id = $1) AND f.deleted_at IS NULL
+       AND e.occurred_at >= $3::date AND e.occurred_at < $4::date + 1
+     GROUP BY f.id
+     ORDER BY downloads DESC, f.custom_name LIMIT $5`,
+    [ownerId, DOWNLOAD_ACTIONS, range.from, range.to, TOP_LIMIT]
+  );
+
+  return {
+    ...range,
+    series: series.rows.map(row => ({
+      period: row.period,
+      uploads: parseInt(row.uploads),
+      downloads: parseInt(row.downloads)
+    })),
+    sizeDistribution,
+    largest: largest.rows.map(toRankedFile),
+    mostDownloaded: mostDownloaded.rows.map(toRankedFile)
+  };
+}
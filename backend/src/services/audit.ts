@@ -0,0 +1,130 @@
+import { query } from '../database/config';
+import { scopeOwnerId } from '../middleware/auth';
+import { isUuid } from './organization';
+import { queueWebhookEvents } from './webhooks';
+import { AuditAction, AuditEvent, AuditResult, AuthUser } from '../types';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'upload', 'download', 'view', 'delete', 'restore', 'purge', 'move', 'tag', 'update',
+  'version.upload', 'version.download', 'version.promote',
+  'share.create', 'share.revoke', 'share.download',
+  'merge', 'split', 'extract', 'rotate', 'compose'
+];
+
+const AUDIT_RESULTS: AuditResult[] = ['success', 'failure', 'denied'];
+
+export interface AuditEntry {
+  actorId?: string | null;
+  actorEmail?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  fileId: string | null;
+  // Se omitido, vem do documento (enquanto ele existir)
+  fileName?: string | null;
+  action: AuditAction;
+  result: AuditResult;
+  details?: Record<string, unknown> | null;
+}
+
+/**
+ * Grava os eventos de auditoria e enfileira os webhooks correspondentes.
+ * Nunca lança: uma falha aqui é logada, mas não desfaz nem interrompe a
+ * ação auditada.
+ */
+export async function recordAuditEvents(entries: AuditEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    await query(
+      `INSERT INTO audit_events (actor_id, actor_email, ip, user_agent, file_id, file_name, action, result, details)
+       SELECT e.actor_id, e.actor_email, e.ip, e.user_agent, e.file_id, COALESCE(e.file_name, f.custom_name),
+              e.action, e.result, e.details
+       FROM unnest($1::uuid[], $2::text[], $3::text[], $4::text[], $5::uuid[], $6::text[], $7::text[], $8::text[], $9::jsonb[])
+         WITH ORDINALITY AS e(actor_id, actor_email, ip, user_agent, file_id, file_name, action, result, details, n)
+       LEFT JOIN pdf_files f ON f.id = e.file_id
+       ORDER BY e.n`,
+      [
+        entries.map(entry => entry.actorId || null),
+        entries.map(entry => entry.actorEmail || null),
+        entries.map(entry => entry.ip || null),
+        entries.map(entry => entry.userAgent?.slice(0, 500) || null),
+        entries.map(entry => entry.fileId),
+        entries.map(entry => entry.fileName || null),
+        entries.map(entry => entry.action),
+        entries.map(entry => entry.result),
+        entries.map(entry => (entry.details ? JSON.stringify(entry.details) : null))
+      ]
+    );
+  } catch (error) {
+    console.error('Erro ao registrar auditoria:', error);
+  }
+
+  try {
+    await queueWebhookEvents(entries);
+  } catch (error) {
+    console.error('Erro ao enfileirar webhooks:', error);
+  }
+}
+
+export const toAuditEvent = (row: any): AuditEvent => ({
+  id: String(row.id),
+  occurredAt: new Date(row.occurred_at).toLocaleString('pt-BR'),
+  actorId: row.actor_id,
+  actorEmail: row.actor_email,
+  ip: row.ip,
+  userAgent: row.user_agent,
+  fileId: row.file_id,
+  fileName: row.file_name,
+  action: row.action,
+  result: row.result,
+  details: row.details
+});
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Filtros da consulta de auditoria (fileId, actorId, action, result, from, to).
+ * Quem não é admin vê as próprias ações e as feitas sobre os seus documentos.
+ * `to` só com a data inclui o dia inteiro. Retorna null se algum filtro é inválido.
+ */
+export const buildAuditFilters = (user: AuthUser, filters: Record<string, unknown>) => {
+  const conditions: string[] = [
+    '($1::uuid IS NULL OR actor_id = $1 OR file_id IN (SELECT id FROM pdf_files WHERE owner_id = $1))'
+  ];
+  const params: unknown[] = [scopeOwnerId(user)];
+  const add = (condition: string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition.replace('?', `$${params.length}`));
+  };
+
+  const { fileId, actorId, action, result, from, to } = filters;
+
+  if (fileId !== undefined) {
+    if (!isUuid(fileId)) return null;
+    add('file_id = ?', fileId);
+  }
+  if (actorId !== undefined) {
+    if (!isUuid(actorId)) return null;
+    add('actor_id = ?', actorId);
+  }
+  if (action !== undefined) {
+    if (!AUDIT_ACTIONS.includes(action as AuditAction)) return null;
+    add('action = ?', action);
+  }
+  if (result !== undefined) {
+    if (!AUDIT_RESULTS.includes(result as AuditResult)) return null;
+    add('result = ?', result);
+  }
+  for (const [bound, value] of [['from', from], ['to', to]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) return null;
+
+    if (DATE_ONLY.test(value)) {
+      add(bound === 'from' ? 'occurred_at >= ?::date' : 'occurred_at < ?::date + 1', value);
+    } else {
+      add(bound === 'from' ? 'occurred_at >= ?::timestamptz' : 'occurred_at <= ?::timestamptz', value);
+    }
+  }
+
+  return { where: conditions.join(' AND '), params };
+};
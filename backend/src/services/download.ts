@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+
+import { DOWNLOAD_CACHE_CONTROL } from '../config';
+import { storage, ByteRange, StoredObjectInfo } from '../storage';
+
+export interface SendOptions {
+  // Exibir no navegador em vez de forçar o download
+  inline?: boolean;
+  contentType?: string;
+  cacheControl?: string;
+  // Atende Range (206) e requisições condicionais (304). Desligado quando cada
+  // resposta consome algo, como o limite de downloads de um link compartilhado
+  conditional?: boolean;
+}
+
+// ?disposition=inline abre no navegador; o padrão é baixar
+export const requestedInline = (req: Request): boolean => req.query.disposition === 'inline';
+
+// RFC 5987: percent-encoding UTF-8, incluindo os caracteres que o encodeURIComponent mantém
+const encodeRfc5987 = (value: string): string =>
+  encodeURIComponent(value).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Content-Disposition com o nome em ASCII (acentos removidos) para clientes
+ * antigos e o nome exato em filename*, como "Relatório de março.pdf".
+ */
+export const contentDisposition = (name: string, inline = false): string => {
+  const fallback = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]|["\\%]/g, '_');
+  return `${inline ? 'inline' : 'attachment'}; filename="${fallback}"; filename*=UTF-8''${encodeRfc5987(name)}`;
+};
+
+// Os objetos não mudam depois de gravados: chave, tamanho e data os identificam
+const entityTag = (key: string, info: StoredObjectInfo): string => {
+  const hash = crypto.createHash('sha1').update(`${key}:${info.size}:${info.lastModified.getTime()}`).digest('base64url');
+  return `"${hash}"`;
+};
+
+// If-Range: o intervalo só vale se o cliente ainda tem a mesma versão do arquivo
+const rangeStillValid = (req: Request, etag: string, lastModified: Date): boolean => {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) return ifRange === etag;
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(date / 1000);
+};
+
+/**
+ * Intervalo pedido no header Range. Retorna null para enviar o arquivo
+ * inteiro (sem Range, malformado ou com vários intervalos) e 'unsatisfiable'
+ * quando está fora do arquivo.
+ */
+const requestedRange = (req: Request, size: number): ByteRange | 'unsatisfiable' | null => {
+  if (!req.get('Range')) return null;
+  const ranges = req.range(size, { combine: true });
+  if (ranges === -1) return 'unsatisfiable';
+  if (ranges === -2 || ranges === undefined || ranges.type !== 'bytes' || ranges.length !== 1) return null;
+  return { start: ranges[0].start, end: ranges[0].end };
+};
+
+/**
+ * Envia um objeto do storage como download, com ETag/Last-Modified (304
+ * quando o cliente já tem a versão atual) e Range (206). Retorna false se
+ * o objeto não existe, para o chamador responder 404.
+ */
+export async function sendStoredFile(
+  res: Response,
+  key: string,
+  downloadName: string,
+  options: SendOptions = {}
+): Promise<boolean> {
+  const info = await storage.stat(key);
+  if (!info) return false;
+
+  const req = res.req;
+  const conditional = options.conditional !== false;
+  const etag = entityTag(key, info);
+
+  res.setHeader('Content-Disposition', contentDisposition(downloadName, options.inline));
+  res.setHeader('Content-Type', options.contentType || 'application/pdf');
+  res.setHeader('Cache-Control', options.cacheControl || DOWNLOAD_CACHE_CONTROL);
+
+  let range: ByteRange | null = null;
+  if (conditional) {
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', info.lastModified.toUTCString());
+    res.setHeader('Accept-Ranges', 'bytes');
+
+    if (req.fresh) {
+      res.status(304).end();
+      return true;
+    }
+
+    const requested = rangeStillValid(req, etag, info.lastModified) ? requestedRange(req, info.size) : null;
+    if (requested === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${info.size}`);
+      res.status(416).end();
+      return true;
+    }
+    range = requested;
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+  }
+  res.setHeader('Content-Length', range ? range.end - range.start + 1 : info.size);
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return true;
+  }
+
+  const stream = await storage.createReadStream(key, range || undefined);
+  stream.on('error', error => {
+    console.error('Erro ao ler arquivo do storage:', error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+  return true;
+}
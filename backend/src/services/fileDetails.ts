@@ -0,0 +1,173 @@
+import { PoolClient } from 'pg';
+
+import { FileChange, FileDetailsField } from '../types';
+
+const MAX_NAME_LENGTH = 255;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_REFERENCE_LENGTH = 100;
+const MAX_PROPERTIES = 50;
+const MAX_PROPERTY_KEY_LENGTH = 100;
+const MAX_PROPERTY_VALUE_LENGTH = 1000;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface FileDetails {
+  customName: string;
+  description: string | null;
+  documentDate: string | null;
+  referenceNumber: string | null;
+  properties: Record<string, string>;
+}
+
+// Coluna de cada campo editável
+const COLUMNS: Record<FileDetailsField, string> = {
+  customName: 'custom_name',
+  description: 'description',
+  documentDate: 'document_date',
+  referenceNumber: 'reference_number',
+  properties: 'properties'
+};
+
+export const DETAILS_FIELDS = Object.keys(COLUMNS) as FileDetailsField[];
+
+// Texto opcional: vazio vira null; undefined indica valor inválido
+const parseOptionalText = (input: unknown, maxLength: number): string | null | undefined => {
+  if (input === null || input === '') return null;
+  if (typeof input !== 'string' || input.trim().length > maxLength) return undefined;
+  return input.trim() || null;
+};
+
+const parseDate = (input: unknown): string | null | undefined => {
+  if (input === null || input === '') return null;
+  if (typeof input !== 'string' || !DATE_ONLY.test(input)) return undefined;
+  const date = new Date(`${input}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(input) ? input : undefined;
+};
+
+// Propriedades livres (chave → texto); substituem as anteriores por inteiro
+const parseProperties = (input: unknown): Record<string, string> | undefined => {
+  if (input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) return undefined;
+
+  const entries = Object.entries(input as Record<string, unknown>);
+  if (entries.length > MAX_PROPERTIES) return undefined;
+
+  const properties: Record<string, string> = {};
+  for (const [rawKey, value] of entries) {
+    const key = rawKey.trim();
+    if (!key || key.length > MAX_PROPERTY_KEY_LENGTH) return undefined;
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return undefined;
+    if (String(value).length > MAX_PROPERTY_VALUE_LENGTH) return undefined;
+    properties[key] = String(value);
+  }
+  return properties;
+};
+
+/**
+ * Campos enviados no PATCH, validados. Campos ausentes não mudam; os
+ * opcionais aceitam null (ou "") para limpar. Retorna a mensagem de erro
+ * se algum valor é inválido ou se nenhum campo foi enviado.
+ */
+export function parseDetailsPatch(body: Record<string, unknown>): { values: Partial<FileDetails> } | { error: string } {
+  const values: Partial<FileDetails> = {};
+
+  if (body.customName !== undefined) {
+    if (typeof body.customName !== 'string' || !body.customName.trim() || body.customName.trim().length > MAX_NAME_LENGTH) {
+      return { error: `Nome inválido (de 1 a ${MAX_NAME_LENGTH} caracteres)` };
+    }
+    values.customName = body.customName.trim();
+  }
+  if (body.description !== undefined) {
+    const description = parseOptionalText(body.description, MAX_DESCRIPTION_LENGTH);
+    if (description === undefined) return { error: `Descrição inválida (até ${MAX_DESCRIPTION_LENGTH} caracteres)` };
+    values.description = description;
+  }
+  if (body.documentDate !== undefined) {
+    const documentDate = parseDate(body.documentDate);
+    if (documentDate === undefined) return { error: 'Data do documento inválida (use AAAA-MM-DD)' };
+    values.documentDate = documentDate;
+  }
+  if (body.referenceNumber !== undefined) {
+    const referenceNumber = parseOptionalText(body.referenceNumber, MAX_REFERENCE_LENGTH);
+    if (referenceNumber === undefined) return { error: `Número de referência inválido (até ${MAX_REFERENCE_LENGTH} caracteres)` };
+    values.referenceNumber = referenceNumber;
+  }
+  if (body.properties !== undefined) {
+    const properties = parseProperties(body.properties);
+    if (!properties) {
+      return {
+        error: `Propriedades inválidas (até ${MAX_PROPERTIES} pares chave/valor, ` +
+          `chaves de até ${MAX_PROPERTY_KEY_LENGTH} e valores de até ${MAX_PROPERTY_VALUE_LENGTH} caracteres)`
+      };
+    }
+    values.properties = properties;
+  }
+
+  if (Object.keys(values).length === 0) {
+    return { error: `Nenhum campo para alterar (use ${DETAILS_FIELDS.join(', ')})` };
+  }
+  return { values };
+}
+
+// Propriedades comparadas sem depender da ordem das chaves
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keysA = Object.keys(a);
+    return keysA.length === Object.keys(b).length &&
+      keysA.every(key => (a as Record<string, unknown>)[key] === (b as Record<string, unknown>)[key]);
+  }
+  return a === b;
+};
+
+/**
+ * Grava os campos que mudaram e registra a alteração no histórico.
+ * Retorna as mudanças (vazio se nada mudou). Deve rodar na transação em
+ * que o documento foi travado.
+ */
+export async function applyDetailsChange(
+  client: PoolClient,
+  current: FileDetails,
+  fileId: string,
+  userId: string,
+  values: Partial<FileDetails>
+): Promise<FileChange['changes']> {
+  const changes: FileChange['changes'] = {};
+  for (const field of Object.keys(values) as FileDetailsField[]) {
+    if (!sameValue(current[field], values[field])) {
+      changes[field] = { from: current[field], to: values[field] };
+    }
+  }
+
+  const fields = Object.keys(changes) as FileDetailsField[];
+  if (fields.length === 0) return changes;
+
+  // updated_at sempre avança, mesmo com duas alterações no mesmo milissegundo
+  const assignments = fields.map((field, index) => `${COLUMNS[field]} = $${index + 2}`);
+  await client.query(
+    `UPDATE pdf_files SET ${assignments.join(', ')},
+       updated_at = GREATEST(CURRENT_TIMESTAMP::timestamp, updated_at + INTERVAL '1 millisecond')
+     WHERE id = $1`,
+    [fileId, ...fields.map(field => field === 'properties' ? JSON.stringify(values[field]) : values[field])]
+  );
+  await client.query(
+    'INSERT INTO pdf_file_changes (file_id, changed_by, changes) VALUES ($1, $2, $3)',
+    [fileId, userId, JSON.stringify(changes)]
+  );
+  return changes;
+}
+
+export const toFileDetails = (row: any): FileDetails => ({
+  customName: row.custom_name,
+  description: row.description,
+  documentDate: row.document_date,
+  referenceNumber: row.reference_number,
+  properties: row.properties || {}
+});
+
+export const toFileChange = (row: any): FileChange => ({
+  id: row.id,
+  changedAt: new Date(row.changed_at).toLocaleString('pt-BR'),
+  changedBy: row.changed_by,
+  changedByName: row.changed_by_name,
+  changes: row.changes
+});
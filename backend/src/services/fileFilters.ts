@@ -0,0 +1,99 @@
+import { scopeOwnerId } from '../middleware/auth';
+import { isUuid } from './organization';
+import { AuthUser } from '../types';
+
+// AAAA-MM-DD de uma data que existe (2024-02-30 não passa)
+const isDateOnly = (value: string): boolean => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/**
+ * Monta as condições do WHERE de /api/files a partir da query string. Os
+ * valores são acrescentados em params e referenciados pela posição ($n).
+ */
+export function buildFileFilters(filters: Record<string, unknown>, user: AuthUser, params: unknown[]): string[] {
+  const param = (value: unknown): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const ownerParam = param(scopeOwnerId(user));
+  // Documentos na lixeira só aparecem em /api/trash
+  const conditions = [`(${ownerParam}::uuid IS NULL OR owner_id = ${ownerParam})`, 'deleted_at IS NULL'];
+
+  // Características do PDF: ?encrypted=true, ?signed=false, ?hasForms=true
+  const flags: Record<string, string> = { encrypted: 'is_encrypted', signed: 'is_signed', hasForms: 'has_forms' };
+  for (const [name, column] of Object.entries(flags)) {
+    if (filters[name] === 'true' || filters[name] === 'false') {
+      conditions.push(`${column} = ${param(filters[name] === 'true')}`);
+    }
+  }
+
+  // Campos do dicionário Info, por trecho
+  for (const column of ['title', 'author', 'subject', 'producer']) {
+    const value = filters[column];
+    if (typeof value === 'string' && value.trim()) {
+      conditions.push(`${column} ILIKE ${param(`%${value.trim()}%`)}`);
+    }
+  }
+
+  if (typeof filters.pdfVersion === 'string' && filters.pdfVersion) {
+    conditions.push(`pdf_version = ${param(filters.pdfVersion)}`);
+  }
+
+  const minPages = parseInt(filters.minPages as string);
+  if (!isNaN(minPages)) {
+    conditions.push(`page_count >= ${param(minPages)}`);
+  }
+  const maxPages = parseInt(filters.maxPages as string);
+  if (!isNaN(maxPages)) {
+    conditions.push(`page_count <= ${param(maxPages)}`);
+  }
+
+  // Tamanho em bytes: ?minSize=1048576&maxSize=10485760
+  const minSize = parseInt(filters.minSize as string);
+  if (!isNaN(minSize)) {
+    conditions.push(`file_size >= ${param(minSize)}`);
+  }
+  const maxSize = parseInt(filters.maxSize as string);
+  if (!isNaN(maxSize)) {
+    conditions.push(`file_size <= ${param(maxSize)}`);
+  }
+
+  // Data de upload: ?uploadedFrom=2024-01-01&uploadedTo=2024-01-31 (dias inclusivos)
+  if (typeof filters.uploadedFrom === 'string' && isDateOnly(filters.uploadedFrom)) {
+    conditions.push(`upload_date >= ${param(filters.uploadedFrom)}::date`);
+  }
+  if (typeof filters.uploadedTo === 'string' && isDateOnly(filters.uploadedTo)) {
+    conditions.push(`upload_date < ${param(filters.uploadedTo)}::date + 1`);
+  }
+
+  // Pasta: ?folderId=<id> (com includeSubfolders=true, a subárvore) ou ?folderId=root
+  if (filters.folderId === 'root') {
+    conditions.push('folder_id IS NULL');
+  } else if (isUuid(filters.folderId)) {
+    const folderParam = param(filters.folderId);
+    conditions.push(filters.includeSubfolders === 'true'
+      ? `folder_id IN (
+          WITH RECURSIVE subtree AS (
+            SELECT id FROM folders WHERE id = ${folderParam}
+            UNION ALL
+            SELECT f.id FROM folders f JOIN subtree s ON f.parent_id = s.id
+          )
+          SELECT id FROM subtree)`
+      : `folder_id = ${folderParam}`);
+  }
+
+  // Tags por nome: ?tag=a&tag=b exige as duas
+  const tagNames = ([] as unknown[]).concat(filters.tag ?? []);
+  for (const tag of tagNames) {
+    if (typeof tag === 'string' && tag.trim()) {
+      conditions.push(`id IN (
+        SELECT ft.file_id FROM pdf_file_tags ft JOIN tags t ON t.id = ft.tag_id
+        WHERE lower(t.name) = lower(${param(tag.trim())}))`);
+    }
+  }
+
+  return conditions;
+}
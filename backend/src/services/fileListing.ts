@@ -0,0 +1,136 @@
+import { isUuid } from './organization';
+import { FileSort, SortDirection } from '../types';
+
+export const FILE_SORTS: FileSort[] = ['date', 'name', 'size', 'relevance'];
+const DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+
+const DEFAULT_LIMIT = 10;
+export const MAX_LIMIT = 100;
+
+export interface SortExpression {
+  expression: string;
+  // Tipo do valor guardado no cursor, para a comparação voltar ao tipo da coluna
+  type: string;
+}
+
+// Relevância depende do termo buscado e é montada por relevanceSort
+const SORT_EXPRESSIONS: Record<Exclude<FileSort, 'relevance'>, SortExpression> = {
+  date: { expression: 'upload_date', type: 'timestamp' },
+  name: { expression: 'lower(custom_name)', type: 'text' },
+  size: { expression: 'file_size', type: 'bigint' }
+};
+
+export const relevanceSort = (termParam: string): SortExpression => ({
+  expression: `ts_rank_cd(search_vector, websearch_to_tsquery('portuguese', ${termParam}))`,
+  type: 'real'
+});
+
+export const sortExpression = (sort: FileSort, termParam?: string): SortExpression =>
+  sort === 'relevance' ? relevanceSort(termParam!) : SORT_EXPRESSIONS[sort];
+
+const TIMESTAMP_TEXT = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
+const INT8_MIN = -(2n ** 63n);
+const INT8_MAX = 2n ** 63n - 1n;
+const REAL_MIN = 1.18e-38;
+const REAL_MAX = 3.4e38;
+
+// O valor do cursor é o texto da coluna de ordenação (::text); conferido aqui para o cast nunca falhar no banco
+const CURSOR_VALUE_CHECKS: Record<string, (value: string) => boolean> = {
+  timestamp: value => {
+    const match = TIMESTAMP_TEXT.exec(value);
+    if (!match || parseInt(match[1]) < 1) return false;
+    const date = new Date(`${value.slice(0, 19).replace(' ', 'T')}Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 19) === value.slice(0, 19).replace(' ', 'T');
+  },
+  bigint: value => /^-?\d{1,19}$/.test(value) && BigInt(value) >= INT8_MIN && BigInt(value) <= INT8_MAX,
+  real: value => {
+    if (!/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(value)) return false;
+    const number = Math.abs(Number(value));
+    return number === 0 || (number >= REAL_MIN && number <= REAL_MAX);
+  },
+  text: value => !value.includes('\u0000')
+};
+
+const cursorValueType = (sort: FileSort): string =>
+  sort === 'relevance' ? relevanceSort('').type : SORT_EXPRESSIONS[sort].type;
+
+// Posição após o último item entregue: valor da ordenação e id (desempate)
+interface CursorPosition {
+  sort: FileSort;
+  direction: SortDirection;
+  value: string;
+  id: string;
+}
+
+export interface FileListing {
+  sort: FileSort;
+  direction: SortDirection;
+  limit: number;
+  page: number;
+  cursor: CursorPosition | null;
+}
+
+export const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify([position.sort, position.direction, position.value, position.id])).toString('base64url');
+
+const decodeCursor = (cursor: string): CursorPosition | null => {
+  try {
+    const [sort, direction, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!FILE_SORTS.includes(sort) || !DIRECTIONS.includes(direction)) return null;
+    if (typeof value !== 'string' || !isUuid(id) || !CURSOR_VALUE_CHECKS[cursorValueType(sort)](value)) return null;
+    return { sort, direction, value, id };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Ordenação e paginação da listagem: ?sort=date|name|size|relevance,
+ * ?order=asc|desc, ?limit (1 a MAX_LIMIT) e ?page ou ?cursor (o nextCursor
+ * da página anterior). Relevância só vale com busca, e é o padrão nela.
+ */
+export function parseFileListing(filters: Record<string, unknown>, searching: boolean): FileListing | { error: string } {
+  const sort = (filters.sort ?? (searching ? 'relevance' : 'date')) as FileSort;
+  if (!FILE_SORTS.includes(sort) || (sort === 'relevance' && !searching)) {
+    return { error: `Ordenação inválida (use ${FILE_SORTS.filter(item => searching || item !== 'relevance').join(', ')})` };
+  }
+
+  const direction = (filters.order ?? (sort === 'name' ? 'asc' : 'desc')) as SortDirection;
+  if (!DIRECTIONS.includes(direction)) {
+    return { error: 'Direção inválida (use asc ou desc)' };
+  }
+
+  const limit = filters.limit === undefined ? DEFAULT_LIMIT : Number(filters.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: `Limite inválido (de 1 a ${MAX_LIMIT})` };
+  }
+
+  const page = filters.page === undefined ? 1 : Number(filters.page);
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: 'Página inválida' };
+  }
+
+  let cursor: CursorPosition | null = null;
+  if (filters.cursor !== undefined && filters.cursor !== '') {
+    cursor = typeof filters.cursor === 'string' ? decodeCursor(filters.cursor) : null;
+    // O cursor só vale para a mesma ordenação em que foi gerado
+    if (!cursor || cursor.sort !== sort || cursor.direction !== direction) {
+      return { error: 'Cursor inválido para esta ordenação' };
+    }
+  }
+
+  return { sort, direction, limit, page, cursor };
+}
+
+/**
+ * Condição que pula o que já foi entregue (paginação por cursor), na mesma
+ * ordem do ORDER BY de orderBy. Os valores vão para params.
+ */
+export function cursorCondition(sort: SortExpression, listing: FileListing, params: unknown[]): string {
+  params.push(listing.cursor!.value, listing.cursor!.id);
+  const operator = listing.direction === 'desc' ? '<' : '>';
+  return `(${sort.expression}, id) ${operator} ($${params.length - 1}::${sort.type}, $${params.length}::uuid)`;
+}
+
+export const orderBy = (expression: string, listing: FileListing, idColumn = 'id'): string =>
+  `${expression} ${listing.direction.toUpperCase()}, ${idColumn} ${listing.direction.toUpperCase()}`;
@@ -0,0 +1,471 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+import { query, withTransaction } from '../database/config';
+import { storage } from '../storage';
+import { safeExtractPdfText } from './pdfText';
+import { PdfMetadataFields, safeExtractPdfMetadata } from './pdfMetadata';
+import { previewContentKey, previewKeys, safeCreateThumbnail } from './previews';
+import { attachTags, isUuid, setFileTags } from './organization';
+import { reserveQuota } from './quotas';
+import type { DerivedSource } from './pdfTools';
+import type { FileDetails } from './fileDetails';
+import { formatFileSize } from '../utils/format';
+import { scopeOwnerId } from '../middleware/auth';
+import { AuthUser, FileVersion, UploadedFile } from '../types';
+
+export interface NewPdfFile {
+  customName: string;
+  originalName: string;
+  fileName: string;
+  // Caminho do arquivo temporário recebido; vira a chave fileName no storage
+  filePath: string;
+  fileSize: number;
+  mimeType: string;
+  ownerId: string | null;
+  // Pasta (já validada como do dono) e nomes de tags
+  folderId?: string | null;
+  tags?: string[];
+  // Documentos gerados a partir de páginas de outros (junção, divisão...)
+  sources?: DerivedSource[];
+  // Dados descritivos já validados (importação em lote)
+  details?: Partial<Omit<FileDetails, 'customName'>>;
+}
+
+export type VersionUpload = Omit<NewPdfFile, 'customName' | 'ownerId' | 'folderId' | 'tags' | 'sources' | 'details'>;
+
+// Metadados lidos do PDF, gravados no documento e em cada versão
+export const METADATA_COLUMNS = [
+  'page_count', 'pdf_version', 'title', 'author', 'subject', 'producer',
+  'pdf_created_at', 'is_encrypted', 'is_signed', 'has_forms'
+];
+
+export const metadataValues = (metadata: PdfMetadataFields) => [
+  metadata.pageCount, metadata.pdfVersion, metadata.title, metadata.author, metadata.subject,
+  metadata.producer, metadata.creationDate, metadata.encrypted, metadata.signed, metadata.hasForms
+];
+
+const placeholders = (start: number, count: number): string =>
+  Array.from({ length: count }, (_, index) => `$${start + index}`).join(', ');
+
+// Colunas retornadas nas listagens (sem o texto extraído, que pode ser grande)
+export const FILE_COLUMNS = 'id, custom_name, original_name, file_name, file_path, file_size, mime_type, content_hash, ' +
+  `current_version, version_count, ${METADATA_COLUMNS.join(', ')}, owner_id, folder_id, upload_date, updated_at, deleted_at, ` +
+  "description, to_char(document_date, 'YYYY-MM-DD') AS document_date, reference_number, properties, storage_issue";
+
+// Nome único do arquivo, usado como chave no storage
+export const generateFileName = (originalName: string): string => {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  const safeName = originalName.replace(/\s+/g, '_').replace(/[\\/]/g, '_');
+  return 'pdf-' + uniqueSuffix + '-' + safeName;
+};
+
+export const computeFileHash = (filePath: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+
+export const removeTempFile = (filePath: string): void => {
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+};
+
+// Colunas DATE chegam como texto (FILE_COLUMNS) ou como Date à meia-noite local (SELECT *)
+const toDateOnly = (value: string | Date | null | undefined): string | null => {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+};
+
+export const toUploadedFile = (file: any): UploadedFile => ({
+  id: file.id,
+  customName: file.custom_name,
+  originalName: file.original_name,
+  fileName: file.file_name,
+  fileSize: formatFileSize(parseInt(file.file_size)),
+  uploadDate: new Date(file.upload_date).toLocaleString('pt-BR'),
+  downloadUrl: `/api/download/${file.id}`,
+  // A versão na URL invalida o cache do navegador quando o conteúdo muda
+  thumbnailUrl: `/api/files/${file.id}/thumbnail?v=${file.current_version}`,
+  viewUrl: `/api/view/${file.id}`,
+  pageCount: file.page_count,
+  metadata: {
+    pdfVersion: file.pdf_version,
+    title: file.title,
+    author: file.author,
+    subject: file.subject,
+    producer: file.producer,
+    creationDate: file.pdf_created_at ? new Date(file.pdf_created_at).toLocaleString('pt-BR') : null,
+    encrypted: file.is_encrypted,
+    signed: file.is_signed,
+    hasForms: file.has_forms
+  },
+  folderId: file.folder_id,
+  description: file.description ?? null,
+  documentDate: toDateOnly(file.document_date),
+  referenceNumber: file.reference_number ?? null,
+  properties: file.properties || {},
+  updatedAt: new Date(file.updated_at).toISOString(),
+  ...(file.deleted_at && { deletedAt: new Date(file.deleted_at).toLocaleString('pt-BR') }),
+  ...(file.storage_issue && { storageIssue: file.storage_issue }),
+  // Preenchidas por attachTags nas listagens
+  tags: [],
+  version: file.current_version,
+  versionCount: file.version_count
+});
+
+export const toFileVersion = (version: any, currentVersion: number): FileVersion => ({
+  version: version.version_number,
+  originalName: version.original_name,
+  fileSize: formatFileSize(parseInt(version.file_size)),
+  uploadDate: new Date(version.created_at).toLocaleString('pt-BR'),
+  current: version.version_number === currentVersion,
+  downloadUrl: `/api/files/${version.file_id}/versions/${version.version_number}/download`
+});
+
+// Conta mais uma referência ao blob, criando-o se o conteúdo é inédito.
+// A chave no storage (coluna file_path) é o próprio nome do arquivo.
+export const acquireBlob = async (
+  client: PoolClient,
+  hash: string,
+  file: { fileName: string; fileSize: number }
+) => {
+  const result = await client.query(
+    `INSERT INTO pdf_blobs (content_hash, file_name, file_path, file_size)
+     VALUES ($1, $2, $2, $3)
+     ON CONFLICT (content_hash) DO UPDATE SET ref_count = pdf_blobs.ref_count + 1
+     RETURNING *, (xmax = 0) AS inserted`,
+    [hash, file.fileName, file.fileSize]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Solta uma referência ao blob. Retorna a chave no storage quando era a
+ * última, para que o chamador remova o objeto após o commit.
+ */
+export const releaseBlob = async (client: PoolClient, hash: string): Promise<string | null> => {
+  const result = await client.query(
+    `UPDATE pdf_blobs SET ref_count = ref_count - 1 WHERE content_hash = $1 RETURNING *`,
+    [hash]
+  );
+  const blob = result.rows[0];
+  if (!blob || blob.ref_count > 0) return null;
+
+  await client.query('DELETE FROM pdf_blobs WHERE content_hash = $1', [hash]);
+  return blob.file_path;
+};
+
+const toMetadataFields = (row: any): PdfMetadataFields => ({
+  pageCount: row.page_count,
+  pdfVersion: row.pdf_version,
+  title: row.title,
+  author: row.author,
+  subject: row.subject,
+  producer: row.producer,
+  creationDate: row.pdf_created_at,
+  encrypted: row.is_encrypted,
+  signed: row.is_signed,
+  hasForms: row.has_forms
+});
+
+/**
+ * Conteúdo já armazenado com o mesmo hash, para reaproveitar o texto extraído.
+ * O documento de origem só é informado se pertence ao mesmo dono, para não
+ * revelar que outro usuário tem o mesmo arquivo.
+ */
+const findExistingContent = async (hash: string, ownerId: string | null) => {
+  const result = await query(
+    `SELECT id, custom_name, content_text, ${METADATA_COLUMNS.join(', ')}, owner_id, deleted_at FROM pdf_files
+     WHERE content_hash = $1
+     ORDER BY (owner_id IS NOT DISTINCT FROM $2) DESC, (deleted_at IS NULL) DESC, upload_date LIMIT 1`,
+    [hash, ownerId]
+  );
+  const existing = result.rows[0];
+  return {
+    contentText: existing ? existing.content_text as string : null,
+    // Sem page_count o conteúdo nunca foi lido com sucesso (ou é anterior aos metadados)
+    metadata: existing && existing.page_count !== null ? toMetadataFields(existing) : null,
+    sameOwnerFile: existing && existing.owner_id === ownerId && !existing.deleted_at ? existing : null
+  };
+};
+
+type ExistingContent = Awaited<ReturnType<typeof findExistingContent>>;
+
+/**
+ * Documento visível para o usuário: o próprio ou qualquer um, se admin.
+ * Documentos na lixeira ficam de fora; use findTrashedFile para eles. Um id
+ * que não é UUID não existe (404 em vez de erro do banco).
+ */
+export const findAccessibleFile = async (user: AuthUser, id: string) => {
+  if (!isUuid(id)) return undefined;
+  const result = await query(
+    'SELECT * FROM pdf_files WHERE id = $1 AND ($2::uuid IS NULL OR owner_id = $2) AND deleted_at IS NULL',
+    [id, scopeOwnerId(user)]
+  );
+  return result.rows[0];
+};
+
+export const findTrashedFile = async (user: AuthUser, id: string) => {
+  if (!isUuid(id)) return undefined;
+  const result = await query(
+    'SELECT * FROM pdf_files WHERE id = $1 AND ($2::uuid IS NULL OR owner_id = $2) AND deleted_at IS NOT NULL',
+    [id, scopeOwnerId(user)]
+  );
+  return result.rows[0];
+};
+
+// Referencia o blob e, se o conteúdo é inédito, envia o temporário ao storage.
+// O envio acontece antes do commit: a linha do blob segura outros uploads do mesmo conteúdo.
+const storeBlob = async (client: PoolClient, hash: string, file: NewPdfFile | VersionUpload) => {
+  const blob = await acquireBlob(client, hash, file);
+  if (blob.inserted) {
+    await storage.put(blob.file_path, file.filePath);
+  }
+  return blob;
+};
+
+const insertVersion = async (
+  client: PoolClient,
+  fileId: string,
+  versionNumber: number,
+  file: NewPdfFile | VersionUpload,
+  blob: any,
+  hash: string,
+  content: AnalyzedContent
+): Promise<void> => {
+  await client.query(
+    `INSERT INTO pdf_file_versions
+     (file_id, version_number, original_name, file_name, file_path, file_size, mime_type, content_hash, content_text,
+      ${METADATA_COLUMNS.join(', ')})
+     VALUES (${placeholders(1, 9 + METADATA_COLUMNS.length)})`,
+    [fileId, versionNumber, file.originalName, blob.file_name, blob.file_path, file.fileSize, file.mimeType, hash,
+      content.contentText, ...metadataValues(content.metadata)]
+  );
+};
+
+interface AnalyzedContent {
+  contentText: string;
+  metadata: PdfMetadataFields;
+}
+
+// Texto, metadados e miniatura do upload; reaproveitados quando o conteúdo já existe
+const analyzeContent = async (
+  filePath: string,
+  hash: string,
+  existing: ExistingContent
+): Promise<AnalyzedContent> => {
+  const contentText = existing.contentText ?? await safeExtractPdfText(filePath);
+  const metadata = existing.metadata ?? await safeExtractPdfMetadata(filePath);
+  if (!existing.metadata) {
+    await safeCreateThumbnail(filePath, hash);
+  }
+  return { contentText, metadata };
+};
+
+const insertPdfFile = async (client: PoolClient, fileId: string, file: NewPdfFile, hash: string, content: AnalyzedContent) => {
+  const blob = await storeBlob(client, hash, file);
+  const result = await client.query(
+    `INSERT INTO pdf_files
+     (id, custom_name, original_name, file_name, file_path, file_size, mime_type, content_text, content_hash, owner_id,
+      folder_id, description, document_date, reference_number, properties, ${METADATA_COLUMNS.join(', ')})
+     VALUES (${placeholders(1, 15 + METADATA_COLUMNS.length)})
+     RETURNING ${FILE_COLUMNS}`,
+    [fileId, file.customName, file.originalName, blob.file_name, blob.file_path, file.fileSize, file.mimeType,
+      content.contentText, hash, file.ownerId, file.folderId || null, file.details?.description ?? null,
+      file.details?.documentDate ?? null, file.details?.referenceNumber ?? null,
+      JSON.stringify(file.details?.properties || {}), ...metadataValues(content.metadata)]
+  );
+  await insertVersion(client, fileId, 1, file, blob, hash, content);
+  const tags = file.ownerId && file.tags?.length ? await setFileTags(client, fileId, file.ownerId, file.tags) : [];
+  for (const [position, source] of (file.sources || []).entries()) {
+    await client.query(
+      `INSERT INTO pdf_file_sources (file_id, position, source_file_id, source_version, source_name, operation, pages)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [fileId, position, source.fileId, source.version, source.name, source.operation, source.pages]
+    );
+  }
+  return { row: result.rows[0], blob, tags };
+};
+
+interface PreparedFile {
+  file: NewPdfFile;
+  fileId: string;
+  hash: string;
+  existing: ExistingContent;
+  content: AnalyzedContent;
+}
+
+export interface CreateOptions {
+  // Confere a cota do dono na mesma transação que grava (lança QuotaExceededError)
+  enforceQuota?: boolean;
+}
+
+/**
+ * Registra PDFs recebidos em arquivos temporários: extrai o texto para a
+ * busca, envia o conteúdo ao storage e insere os registros em pdf_files
+ * com a versão 1, todos em uma transação (entram todos ou nenhum). Se o
+ * conteúdo já existe, o temporário é descartado e o registro aponta para
+ * o blob existente. Os arquivos de um mesmo envio são do mesmo dono.
+ */
+export async function createPdfFiles(files: NewPdfFile[], options: CreateOptions = {}): Promise<UploadedFile[]> {
+  try {
+    const prepared: PreparedFile[] = [];
+    for (const file of files) {
+      const hash = await computeFileHash(file.filePath);
+      const existing = await findExistingContent(hash, file.ownerId);
+      const content = await analyzeContent(file.filePath, hash, existing);
+      prepared.push({ file, fileId: uuidv4(), hash, existing, content });
+    }
+
+    const inserted = await withTransaction(async client => {
+      if (options.enforceQuota && files.length > 0) {
+        await reserveQuota(client, files[0].ownerId, {
+          files: files.length,
+          bytes: files.reduce((total, file) => total + file.fileSize, 0)
+        });
+      }
+      const rows = [];
+      for (const item of prepared) {
+        rows.push(await insertPdfFile(client, item.fileId, item.file, item.hash, item.content));
+      }
+      return rows;
+    });
+
+    // Conteúdo repetido dentro do mesmo envio também conta como duplicado
+    const earlier = new Map<string, { id: string; custom_name: string }>();
+    return prepared.map(({ file, hash, existing }, index) => {
+      const { row, blob, tags } = inserted[index];
+      if (!blob.inserted) {
+        removeTempFile(file.filePath);
+      }
+
+      const original = existing.sameOwnerFile || earlier.get(hash);
+      if (!earlier.has(hash)) earlier.set(hash, row);
+      return {
+        ...toUploadedFile(row),
+        tags,
+        duplicate: Boolean(original),
+        duplicateOf: original ? { id: original.id, customName: original.custom_name } : undefined
+      };
+    });
+  } catch (error) {
+    files.forEach(file => removeTempFile(file.filePath));
+    throw error;
+  }
+}
+
+export const createPdfFile = async (file: NewPdfFile, options: CreateOptions = {}): Promise<UploadedFile> =>
+  (await createPdfFiles([file], options))[0];
+
+/**
+ * Envia uma nova revisão de um documento existente, mantendo o mesmo id.
+ * Retorna null se o documento não existe.
+ */
+export async function addPdfFileVersion(
+  fileId: string,
+  file: VersionUpload,
+  options: CreateOptions = {}
+): Promise<UploadedFile | null> {
+  const hash = await computeFileHash(file.filePath);
+  const existing = await findExistingContent(hash, null);
+  const content = await analyzeContent(file.filePath, hash, existing);
+
+  try {
+    const result = await withTransaction(async client => {
+      // A versão conta na cota do dono do documento. A cota é travada antes do documento,
+      // na mesma ordem de createPdfFiles (que trava as origens ao registrar pdf_file_sources)
+      if (options.enforceQuota) {
+        const owner = await client.query('SELECT owner_id FROM pdf_files WHERE id = $1', [fileId]);
+        if (owner.rows.length === 0) return null;
+        await reserveQuota(client, owner.rows[0].owner_id, { files: 0, bytes: file.fileSize });
+      }
+
+      // Trava o documento para numerar as versões sem corrida
+      const current = await client.query('SELECT version_count FROM pdf_files WHERE id = $1 FOR UPDATE', [fileId]);
+      if (current.rows.length === 0) return null;
+
+      const versionNumber = current.rows[0].version_count + 1;
+      const blob = await storeBlob(client, hash, file);
+      await insertVersion(client, fileId, versionNumber, file, blob, hash, content);
+
+      const updated = await client.query(
+        `UPDATE pdf_files
+         SET original_name = $2, file_name = $3, file_path = $4, file_size = $5, mime_type = $6,
+             content_text = $7, content_hash = $8, current_version = $9, version_count = $9,
+             ${METADATA_COLUMNS.map((column, index) => `${column} = $${10 + index}`).join(', ')},
+             storage_issue = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING ${FILE_COLUMNS}`,
+        [fileId, file.originalName, blob.file_name, blob.file_path, file.fileSize, file.mimeType,
+          content.contentText, hash, versionNumber, ...metadataValues(content.metadata)]
+      );
+      return { row: updated.rows[0], blob };
+    });
+
+    if (!result || !result.blob.inserted) {
+      removeTempFile(file.filePath);
+    }
+    return result && (await attachTags([toUploadedFile(result.row)]))[0];
+  } catch (error) {
+    removeTempFile(file.filePath);
+    throw error;
+  }
+}
+
+/**
+ * Torna uma versão anterior a atual. O histórico não muda; apenas o
+ * conteúdo servido em /api/download/:id passa a ser o dessa versão.
+ */
+export async function promotePdfFileVersion(fileId: string, versionNumber: number): Promise<UploadedFile | null> {
+  const result = await query(
+    `UPDATE pdf_files f
+     SET original_name = v.original_name, file_name = v.file_name, file_path = v.file_path,
+         file_size = v.file_size, mime_type = v.mime_type, content_text = v.content_text,
+         content_hash = v.content_hash, current_version = v.version_number,
+         ${METADATA_COLUMNS.map(column => `${column} = v.${column}`).join(', ')},
+         storage_issue = NULL, updated_at = CURRENT_TIMESTAMP
+     FROM pdf_file_versions v
+     WHERE f.id = $1 AND v.file_id = f.id AND v.version_number = $2
+     RETURNING f.id`,
+    [fileId, versionNumber]
+  );
+  if (result.rows.length === 0) return null;
+
+  const updated = await query(`SELECT ${FILE_COLUMNS} FROM pdf_files WHERE id = $1`, [fileId]);
+  return (await attachTags([toUploadedFile(updated.rows[0])]))[0];
+}
+
+/**
+ * Remove o registro com todas as versões e, para cada conteúdo cuja última
+ * referência era deste documento, o objeto no storage e suas
+ * pré-visualizações. Versões antigas sem hash têm objeto exclusivo.
+ */
+export async function deletePdfFile(file: any): Promise<void> {
+  const orphanKeys = await withTransaction(async client => {
+    const versions = await client.query(
+      'SELECT content_hash, file_path, page_count FROM pdf_file_versions WHERE file_id = $1',
+      [file.id]
+    );
+    await client.query('DELETE FROM pdf_files WHERE id = $1', [file.id]);
+
+    const keys: string[] = [];
+    for (const version of versions.rows) {
+      const key = version.content_hash ? await releaseBlob(client, version.content_hash) : version.file_path;
+      if (key) keys.push(key, ...previewKeys(previewContentKey(version), version.page_count));
+    }
+    return keys;
+  });
+
+  for (const key of orphanKeys) {
+    await storage.delete(key);
+  }
+}
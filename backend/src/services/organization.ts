@@ -0,0 +1,114 @@
+import { PoolClient } from 'pg';
+
+import { query } from '../database/config';
+import { Folder, Tag, UploadedFile } from '../types';
+
+const MAX_TAG_LENGTH = 50;
+const MAX_TAGS_PER_FILE = 20;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isUuid = (value: unknown): value is string => typeof value === 'string' && UUID_PATTERN.test(value);
+
+export const toFolder = (folder: any): Folder => ({
+  id: folder.id,
+  name: folder.name,
+  parentId: folder.parent_id,
+  fileCount: parseInt(folder.file_count || '0')
+});
+
+export const toTag = (tag: any): Tag => ({
+  id: tag.id,
+  name: tag.name,
+  color: tag.color,
+  ...(tag.file_count !== undefined && { fileCount: parseInt(tag.file_count) })
+});
+
+/**
+ * Normaliza a lista de tags recebida (array ou JSON, como em customNames):
+ * remove vazias e repetidas. Retorna null se o formato ou os limites são inválidos.
+ */
+export const parseTagNames = (input: unknown): string[] | null => {
+  let value = input;
+  if (value === undefined || value === null || value === '') return [];
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return null;
+
+  const names = new Map<string, string>();
+  for (const item of value as string[]) {
+    const name = item.trim();
+    if (!name) continue;
+    if (name.length > MAX_TAG_LENGTH) return null;
+    if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+  }
+  return names.size > MAX_TAGS_PER_FILE ? null : [...names.values()];
+};
+
+// Pasta do usuário (ou null se não existe / é de outro usuário)
+export const findOwnedFolder = async (ownerId: string, folderId: string) => {
+  if (!isUuid(folderId)) return null;
+  const result = await query('SELECT * FROM folders WHERE id = $1 AND owner_id = $2', [folderId, ownerId]);
+  return result.rows[0] || null;
+};
+
+/**
+ * Substitui as tags do documento, criando as que o dono ainda não tem.
+ * Os nomes não diferenciam maiúsculas de minúsculas.
+ */
+export const setFileTags = async (
+  client: PoolClient,
+  fileId: string,
+  ownerId: string,
+  names: string[]
+): Promise<Tag[]> => {
+  await client.query('DELETE FROM pdf_file_tags WHERE file_id = $1', [fileId]);
+  if (names.length === 0) return [];
+
+  const result = await client.query(
+    `INSERT INTO tags (owner_id, name)
+     SELECT $1, unnest($2::text[])
+     ON CONFLICT (owner_id, lower(name)) DO UPDATE SET name = tags.name
+     RETURNING *`,
+    [ownerId, names]
+  );
+  await client.query(
+    'INSERT INTO pdf_file_tags (file_id, tag_id) SELECT $1, unnest($2::uuid[])',
+    [fileId, result.rows.map(tag => tag.id)]
+  );
+
+  return result.rows.map(toTag).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Nomes das tags atuais do documento, para acrescentar ou remover sobre eles
+export const getFileTagNames = async (client: PoolClient, fileId: string): Promise<string[]> => {
+  const result = await client.query(
+    'SELECT t.name FROM pdf_file_tags ft JOIN tags t ON t.id = ft.tag_id WHERE ft.file_id = $1',
+    [fileId]
+  );
+  return result.rows.map(row => row.name);
+};
+
+// Preenche as tags de uma lista de documentos com uma única consulta
+export const attachTags = async (files: UploadedFile[]): Promise<UploadedFile[]> => {
+  if (files.length === 0) return files;
+
+  const result = await query(
+    `SELECT ft.file_id, t.id, t.name, t.color
+     FROM pdf_file_tags ft JOIN tags t ON t.id = ft.tag_id
+     WHERE ft.file_id = ANY($1::uuid[])
+     ORDER BY lower(t.name)`,
+    [files.map(file => file.id)]
+  );
+
+  const byFile = new Map<string, Tag[]>();
+  for (const row of result.rows) {
+    byFile.set(row.file_id, [...(byFile.get(row.file_id) || []), toTag(row)]);
+  }
+  return files.map(file => ({ ...file, tags: byFile.get(file.id) || [] }));
+};
@@ -0,0 +1,31 @@
+import { createCanvas, DOMMatrix, ImageData, Path2D } from '@napi-rs/canvas';
+
+// O pdf.js (build legacy) procura essas classes do DOM ao ser carregado e,
+// no Node, tenta o pacote "canvas". Este módulo deve ser importado antes dele.
+const globals = globalThis as any;
+globals.DOMMatrix ??= DOMMatrix;
+globals.ImageData ??= ImageData;
+globals.Path2D ??= Path2D;
+
+export interface CanvasEntry {
+  canvas: any;
+  context: any;
+}
+
+// Fábrica de canvas no formato esperado pelo pdf.js
+export const canvasFactory = {
+  create(width: number, height: number): CanvasEntry {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset(entry: CanvasEntry, width: number, height: number): void {
+    entry.canvas.width = width;
+    entry.canvas.height = height;
+  },
+  destroy(entry: CanvasEntry): void {
+    entry.canvas.width = 0;
+    entry.canvas.height = 0;
+    entry.canvas = null;
+    entry.context = null;
+  }
+};
@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+
+import { canvasFactory } from './pdfCanvas';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf';
+
+const STANDARD_FONTS_DIR = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+/**
+ * Abre um PDF local com as opções usadas em todo o backend: sem eval,
+ * fontes padrão do próprio pacote e canvas do @napi-rs/canvas.
+ */
+export async function openPdfDocument(filePath: string): Promise<pdfjsLib.PDFDocumentProxy> {
+  const data = new Uint8Array(await fs.promises.readFile(filePath));
+  return pdfjsLib.getDocument({
+    data,
+    isEvalSupported: false,
+    useSystemFonts: true,
+    standardFontDataUrl: STANDARD_FONTS_DIR,
+    canvasFactory,
+    verbosity: 0
+  }).promise;
+}
@@ -0,0 +1,85 @@
+import { openPdfDocument } from './pdfDocument';
+import { PDFDateString } from 'pdfjs-dist/legacy/build/pdf';
+
+export interface PdfMetadataFields {
+  pageCount: number | null;
+  pdfVersion: string | null;
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  producer: string | null;
+  creationDate: Date | null;
+  encrypted: boolean;
+  signed: boolean;
+  hasForms: boolean;
+}
+
+const EMPTY_METADATA: PdfMetadataFields = {
+  pageCount: null,
+  pdfVersion: null,
+  title: null,
+  author: null,
+  subject: null,
+  producer: null,
+  creationDate: null,
+  encrypted: false,
+  signed: false,
+  hasForms: false
+};
+
+// Campos do dicionário Info vêm como texto livre; o NUL não é aceito pelo PostgreSQL
+const infoText = (value: unknown, maxLength = 500): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.replace(/\u0000/g, '').trim();
+  return text ? text.slice(0, maxLength) : null;
+};
+
+// Datas no formato do PDF (D:AAAAMMDDHHmmSS+HH'mm'); inválidas viram null
+const parseInfoDate = (value: unknown): Date | null => {
+  const date = typeof value === 'string' ? PDFDateString.toDateObject(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+/**
+ * Lê o dicionário de informações e as características do PDF. Um documento
+ * protegido por senha de abertura não pode ser lido: só é marcado como criptografado.
+ */
+export async function extractPdfMetadata(filePath: string): Promise<PdfMetadataFields> {
+  let doc;
+  try {
+    doc = await openPdfDocument(filePath);
+  } catch (error: any) {
+    if (error.name === 'PasswordException') {
+      return { ...EMPTY_METADATA, encrypted: true };
+    }
+    throw error;
+  }
+
+  try {
+    const { info } = await doc.getMetadata() as { info: Record<string, any> };
+    return {
+      pageCount: doc.numPages,
+      pdfVersion: infoText(info.PDFFormatVersion, 10),
+      title: infoText(info.Title),
+      author: infoText(info.Author),
+      subject: infoText(info.Subject),
+      producer: infoText(info.Producer),
+      creationDate: parseInfoDate(info.CreationDate),
+      encrypted: Boolean(info.EncryptFilterName),
+      signed: Boolean(info.IsSignaturesPresent),
+      hasForms: Boolean(info.IsAcroFormPresent || info.IsXFAPresent)
+    };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+// Falha na leitura não impede o upload; o arquivo fica sem metadados
+export async function safeExtractPdfMetadata(filePath: string): Promise<PdfMetadataFields> {
+  try {
+    return await extractPdfMetadata(filePath);
+  } catch (error: any) {
+    console.error(`Erro ao ler metadados de ${filePath}:`, error.message);
+    return EMPTY_METADATA;
+  }
+}
@@ -0,0 +1,51 @@
+import { openPdfDocument } from './pdfDocument';
+
+// Limite de texto indexado por documento (tsvector suporta no máximo 1MB)
+const MAX_INDEXED_CHARS = parseInt(process.env.MAX_INDEXED_CHARS || '500000');
+
+/**
+ * Extrai o texto de todas as páginas de um PDF para a busca full-text.
+ * Retorna string vazia quando o PDF não tem camada de texto (ex.: digitalizado).
+ */
+export async function extractPdfText(filePath: string): Promise<string> {
+  const doc = await openPdfDocument(filePath);
+
+  try {
+    const pages: string[] = [];
+    let length = 0;
+
+    for (let pageNum = 1; pageNum <= doc.numPages && length < MAX_INDEXED_CHARS; pageNum++) {
+      const page = await doc.getPage(pageNum);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str : ''))
+        .join(' ');
+      pages.push(text);
+      length += text.length;
+      page.cleanup();
+    }
+
+    // O PostgreSQL não aceita o caractere NUL em colunas de texto
+    return pages
+      .join('\n')
+      .replace(/\u0000/g, '')
+      .replace(/[ \t]+/g, ' ')
+      .slice(0, MAX_INDEXED_CHARS)
+      .trim();
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/**
+ * Versão tolerante a falhas usada no upload: um PDF ilegível não deve
+ * impedir o armazenamento do arquivo, apenas fica fora da busca por conteúdo.
+ */
+export async function safeExtractPdfText(filePath: string): Promise<string> {
+  try {
+    return await extractPdfText(filePath);
+  } catch (error: any) {
+    console.error(`Erro ao extrair texto de ${filePath}:`, error.message);
+    return '';
+  }
+}
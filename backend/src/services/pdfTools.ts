@@ -0,0 +1,153 @@
+import fs from 'fs';
+import { PDFDocument, degrees } from 'pdf-lib';
+
+import { query } from '../database/config';
+import { createTempPath, withLocalFile } from '../storage';
+import { scopeOwnerId } from '../middleware/auth';
+import { NewPdfFile, createPdfFiles, generateFileName } from './files';
+import { AuthUser, FileSource, UploadedFile } from '../types';
+
+export type PageOperation = FileSource['operation'];
+
+// Uma página do resultado: qual documento, qual página (1-based) e rotação extra
+export interface PageRef {
+  fileId: string;
+  page: number;
+  rotate?: number;
+}
+
+export interface DerivedSource {
+  fileId: string;
+  version: number;
+  name: string;
+  pages: number[];
+  operation: PageOperation;
+}
+
+export const MAX_OUTPUT_PAGES = 2000;
+
+export const isValidRotation = (angle: unknown): angle is number =>
+  typeof angle === 'number' && Number.isInteger(angle) && angle % 90 === 0;
+
+/**
+ * Intervalos no formato "1-3, 5, 8-" (o último vai até o fim). Cada
+ * intervalo vira uma lista de páginas; retorna null se algum é inválido.
+ */
+export const parsePageRanges = (input: unknown, pageCount: number): number[][] | null => {
+  if (typeof input !== 'string' || !input.trim()) return null;
+
+  const ranges: number[][] = [];
+  for (const part of input.split(',')) {
+    const match = /^\s*(\d+)\s*(?:(-)\s*(\d*)\s*)?$/.exec(part);
+    if (!match) return null;
+
+    const start = parseInt(match[1]);
+    const end = match[2] ? (match[3] ? parseInt(match[3]) : pageCount) : start;
+    // As duas pontas dentro do documento; "10-" ou "3-0" não viram listas enormes nem páginas inexistentes
+    if (start < 1 || start > pageCount || end < 1 || end > pageCount) return null;
+
+    // "5-3" lista as páginas em ordem decrescente
+    const step = end >= start ? 1 : -1;
+    const pages: number[] = [];
+    for (let page = start; page !== end + step; page += step) pages.push(page);
+    ranges.push(pages);
+  }
+  return ranges;
+};
+
+/**
+ * Documentos de origem visíveis ao usuário, por id. Garante o número de
+ * páginas mesmo para documentos cuja contagem ainda não foi gravada.
+ */
+export async function findSourceFiles(user: AuthUser, ids: string[]): Promise<Map<string, any>> {
+  const result = await query(
+    `SELECT id, custom_name, file_path, current_version, page_count, is_encrypted, owner_id, folder_id
+     FROM pdf_files
+     WHERE id = ANY($1::uuid[]) AND ($2::uuid IS NULL OR owner_id = $2) AND deleted_at IS NULL`,
+    [ids, scopeOwnerId(user)]
+  );
+
+  for (const file of result.rows) {
+    if (file.page_count === null && !file.is_encrypted) {
+      file.page_count = await withLocalFile(file.file_path, async filePath =>
+        (await PDFDocument.load(await fs.promises.readFile(filePath))).getPageCount()
+      );
+    }
+  }
+  return new Map(result.rows.map(file => [file.id, file]));
+}
+
+// Agrupa as páginas por documento de origem, na ordem em que aparecem
+const summarizeSources = (pages: PageRef[], sources: Map<string, any>, operation: PageOperation): DerivedSource[] => {
+  const bySource = new Map<string, DerivedSource>();
+  for (const ref of pages) {
+    const file = sources.get(ref.fileId);
+    const entry: DerivedSource = bySource.get(ref.fileId) ||
+      { fileId: file.id, version: file.current_version, name: file.custom_name, pages: [], operation };
+    entry.pages.push(ref.page);
+    bySource.set(ref.fileId, entry);
+  }
+  return [...bySource.values()];
+};
+
+// Monta o PDF com as páginas pedidas e grava em um arquivo temporário
+export const buildDocument = async (pages: PageRef[], sources: Map<string, any>): Promise<string> => {
+  const output = await PDFDocument.create();
+  const loaded = new Map<string, PDFDocument>();
+
+  for (const fileId of new Set(pages.map(ref => ref.fileId))) {
+    const file = sources.get(fileId);
+    const bytes = await withLocalFile(file.file_path, filePath => fs.promises.readFile(filePath));
+    loaded.set(fileId, await PDFDocument.load(bytes));
+  }
+
+  for (const ref of pages) {
+    const [page] = await output.copyPages(loaded.get(ref.fileId)!, [ref.page - 1]);
+    if (ref.rotate) {
+      page.setRotation(degrees((page.getRotation().angle + ref.rotate) % 360));
+    }
+    output.addPage(page);
+  }
+
+  const tempPath = createTempPath('derived.pdf');
+  await fs.promises.writeFile(tempPath, await output.save());
+  return tempPath;
+};
+
+export interface DerivedOutput {
+  name: string;
+  // Arquivo montado por buildDocument
+  filePath: string;
+  pages: PageRef[];
+}
+
+/**
+ * Registra os documentos montados por buildDocument como um upload do
+ * usuário, com a origem de cada página, conferindo a cota na mesma
+ * transação (lança QuotaExceededError). Cada resultado fica na pasta do
+ * primeiro documento de origem, se for do usuário.
+ */
+export async function createDerivedFiles(
+  user: AuthUser,
+  outputs: DerivedOutput[],
+  sources: Map<string, any>,
+  operation: PageOperation
+): Promise<UploadedFile[]> {
+  const files: NewPdfFile[] = [];
+  for (const { name, filePath, pages } of outputs) {
+    const firstSource = sources.get(pages[0].fileId);
+    const originalName = `${name}.pdf`;
+    files.push({
+      customName: name,
+      originalName,
+      fileName: generateFileName(originalName),
+      filePath,
+      fileSize: (await fs.promises.stat(filePath)).size,
+      mimeType: 'application/pdf',
+      ownerId: user.id,
+      folderId: firstSource.owner_id === user.id ? firstSource.folder_id : null,
+      sources: summarizeSources(pages, sources, operation)
+    });
+  }
+  return createPdfFiles(files, { enforceQuota: true });
+}
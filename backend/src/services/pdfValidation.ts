@@ -0,0 +1,115 @@
+import fs from 'fs';
+
+import { openPdfDocument } from './pdfDocument';
+
+export type PdfRejectionCode = 'not_pdf' | 'truncated' | 'corrupt' | 'javascript' | 'embedded_files';
+
+export interface PdfValidationResult {
+  valid: boolean;
+  code?: PdfRejectionCode;
+  reason?: string;
+}
+
+const REASONS: Record<PdfRejectionCode, string> = {
+  not_pdf: 'O arquivo não é um PDF (assinatura %PDF- ausente)',
+  truncated: 'O PDF está incompleto (marcador %%EOF ausente no final)',
+  corrupt: 'A estrutura do PDF está corrompida',
+  javascript: 'O PDF contém JavaScript',
+  embedded_files: 'O PDF contém arquivos embutidos'
+};
+
+const reject = (code: PdfRejectionCode): PdfValidationResult => ({ valid: false, code, reason: REASONS[code] });
+
+// A especificação tolera lixo antes do cabeçalho e depois do %%EOF, até 1 KB
+const MARKER_WINDOW = 1024;
+
+// Nomes procurados nos bytes brutos (objetos não comprimidos)
+const JAVASCRIPT_PATTERN = /\/(JavaScript|JS)(?![A-Za-z0-9])/;
+const EMBEDDED_FILE_PATTERN = /\/EmbeddedFiles?(?![A-Za-z0-9])/;
+
+const readRange = async (filePath: string, start: number, length: number): Promise<string> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, start);
+    return buffer.subarray(0, bytesRead).toString('latin1');
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Procura os padrões no arquivo inteiro, em blocos. Um trecho do fim de
+ * cada bloco é mantido para não perder nomes divididos entre dois blocos.
+ */
+const scanRawBytes = (filePath: string) =>
+  new Promise<{ javascript: boolean; embeddedFiles: boolean }>((resolve, reject) => {
+    const found = { javascript: false, embeddedFiles: false };
+    let tail = '';
+
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => {
+        const text = tail + (chunk as Buffer).toString('latin1');
+        found.javascript ||= JAVASCRIPT_PATTERN.test(text);
+        found.embeddedFiles ||= EMBEDDED_FILE_PATTERN.test(text);
+        tail = text.slice(-32);
+      })
+      .on('end', () => resolve(found));
+  });
+
+/**
+ * Abre a estrutura com o pdf.js, que também enxerga o que está em object
+ * streams comprimidos. PDFs protegidos por senha não podem ser abertos e
+ * ficam só com a verificação dos bytes brutos.
+ */
+const inspectStructure = async (filePath: string): Promise<PdfRejectionCode | null> => {
+  let document;
+  try {
+    document = await openPdfDocument(filePath);
+  } catch (error: any) {
+    return error?.name === 'PasswordException' ? null : 'corrupt';
+  }
+
+  try {
+    if (document.numPages < 1) return 'corrupt';
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      if (await page.getJSActions()) return 'javascript';
+    }
+
+    if (await document.getJSActions()) return 'javascript';
+    const attachments = await document.getAttachments();
+    if (attachments && Object.keys(attachments).length > 0) return 'embedded_files';
+
+    return null;
+  } catch {
+    return 'corrupt';
+  } finally {
+    await document.destroy();
+  }
+};
+
+/**
+ * Confere o conteúdo real do arquivo, sem confiar no mimetype informado
+ * pelo cliente: assinatura, fim do arquivo, estrutura interna e a presença
+ * de JavaScript ou arquivos embutidos.
+ */
+export async function validatePdf(filePath: string): Promise<PdfValidationResult> {
+  const { size } = await fs.promises.stat(filePath);
+
+  if (!(await readRange(filePath, 0, MARKER_WINDOW)).includes('%PDF-')) {
+    return reject('not_pdf');
+  }
+  if (!(await readRange(filePath, Math.max(0, size - MARKER_WINDOW), MARKER_WINDOW)).includes('%%EOF')) {
+    return reject('truncated');
+  }
+
+  const raw = await scanRawBytes(filePath);
+  if (raw.javascript) return reject('javascript');
+  if (raw.embeddedFiles) return reject('embedded_files');
+
+  const problem = await inspectStructure(filePath);
+  return problem ? reject(problem) : { valid: true };
+}
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf';
+
+import { query } from '../database/config';
+import { storage, createTempPath, withLocalFile } from '../storage';
+import { THUMBNAIL_WIDTH, PAGE_RENDER_WIDTH } from '../config';
+import { canvasFactory } from './pdfCanvas';
+import { openPdfDocument } from './pdfDocument';
+
+export type PreviewTarget = 'thumbnail' | number;
+
+// As imagens derivam do conteúdo: documentos com o mesmo hash compartilham
+// as mesmas pré-visualizações. Arquivos antigos sem hash usam a própria chave.
+export const previewContentKey = (file: { content_hash: string | null; file_path: string }): string =>
+  file.content_hash || file.file_path;
+
+export const PREVIEW_PREFIX = 'previews/';
+
+export const previewKey = (contentKey: string, target: PreviewTarget): string =>
+  `${PREVIEW_PREFIX}${contentKey}/${target === 'thumbnail' ? 'thumbnail' : `page-${target}`}.png`;
+
+// Todas as imagens que podem existir para o conteúdo, para remoção junto com o blob
+export const previewKeys = (contentKey: string, pageCount: number | null): string[] => [
+  previewKey(contentKey, 'thumbnail'),
+  ...Array.from({ length: pageCount || 0 }, (_, index) => previewKey(contentKey, index + 1))
+];
+
+const renderToStorage = async (doc: PDFDocumentProxy, pageNumber: number, width: number, key: string): Promise<void> => {
+  const page = await doc.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+    const entry = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+    // Fundo branco: sem ele as áreas sem conteúdo ficam transparentes no PNG
+    entry.context.fillStyle = 'white';
+    entry.context.fillRect(0, 0, entry.canvas.width, entry.canvas.height);
+    await page.render({ canvasContext: entry.context, viewport }).promise;
+
+    const tempPath = createTempPath('preview.png');
+    try {
+      await fs.promises.writeFile(tempPath, await entry.canvas.encode('png'));
+      await storage.put(key, tempPath);
+    } finally {
+      canvasFactory.destroy(entry);
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  } finally {
+    page.cleanup();
+  }
+};
+
+/**
+ * Gera a miniatura da primeira página a partir do arquivo local recebido no upload.
+ */
+export async function createThumbnail(filePath: string, contentKey: string): Promise<void> {
+  const doc = await openPdfDocument(filePath);
+  try {
+    await renderToStorage(doc, 1, THUMBNAIL_WIDTH, previewKey(contentKey, 'thumbnail'));
+  } finally {
+    await doc.destroy();
+  }
+}
+
+// Um PDF que não renderiza não impede o upload; fica sem miniatura
+export async function safeCreateThumbnail(filePath: string, contentKey: string): Promise<boolean> {
+  try {
+    await createThumbnail(filePath, contentKey);
+    return true;
+  } catch (error: any) {
+    console.error(`Erro ao gerar miniatura de ${filePath}:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Garante a imagem pedida no storage, renderizando sob demanda (páginas do
+ * visualizador e miniaturas de arquivos antigos). Retorna null se a página
+ * não existe no documento.
+ */
+export async function ensurePreview(file: any, target: PreviewTarget): Promise<{ key: string; pageCount: number } | null> {
+  const contentKey = previewContentKey(file);
+  const key = previewKey(contentKey, target);
+
+  if (file.page_count) {
+    if (target !== 'thumbnail' && (target < 1 || target > file.page_count)) return null;
+    if (await storage.stat(key)) return { key, pageCount: file.page_count };
+  }
+
+  const pageCount = await withLocalFile(file.file_path, async filePath => {
+    const doc = await openPdfDocument(filePath);
+    try {
+      const pageNumber = target === 'thumbnail' ? 1 : target;
+      if (pageNumber < 1 || pageNumber > doc.numPages) return null;
+
+      await renderToStorage(doc, pageNumber, target === 'thumbnail' ? THUMBNAIL_WIDTH : PAGE_RENDER_WIDTH, key);
+      return doc.numPages;
+    } finally {
+      await doc.destroy();
+    }
+  });
+
+  if (pageCount === null) return null;
+
+  if (!file.page_count) {
+    await query(
+      'UPDATE pdf_files SET page_count = $1 WHERE file_path = $2 AND page_count IS NULL',
+      [pageCount, file.file_path]
+    );
+    await query(
+      'UPDATE pdf_file_versions SET page_count = $1 WHERE file_path = $2 AND page_count IS NULL',
+      [pageCount, file.file_path]
+    );
+  }
+
+  return { key, pageCount };
+}
@@ -0,0 +1,50 @@
+import { query } from '../database/config';
+import { storage } from '../storage';
+import { validatePdf } from './pdfValidation';
+import { formatFileSize } from '../utils/format';
+import { QuarantinedFile, RejectedFile } from '../types';
+
+// Prefixo das chaves no storage; nunca é servido pelas rotas de download
+export const QUARANTINE_PREFIX = 'quarantine/';
+
+export interface ScreenedUpload {
+  originalName: string;
+  fileName: string;
+  // Temporário recebido; é movido para a quarentena se reprovado
+  filePath: string;
+  fileSize: number;
+}
+
+export const toQuarantinedFile = (row: any): QuarantinedFile => ({
+  id: row.id,
+  originalName: row.original_name,
+  fileSize: formatFileSize(parseInt(row.file_size)),
+  reasonCode: row.reason_code,
+  reason: row.reason,
+  quarantinedAt: new Date(row.created_at).toLocaleString('pt-BR')
+});
+
+/**
+ * Valida o conteúdo do upload. Se reprovado, o arquivo vai para a
+ * quarentena com o motivo registrado e o retorno descreve a rejeição;
+ * se aprovado, retorna null e o temporário continua no lugar.
+ */
+export async function screenUpload(file: ScreenedUpload, ownerId: string | null): Promise<RejectedFile | null> {
+  const result = await validatePdf(file.filePath);
+  if (result.valid) return null;
+
+  const key = QUARANTINE_PREFIX + file.fileName;
+  await storage.put(key, file.filePath);
+  const inserted = await query(
+    `INSERT INTO quarantined_files (owner_id, original_name, storage_key, file_size, reason_code, reason)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+    [ownerId, file.originalName, key, file.fileSize, result.code, result.reason]
+  );
+
+  console.warn(`⚠️  Upload em quarentena: ${file.originalName} (${result.code})`);
+  return {
+    originalName: file.originalName,
+    reason: result.reason!,
+    quarantineId: inserted.rows[0].id
+  };
+}
@@ -0,0 +1,132 @@
+import { PoolClient, QueryResult } from 'pg';
+
+import { query } from '../database/config';
+import {
+  QUOTA_GLOBAL_BYTES,
+  QUOTA_GLOBAL_FILES,
+  QUOTA_OWNER_BYTES,
+  QUOTA_OWNER_FILES,
+  QUOTA_WARNING_PERCENT
+} from '../config';
+import { formatFileSize } from '../utils/format';
+import { OwnerQuota, QuotaUsage } from '../types';
+
+export interface QuotaRequest {
+  bytes: number;
+  files: number;
+}
+
+// Consultas pelo pool ou pelo cliente de uma transação
+type RunQuery = (text: string, params?: any[]) => Promise<QueryResult>;
+
+export class QuotaExceededError extends Error {}
+
+// Chave das travas de cota (pg_advisory_xact_lock); a segunda parte é o dono, ou 0 para a global
+const QUOTA_LOCK = 7301;
+
+const limitOrNull = (value: number | null): number | null => (value && value > 0 ? value : null);
+
+const toQuotaUsage = (usedBytes: number, usedFiles: number, maxBytes: number | null, maxFiles: number | null): QuotaUsage => {
+  const ratios = [
+    ...(maxBytes ? [usedBytes / maxBytes] : []),
+    ...(maxFiles ? [usedFiles / maxFiles] : [])
+  ];
+  const percent = ratios.length > 0 ? Math.round(Math.max(...ratios) * 100) : null;
+  return {
+    usedBytes,
+    usedFiles,
+    maxBytes,
+    maxFiles,
+    percent,
+    warning: percent !== null && percent >= QUOTA_WARNING_PERCENT
+  };
+};
+
+// Documentos do dono (inclusive na lixeira) e a soma de todas as suas versões
+const OWNER_USAGE_COLUMNS = `
+  (SELECT COUNT(*) FROM pdf_files f WHERE f.owner_id = u.id) AS used_files,
+  (SELECT COALESCE(SUM(v.file_size), 0) FROM pdf_file_versions v JOIN pdf_files f ON f.id = v.file_id
+   WHERE f.owner_id = u.id) AS used_bytes`;
+
+export const toOwnerQuota = (row: any): OwnerQuota => ({
+  userId: row.id,
+  email: row.email,
+  name: row.name,
+  customBytes: row.quota_bytes === null ? null : parseInt(row.quota_bytes),
+  customFiles: row.quota_files,
+  usage: toQuotaUsage(
+    parseInt(row.used_bytes),
+    parseInt(row.used_files),
+    limitOrNull(row.quota_bytes === null ? QUOTA_OWNER_BYTES : parseInt(row.quota_bytes)),
+    limitOrNull(row.quota_files === null ? QUOTA_OWNER_FILES : row.quota_files)
+  )
+});
+
+export async function listOwnerQuotas(userId?: string, run: RunQuery = query): Promise<OwnerQuota[]> {
+  const result = await run(
+    `SELECT u.id, u.email, u.name, u.quota_bytes, u.quota_files, ${OWNER_USAGE_COLUMNS}
+     FROM users u WHERE ($1::uuid IS NULL OR u.id = $1) ORDER BY u.email`,
+    [userId || null]
+  );
+  return result.rows.map(toOwnerQuota);
+}
+
+export const getOwnerUsage = async (ownerId: string, run: RunQuery = query): Promise<QuotaUsage | null> =>
+  (await listOwnerQuotas(ownerId, run))[0]?.usage || null;
+
+/**
+ * Uso do sistema todo. Os bytes são os do storage: conteúdo repetido
+ * (deduplicado) conta uma vez só.
+ */
+export async function getGlobalUsage(run: RunQuery = query): Promise<QuotaUsage> {
+  const result = await run(
+    `SELECT (SELECT COUNT(*) FROM pdf_files) AS used_files,
+            (SELECT COALESCE(SUM(file_size), 0) FROM pdf_blobs) AS used_bytes`
+  );
+  const row = result.rows[0];
+  return toQuotaUsage(parseInt(row.used_bytes), parseInt(row.used_files), limitOrNull(QUOTA_GLOBAL_BYTES), limitOrNull(QUOTA_GLOBAL_FILES));
+}
+
+const exceededMessage = (usage: QuotaUsage, incoming: QuotaRequest, scope: string): string | null => {
+  if (usage.maxFiles !== null && usage.usedFiles + incoming.files > usage.maxFiles) {
+    const remaining = Math.max(usage.maxFiles - usage.usedFiles, 0);
+    return `${scope}: limite de ${usage.maxFiles} arquivo(s); o envio tem ${incoming.files} e restam ${remaining}`;
+  }
+  if (usage.maxBytes !== null && usage.usedBytes + incoming.bytes > usage.maxBytes) {
+    const remaining = Math.max(usage.maxBytes - usage.usedBytes, 0);
+    return `${scope}: limite de ${formatFileSize(usage.maxBytes)}; o envio tem ${formatFileSize(incoming.bytes)} ` +
+      `e restam ${formatFileSize(remaining)}`;
+  }
+  return null;
+};
+
+/**
+ * Confere se o envio cabe na cota do dono (se houver) e na global. Retorna
+ * a mensagem de erro, ou null se cabe. O envio é tratado como um todo.
+ * Fora de uma transação com reserveQuota, serve só para recusar cedo.
+ */
+export async function checkQuota(ownerId: string | null, incoming: QuotaRequest, run: RunQuery = query): Promise<string | null> {
+  const owner = ownerId ? await getOwnerUsage(ownerId, run) : null;
+  return (owner && exceededMessage(owner, incoming, 'Cota excedida')) ||
+    exceededMessage(await getGlobalUsage(run), incoming, 'Armazenamento do sistema cheio');
+}
+
+/**
+ * Confere o envio na transação que grava os documentos, com a cota do dono
+ * (e a global, se limitada) travada até o commit: envios simultâneos
+ * esperam um pelo outro em vez de passarem juntos do limite. Lança
+ * QuotaExceededError se o envio não cabe.
+ */
+export async function reserveQuota(client: PoolClient, ownerId: string | null, incoming: QuotaRequest): Promise<void> {
+  if (ownerId) {
+    await client.query('SELECT pg_advisory_xact_lock($1, hashtext($2))', [QUOTA_LOCK, ownerId]);
+  }
+  if (limitOrNull(QUOTA_GLOBAL_BYTES) || limitOrNull(QUOTA_GLOBAL_FILES)) {
+    await client.query('SELECT pg_advisory_xact_lock($1, 0)', [QUOTA_LOCK]);
+  }
+
+  const error = await checkQuota(ownerId, incoming, (text, params) => client.query(text, params));
+  if (error) {
+    throw new QuotaExceededError(error);
+  }
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+
+import { query } from '../database/config';
+import { CHUNKS_DIR, RESUMABLE_UPLOAD_CLEANUP_INTERVAL_MINUTES, RESUMABLE_UPLOAD_EXPIRY_HOURS } from '../config';
+import { isUuid } from './organization';
+
+export const sessionDir = (id: string): string => path.join(CHUNKS_DIR, id);
+
+export const removeSessionDir = async (id: string): Promise<void> => {
+  await fs.promises.rm(sessionDir(id), { recursive: true, force: true });
+};
+
+/**
+ * Remove as sessões de upload retomável expiradas, com as partes recebidas,
+ * e os diretórios de partes sem sessão (ex.: de usuários excluídos) mais
+ * antigos que o prazo de expiração.
+ */
+export async function expireUploadSessions(): Promise<number> {
+  const result = await query('DELETE FROM upload_sessions WHERE expires_at < NOW() RETURNING id');
+  for (const session of result.rows) {
+    await removeSessionDir(session.id);
+  }
+
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(CHUNKS_DIR, { withFileTypes: true });
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return result.rows.length;
+    throw error;
+  }
+
+  const ids = entries.filter(entry => entry.isDirectory() && isUuid(entry.name)).map(entry => entry.name);
+  const existing = await query('SELECT id FROM upload_sessions WHERE id = ANY($1::uuid[])', [ids]);
+  const known = new Set(existing.rows.map(row => row.id));
+  const cutoff = Date.now() - RESUMABLE_UPLOAD_EXPIRY_HOURS * 60 * 60 * 1000;
+
+  let orphans = 0;
+  for (const id of ids.filter(candidate => !known.has(candidate))) {
+    const stats = await fs.promises.stat(sessionDir(id));
+    if (stats.mtimeMs < cutoff) {
+      await removeSessionDir(id);
+      orphans++;
+    }
+  }
+  return result.rows.length + orphans;
+}
+
+const runCleanup = async (): Promise<void> => {
+  try {
+    const removed = await expireUploadSessions();
+    if (removed > 0) {
+      console.log(`🧹 ${removed} upload(s) em partes expirado(s) removido(s)`);
+    }
+  } catch (error) {
+    console.error('Erro na limpeza dos uploads em partes:', error);
+  }
+};
+
+// Limpeza periódica; roda uma vez ao iniciar e depois a cada intervalo
+export const startUploadSessionCleanupJob = (): void => {
+  runCleanup();
+  setInterval(runCleanup, RESUMABLE_UPLOAD_CLEANUP_INTERVAL_MINUTES * 60 * 1000).unref();
+};
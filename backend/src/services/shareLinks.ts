@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+
+import { ShareLink } from '../types';
+
+// Token imprevisível usado na URL pública (/s/:token)
+export const generateShareToken = (): string => crypto.randomBytes(24).toString('base64url');
+
+export const isShareLinkActive = (link: any): boolean =>
+  !link.revoked_at &&
+  (!link.expires_at || new Date(link.expires_at) > new Date()) &&
+  (link.max_downloads === null || link.download_count < link.max_downloads);
+
+export const toShareLink = (link: any): ShareLink => ({
+  id: link.id,
+  token: link.token,
+  url: `/s/${link.token}`,
+  expiresAt: link.expires_at ? new Date(link.expires_at).toLocaleString('pt-BR') : null,
+  maxDownloads: link.max_downloads,
+  downloadCount: link.download_count,
+  hasPassword: Boolean(link.password_hash),
+  active: isShareLinkActive(link),
+  revoked: Boolean(link.revoked_at),
+  createdAt: new Date(link.created_at).toLocaleString('pt-BR')
+});
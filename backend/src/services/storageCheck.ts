@@ -0,0 +1,350 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
+import { query } from '../database/config';
+import { createTempPath, storage, withLocalFile } from '../storage';
+import { STORAGE_CHECK_MIN_AGE_MINUTES } from '../config';
+import { computeFileHash, createPdfFile, generateFileName, removeTempFile } from './files';
+import { PREVIEW_PREFIX } from './previews';
+import { QUARANTINE_PREFIX, screenUpload } from './quarantine';
+import { validatePdf } from './pdfValidation';
+import { formatFileSize } from '../utils/format';
+import {
+  StorageCheckReport,
+  StorageFinding,
+  StorageFindingKind,
+  StorageIssue,
+  StorageRepair,
+  StorageRepairAction
+} from '../types';
+
+export const STORAGE_REPAIR_ACTIONS: StorageRepairAction[] = ['adopt', 'markBroken', 'fixRefCounts', 'purge'];
+
+const STORAGE_ISSUES: StorageFindingKind[] = ['missing', 'size_mismatch', 'hash_mismatch'];
+
+export interface StorageCheckOptions {
+  // Recalcula o SHA-256 de cada blob (lê todo o conteúdo do storage)
+  verifyHashes?: boolean;
+  actions?: StorageRepairAction[];
+  // Lista o que as ações fariam, sem alterar banco nem storage
+  dryRun?: boolean;
+  // Dono dos documentos criados a partir de órfãos; null os deixa visíveis só para admins
+  adoptOwnerId?: string | null;
+}
+
+// Objeto que o banco espera encontrar no storage
+interface ExpectedObject {
+  key: string;
+  size: number;
+  // Só blobs deduplicados têm hash e contagem de referências
+  hash: string | null;
+  refCount: number | null;
+  usedBy: number;
+}
+
+const loadExpectedObjects = async (): Promise<ExpectedObject[]> => {
+  const blobs = await query(
+    `SELECT b.file_path, b.file_size, b.content_hash, b.ref_count,
+            (SELECT COUNT(*) FROM pdf_file_versions v WHERE v.content_hash = b.content_hash)::int AS used_by
+     FROM pdf_blobs b ORDER BY b.file_path`
+  );
+  // Documentos e versões anteriores à deduplicação apontam direto para o objeto
+  const legacy = await query(
+    `SELECT r.file_path, MAX(r.file_size) AS file_size, COUNT(*)::int AS used_by
+     FROM (SELECT file_path, file_size FROM pdf_files UNION ALL SELECT file_path, file_size FROM pdf_file_versions) r
+     WHERE NOT EXISTS (SELECT 1 FROM pdf_blobs b WHERE b.file_path = r.file_path)
+     GROUP BY r.file_path ORDER BY r.file_path`
+  );
+
+  return [
+    ...blobs.rows.map(row => ({
+      key: row.file_path,
+      size: parseInt(row.file_size),
+      hash: row.content_hash,
+      refCount: row.ref_count,
+      usedBy: row.used_by
+    })),
+    ...legacy.rows.map(row => ({
+      key: row.file_path,
+      size: parseInt(row.file_size),
+      hash: null,
+      refCount: null,
+      usedBy: row.used_by
+    }))
+  ];
+};
+
+// Documentos (inclusive na lixeira) agrupados pela chave do conteúdo atual
+const loadFilesByKey = async () => {
+  const result = await query('SELECT id, custom_name, file_path, storage_issue FROM pdf_files ORDER BY custom_name');
+  const byKey = new Map<string, { id: string; name: string; storageIssue: StorageIssue | null }[]>();
+  for (const row of result.rows) {
+    const files = byKey.get(row.file_path) || [];
+    files.push({ id: row.id, name: row.custom_name, storageIssue: row.storage_issue });
+    byKey.set(row.file_path, files);
+  }
+  return byKey;
+};
+
+// Confere de novo, logo antes de remover ou adotar, se a chave passou a ter registro
+const isReferenced = async (key: string): Promise<boolean> => {
+  const result = await query(
+    `SELECT EXISTS (SELECT 1 FROM pdf_blobs WHERE file_path = $1)
+         OR EXISTS (SELECT 1 FROM pdf_files WHERE file_path = $1)
+         OR EXISTS (SELECT 1 FROM pdf_file_versions WHERE file_path = $1)
+         OR EXISTS (SELECT 1 FROM quarantined_files WHERE storage_key = $1) AS referenced`,
+    [key]
+  );
+  return result.rows[0].referenced;
+};
+
+// Nome original recuperado da chave gerada no upload (pdf-<timestamp>-<aleatório>-<nome>)
+const nameFromKey = (key: string): string => path.basename(key).replace(/^pdf-\d+-\d+-/, '');
+
+/**
+ * Transforma um objeto órfão em documento pelo mesmo caminho de um upload:
+ * validação (reprovados vão para a quarentena), hash, deduplicação, texto e
+ * metadados. O objeto original é removido depois. Retorna a descrição do
+ * resultado; em simulação, apenas valida.
+ */
+const adoptOrphan = async (key: string, ownerId: string | null, dryRun: boolean): Promise<string> => {
+  const originalName = nameFromKey(key);
+  const tempPath = createTempPath(path.basename(key));
+
+  try {
+    await pipeline(await storage.createReadStream(key), fs.createWriteStream(tempPath));
+    const fileSize = (await fs.promises.stat(tempPath)).size;
+
+    if (dryRun) {
+      const validation = await validatePdf(tempPath);
+      return validation.valid
+        ? `Seria adotado como "${originalName}"`
+        : `Seria enviado à quarentena: ${validation.reason}`;
+    }
+
+    const fileName = generateFileName(originalName);
+    const rejected = await screenUpload({ originalName, fileName, filePath: tempPath, fileSize }, ownerId);
+    if (rejected) {
+      await storage.delete(key);
+      return `Enviado à quarentena: ${rejected.reason}`;
+    }
+
+    const file = await createPdfFile({
+      customName: originalName.replace(/\.pdf$/i, ''),
+      originalName,
+      fileName,
+      filePath: tempPath,
+      fileSize,
+      mimeType: 'application/pdf',
+      ownerId
+    });
+    await storage.delete(key);
+    return `Adotado como "${file.customName}" (${file.id})${file.duplicate ? ', conteúdo já existente' : ''}`;
+  } finally {
+    removeTempFile(tempPath);
+  }
+};
+
+/**
+ * Compara o banco com o storage: blobs e documentos cujo objeto falta ou
+ * não confere (tamanho e, com verifyHashes, SHA-256), contagens de
+ * referência erradas, registros de quarentena sem objeto e objetos sem
+ * registro. Pré-visualizações são derivadas e só contam como órfãs quando o
+ * conteúdo de origem não existe mais.
+ *
+ * As ações pedidas são aplicadas nesta ordem, cada uma só sobre o que a
+ * verificação encontrou:
+ * - fixRefCounts: recalcula ref_count dos blobs pelas versões que os usam;
+ * - markBroken: marca storage_issue nos documentos com conteúdo ausente ou
+ *   corrompido e remove a marca dos que voltaram a conferir;
+ * - adopt: cria documentos a partir dos PDFs órfãos;
+ * - purge: remove objetos órfãos não adotados, blobs sem uso e registros de
+ *   quarentena sem objeto.
+ */
+export async function checkStorage(options: StorageCheckOptions = {}): Promise<StorageCheckReport> {
+  const actions = new Set(options.actions || []);
+  const dryRun = Boolean(options.dryRun);
+  const verifyHashes = Boolean(options.verifyHashes);
+  const findings: StorageFinding[] = [];
+  const repairs: StorageRepair[] = [];
+
+  const expected = await loadExpectedObjects();
+  const filesByKey = await loadFilesByKey();
+  const quarantined = await query('SELECT storage_key FROM quarantined_files ORDER BY storage_key');
+
+  const find = (kind: StorageFindingKind, key: string, detail: string): StorageFinding => {
+    const files = filesByKey.get(key);
+    const finding: StorageFinding = {
+      kind,
+      key,
+      detail,
+      ...(files && STORAGE_ISSUES.includes(kind) && { files: files.map(({ id, name }) => ({ id, name })) })
+    };
+    findings.push(finding);
+    return finding;
+  };
+
+  for (const object of expected) {
+    const info = await storage.stat(object.key);
+    if (!info) {
+      find('missing', object.key, 'Objeto não encontrado no storage');
+    } else if (info.size !== object.size) {
+      find('size_mismatch', object.key, `Objeto com ${info.size} bytes; o banco registra ${object.size} bytes`);
+    } else if (verifyHashes && object.hash && (await withLocalFile(object.key, computeFileHash)) !== object.hash) {
+      find('hash_mismatch', object.key, 'Conteúdo diferente do SHA-256 registrado');
+    }
+
+    if (object.hash && object.usedBy === 0) {
+      find('unreferenced_blob', object.key, 'Blob sem nenhuma versão que o use');
+    } else if (object.refCount !== null && object.refCount !== object.usedBy) {
+      find('ref_count', object.key, `ref_count ${object.refCount}, mas usado por ${object.usedBy} versão(ões)`);
+    }
+  }
+
+  for (const { storage_key: key } of quarantined.rows) {
+    if (!(await storage.stat(key))) {
+      find('missing_quarantine', key, 'Registro de quarentena sem o objeto no storage');
+    }
+  }
+
+  // Chaves com registro e conteúdos cujas pré-visualizações ainda servem
+  const knownKeys = new Set<string>([...expected.map(object => object.key), ...quarantined.rows.map(row => row.storage_key)]);
+  const previewContents = new Set<string>(
+    expected.filter(object => !object.hash || object.usedBy > 0).map(object => object.hash || object.key)
+  );
+  const minModified = Date.now() - STORAGE_CHECK_MIN_AGE_MINUTES * 60 * 1000;
+  let objectsChecked = 0;
+  let recentObjectsSkipped = 0;
+
+  for await (const key of storage.list()) {
+    objectsChecked++;
+    if (knownKeys.has(key)) continue;
+
+    let kind: StorageFindingKind = 'orphan';
+    if (key.startsWith(PREVIEW_PREFIX)) {
+      const contentKey = key.slice(PREVIEW_PREFIX.length, key.lastIndexOf('/'));
+      if (previewContents.has(contentKey)) continue;
+      kind = 'orphan_preview';
+    } else if (key.startsWith(QUARANTINE_PREFIX)) {
+      kind = 'orphan_quarantine';
+    }
+
+    const info = await storage.stat(key);
+    if (!info) continue;
+    if (info.lastModified.getTime() > minModified) {
+      recentObjectsSkipped++;
+      continue;
+    }
+    find(kind, key, `Sem registro no banco (${formatFileSize(info.size)}, modificado em ${info.lastModified.toLocaleString('pt-BR')})`);
+  }
+
+  const repair = async (action: StorageRepairAction, key: string, apply: () => Promise<string | null>) => {
+    try {
+      const detail = await apply();
+      if (detail) repairs.push({ action, key, applied: !dryRun, detail });
+    } catch (error: any) {
+      console.error(`Erro ao reparar ${key} (${action}):`, error);
+      repairs.push({ action, key, applied: false, detail: `Falha: ${error.message}` });
+    }
+  };
+
+  if (actions.has('fixRefCounts')) {
+    for (const finding of findings.filter(item => item.kind === 'ref_count')) {
+      await repair('fixRefCounts', finding.key, async () => {
+        // Recontado na própria atualização, para não desfazer um upload concorrente
+        if (!dryRun) {
+          await query(
+            `UPDATE pdf_blobs b
+             SET ref_count = (SELECT COUNT(*) FROM pdf_file_versions v WHERE v.content_hash = b.content_hash)
+             WHERE file_path = $1`,
+            [finding.key]
+          );
+        }
+        return 'ref_count recalculado pelas versões';
+      });
+    }
+  }
+
+  if (actions.has('markBroken')) {
+    const brokenKeys = new Set<string>();
+    for (const finding of findings.filter(item => STORAGE_ISSUES.includes(item.kind) && item.files)) {
+      brokenKeys.add(finding.key);
+      await repair('markBroken', finding.key, async () => {
+        if (!dryRun) {
+          await query('UPDATE pdf_files SET storage_issue = $2 WHERE file_path = $1', [finding.key, finding.kind]);
+        }
+        return `${finding.files!.length} documento(s) marcado(s) como ${finding.kind}`;
+      });
+    }
+
+    // Só desmarca o que foi verificado nesta execução
+    for (const [key, files] of filesByKey) {
+      const cleared = files.filter(file =>
+        file.storageIssue && !brokenKeys.has(key) && (file.storageIssue !== 'hash_mismatch' || verifyHashes));
+      if (cleared.length === 0) continue;
+      await repair('markBroken', key, async () => {
+        if (!dryRun) {
+          await query('UPDATE pdf_files SET storage_issue = NULL WHERE file_path = $1', [key]);
+        }
+        return `Conteúdo voltou a conferir; marca removida de ${cleared.length} documento(s)`;
+      });
+    }
+  }
+
+  const adopted = new Set<string>();
+  if (actions.has('adopt')) {
+    for (const finding of findings.filter(item => item.kind === 'orphan')) {
+      await repair('adopt', finding.key, async () => {
+        if (await isReferenced(finding.key)) return null;
+        const detail = await adoptOrphan(finding.key, options.adoptOwnerId ?? null, dryRun);
+        adopted.add(finding.key);
+        return detail;
+      });
+    }
+  }
+
+  if (actions.has('purge')) {
+    for (const finding of findings) {
+      if (['orphan', 'orphan_preview', 'orphan_quarantine'].includes(finding.kind) && !adopted.has(finding.key)) {
+        await repair('purge', finding.key, async () => {
+          if (finding.kind !== 'orphan_preview' && (await isReferenced(finding.key))) return null;
+          if (!dryRun) await storage.delete(finding.key);
+          return 'Objeto sem registro removido do storage';
+        });
+      } else if (finding.kind === 'unreferenced_blob') {
+        await repair('purge', finding.key, async () => {
+          if (!dryRun) {
+            const deleted = await query(
+              `DELETE FROM pdf_blobs b WHERE file_path = $1
+               AND NOT EXISTS (SELECT 1 FROM pdf_file_versions v WHERE v.content_hash = b.content_hash)
+               RETURNING file_path`,
+              [finding.key]
+            );
+            if (deleted.rows.length === 0) return null;
+            await storage.delete(finding.key);
+          }
+          return 'Blob sem uso removido do banco e do storage';
+        });
+      } else if (finding.kind === 'missing_quarantine') {
+        await repair('purge', finding.key, async () => {
+          if (!dryRun) {
+            await query('DELETE FROM quarantined_files WHERE storage_key = $1', [finding.key]);
+          }
+          return 'Registro de quarentena removido';
+        });
+      }
+    }
+  }
+
+  return {
+    driver: storage.name,
+    checkedAt: new Date().toISOString(),
+    verifiedHashes: verifyHashes,
+    dryRun,
+    objectsChecked,
+    recentObjectsSkipped,
+    findings,
+    repairs
+  };
+}
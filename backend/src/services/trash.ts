@@ -0,0 +1,55 @@
+import { query } from '../database/config';
+import { TRASH_PURGE_INTERVAL_MINUTES, TRASH_RETENTION_DAYS } from '../config';
+import { deletePdfFile } from './files';
+import { recordAuditEvents } from './audit';
+
+export const moveToTrash = async (fileId: string): Promise<void> => {
+  await query('UPDATE pdf_files SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1', [fileId]);
+};
+
+export const restoreFromTrash = async (fileId: string): Promise<void> => {
+  await query('UPDATE pdf_files SET deleted_at = NULL WHERE id = $1', [fileId]);
+};
+
+/**
+ * Remove definitivamente os documentos na lixeira há mais de
+ * TRASH_RETENTION_DAYS. Falhas em um documento não interrompem os demais.
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const result = await query(
+    `SELECT id, custom_name FROM pdf_files
+     WHERE deleted_at IS NOT NULL AND deleted_at < NOW() - make_interval(days => $1)`,
+    [TRASH_RETENTION_DAYS]
+  );
+
+  let purged = 0;
+  for (const file of result.rows) {
+    try {
+      await deletePdfFile(file);
+      purged++;
+      await recordAuditEvents([
+        { fileId: file.id, fileName: file.custom_name, action: 'purge', result: 'success', details: { automatic: true } }
+      ]);
+    } catch (error) {
+      console.error(`Erro ao esvaziar documento ${file.id} da lixeira:`, error);
+    }
+  }
+  return purged;
+}
+
+const runPurge = async (): Promise<void> => {
+  try {
+    const purged = await purgeExpiredTrash();
+    if (purged > 0) {
+      console.log(`🗑️  ${purged} documento(s) removido(s) definitivamente da lixeira`);
+    }
+  } catch (error) {
+    console.error('Erro na limpeza da lixeira:', error);
+  }
+};
+
+// Limpeza periódica; roda uma vez ao iniciar e depois a cada intervalo
+export const startTrashPurgeJob = (): void => {
+  runPurge();
+  setInterval(runPurge, TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000).unref();
+};
@@ -0,0 +1,9 @@
+import bcrypt from 'bcryptjs';
+
+// Regras de cadastro, usadas pela rota de registro e pelo npm run user:admin
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const normalizeEmail = (email: unknown): string => String(email || '').trim().toLowerCase();
+
+export const hashPassword = (password: string): Promise<string> => bcrypt.hash(password, 10);
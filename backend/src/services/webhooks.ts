@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+
+import { query } from '../database/config';
+import {
+  WEBHOOK_ALLOW_PRIVATE_NETWORKS,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_POLL_INTERVAL_SECONDS,
+  WEBHOOK_RETRY_BASE_SECONDS,
+  WEBHOOK_TIMEOUT_MS
+} from '../config';
+import { FILE_COLUMNS, toUploadedFile } from './files';
+import { attachTags } from './organization';
+import type { AuditEntry } from './audit';
+import { signWebhookPayload } from '../utils/webhookSignature';
+import { PrivateAddressError, isPrivateHost, publicLookup } from '../utils/publicAddress';
+import { AuditAction, WebhookDelivery, WebhookEvent, WebhookSubscription } from '../types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'file.uploaded', 'file.downloaded', 'file.deleted', 'file.restored', 'file.version_uploaded', 'file.updated'
+];
+
+// Ações da auditoria que viram eventos; documentos gerados a partir de outros contam como upload
+const EVENT_BY_ACTION: Partial<Record<AuditAction, WebhookEvent>> = {
+  upload: 'file.uploaded',
+  merge: 'file.uploaded',
+  split: 'file.uploaded',
+  extract: 'file.uploaded',
+  rotate: 'file.uploaded',
+  compose: 'file.uploaded',
+  download: 'file.downloaded',
+  'share.download': 'file.downloaded',
+  delete: 'file.deleted',
+  restore: 'file.restored',
+  'version.upload': 'file.version_uploaded',
+  update: 'file.updated'
+};
+
+// Downloads em partes (Range) viram um único evento: o da parte que começa
+// no primeiro byte, como na contagem das estatísticas
+const isWebhookEvent = (entry: AuditEntry): boolean =>
+  entry.result === 'success' && !!entry.fileId && !!EVENT_BY_ACTION[entry.action] &&
+  (typeof entry.details?.range !== 'string' || entry.details.range.startsWith('bytes 0-'));
+
+const DELIVERY_BATCH_SIZE = 20;
+// Entregas em andamento ficam reservadas por esse tempo (se o processo cair, voltam para a fila)
+const DELIVERY_LEASE_SECONDS = 300;
+
+export const generateWebhookSecret = (): string => crypto.randomBytes(24).toString('hex');
+
+export const toWebhookSubscription = (row: any): WebhookSubscription => ({
+  id: row.id,
+  url: row.url,
+  events: row.events,
+  description: row.description,
+  active: row.active,
+  createdAt: new Date(row.created_at).toLocaleString('pt-BR')
+});
+
+export const toWebhookDelivery = (row: any): WebhookDelivery => ({
+  id: row.id,
+  event: row.event,
+  status: row.status,
+  attempts: row.attempts,
+  nextAttemptAt: row.status === 'pending' && row.next_attempt_at ? new Date(row.next_attempt_at).toLocaleString('pt-BR') : null,
+  lastStatusCode: row.last_status_code,
+  lastError: row.last_error,
+  redeliveryOf: row.redelivery_of,
+  createdAt: new Date(row.created_at).toLocaleString('pt-BR'),
+  deliveredAt: row.delivered_at ? new Date(row.delivered_at).toLocaleString('pt-BR') : null,
+  payload: row.payload
+});
+
+/**
+ * Enfileira as entregas dos eventos registrados na auditoria para as
+ * assinaturas ativas do dono do documento e dos admins. Só ações concluídas
+ * viram eventos, e cada download em partes conta uma vez. O envio acontece em segundo plano (processWebhookQueue).
+ */
+export async function queueWebhookEvents(entries: AuditEntry[]): Promise<void> {
+  const events = entries.filter(isWebhookEvent);
+  if (events.length === 0) return;
+
+  const result = await query(
+    `SELECT ${FILE_COLUMNS}, owner_id FROM pdf_files WHERE id = ANY($1::uuid[])`,
+    [[...new Set(events.map(entry => entry.fileId))]]
+  );
+  const files = await attachTags(result.rows.map(toUploadedFile));
+  const owners = new Map(result.rows.map(row => [row.id, row.owner_id]));
+
+  let queued = 0;
+  for (const entry of events) {
+    const file = files.find(candidate => candidate.id === entry.fileId);
+    if (!file) continue;
+
+    const event = EVENT_BY_ACTION[entry.action]!;
+    const payload = {
+      id: crypto.randomUUID(),
+      event,
+      occurredAt: new Date().toISOString(),
+      action: entry.action,
+      actor: entry.actorId ? { id: entry.actorId, email: entry.actorEmail } : null,
+      file,
+      details: entry.details || null
+    };
+
+    const inserted = await query(
+      `INSERT INTO webhook_deliveries (subscription_id, event, payload)
+       SELECT s.id, $1::text, $2
+       FROM webhook_subscriptions s JOIN users u ON u.id = s.owner_id
+       WHERE s.active AND $1::text = ANY(s.events) AND (s.owner_id = $3 OR u.role = 'admin')`,
+      [event, JSON.stringify(payload), owners.get(file.id)]
+    );
+    queued += inserted.rowCount || 0;
+  }
+
+  if (queued > 0) processWebhookQueue();
+}
+
+// Evento de teste para conferir a URL e o segredo
+export async function queueWebhookPing(subscriptionId: string): Promise<WebhookDelivery> {
+  const payload = {
+    id: crypto.randomUUID(),
+    event: 'webhook.ping',
+    occurredAt: new Date().toISOString(),
+    subscriptionId
+  };
+  const result = await query(
+    `INSERT INTO webhook_deliveries (subscription_id, event, payload) VALUES ($1, 'webhook.ping', $2) RETURNING *`,
+    [subscriptionId, JSON.stringify(payload)]
+  );
+  processWebhookQueue();
+  return toWebhookDelivery(result.rows[0]);
+}
+
+// Nova entrega com o mesmo conteúdo (o "id" do evento se mantém, para o receptor deduplicar)
+export async function redeliverWebhook(delivery: any): Promise<WebhookDelivery> {
+  const result = await query(
+    `INSERT INTO webhook_deliveries (subscription_id, event, payload, redelivery_of)
+     VALUES ($1, $2, $3, $4) RETURNING *`,
+    [delivery.subscription_id, delivery.event, JSON.stringify(delivery.payload), delivery.id]
+  );
+  processWebhookQueue();
+  return toWebhookDelivery(result.rows[0]);
+}
+
+/**
+ * POST do corpo, sem seguir redirecionamentos; devolve o status HTTP. A
+ * conexão só é aberta para endereços públicos (ver utils/publicAddress),
+ * salvo com WEBHOOK_ALLOW_PRIVATE_NETWORKS.
+ */
+const postWebhook = (url: string, headers: Record<string, string>, body: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    if (!WEBHOOK_ALLOW_PRIVATE_NETWORKS && isPrivateHost(target)) {
+      return reject(new PrivateAddressError(target.hostname));
+    }
+
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: WEBHOOK_ALLOW_PRIVATE_NETWORKS ? undefined : publicLookup,
+      timeout: WEBHOOK_TIMEOUT_MS
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    request.on('timeout', () => request.destroy(new Error(`Sem resposta em ${WEBHOOK_TIMEOUT_MS} ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+
+// Uma tentativa de entrega; devolve o status HTTP ou a mensagem de erro
+const sendDelivery = async (delivery: any): Promise<{ statusCode?: number; error?: string }> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  try {
+    const status = await postWebhook(delivery.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'pdf-upload-webhooks/1.0',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery.id,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': signWebhookPayload(delivery.secret, timestamp, body)
+    }, body);
+    return status >= 200 && status < 300 ? { statusCode: status } : { statusCode: status, error: `HTTP ${status}` };
+  } catch (error: any) {
+    return { error: (error.message || String(error)).slice(0, 500) };
+  }
+};
+
+const attemptDelivery = async (delivery: any): Promise<void> => {
+  const { statusCode, error } = await sendDelivery(delivery);
+
+  if (!error) {
+    await query(
+      `UPDATE webhook_deliveries
+       SET status = 'succeeded', attempts = attempts + 1, last_status_code = $2, last_error = NULL,
+           delivered_at = CURRENT_TIMESTAMP, next_attempt_at = NULL
+       WHERE id = $1`,
+      [delivery.id, statusCode]
+    );
+    return;
+  }
+
+  // Espera exponencial: base, 2×base, 4×base... até esgotar as tentativas
+  const attempts = delivery.attempts + 1;
+  await query(
+    `UPDATE webhook_deliveries
+     SET attempts = $2, last_status_code = $3, last_error = $4,
+         status = CASE WHEN $2::int >= $5::int THEN 'failed' ELSE 'pending' END,
+         next_attempt_at = CASE WHEN $2::int >= $5::int THEN NULL ELSE NOW() + make_interval(secs => $6::int) END
+     WHERE id = $1`,
+    [delivery.id, attempts, statusCode || null, error, WEBHOOK_MAX_ATTEMPTS,
+      WEBHOOK_RETRY_BASE_SECONDS * 2 ** (attempts - 1)]
+  );
+};
+
+let processing = false;
+let pendingRun = false;
+
+/**
+ * Envia as entregas vencidas, em lotes. Cada lote é reservado com SKIP
+ * LOCKED, então várias instâncias do servidor podem processar a fila juntas.
+ * Chamadas durante uma execução só agendam uma nova passada ao final.
+ */
+export async function processWebhookQueue(): Promise<void> {
+  if (processing) {
+    pendingRun = true;
+    return;
+  }
+  processing = true;
+
+  try {
+    let claimed: any[];
+    do {
+      pendingRun = false;
+      const result = await query(
+        `UPDATE webhook_deliveries d
+         SET next_attempt_at = NOW() + make_interval(secs => $2)
+         FROM webhook_subscriptions s
+         WHERE s.id = d.subscription_id AND d.id IN (
+           SELECT dd.id FROM webhook_deliveries dd
+           JOIN webhook_subscriptions ss ON ss.id = dd.subscription_id AND ss.active
+           WHERE dd.status = 'pending' AND dd.next_attempt_at <= NOW()
+           ORDER BY dd.next_attempt_at
+           LIMIT $1
+           FOR UPDATE OF dd SKIP LOCKED
+         )
+         RETURNING d.*, s.url, s.secret`,
+        [DELIVERY_BATCH_SIZE, DELIVERY_LEASE_SECONDS]
+      );
+      claimed = result.rows;
+
+      for (const delivery of claimed) {
+        await attemptDelivery(delivery);
+      }
+    } while (claimed.length === DELIVERY_BATCH_SIZE || pendingRun);
+  } catch (error) {
+    console.error('Erro ao processar webhooks:', error);
+  } finally {
+    processing = false;
+  }
+}
+
+// Verificação periódica da fila, para as novas tentativas agendadas
+export const startWebhookWorker = (): void => {
+  processWebhookQueue();
+  setInterval(processWebhookQueue, WEBHOOK_POLL_INTERVAL_SECONDS * 1000).unref();
+};
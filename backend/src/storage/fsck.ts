@@ -0,0 +1,83 @@
+import dotenv from 'dotenv';
+
+import { query } from '../database/config';
+import { checkStorage } from '../services/storageCheck';
+import { StorageRepairAction } from '../types';
+
+dotenv.config();
+
+const USAGE = 'Uso: npm run fsck -- [--verify-hashes] [--fix-ref-counts] [--mark-broken] [--adopt [--owner <email>]] ' +
+  '[--purge] [--dry-run]';
+
+const ACTION_FLAGS: Record<string, StorageRepairAction> = {
+  '--fix-ref-counts': 'fixRefCounts',
+  '--mark-broken': 'markBroken',
+  '--adopt': 'adopt',
+  '--purge': 'purge'
+};
+
+const parseArgs = (argv: string[]) => {
+  const ownerIndex = argv.indexOf('--owner');
+  return {
+    actions: Object.entries(ACTION_FLAGS).filter(([flag]) => argv.includes(flag)).map(([, action]) => action),
+    owner: ownerIndex >= 0 ? argv[ownerIndex + 1] : undefined,
+    verifyHashes: argv.includes('--verify-hashes'),
+    dryRun: argv.includes('--dry-run'),
+    help: argv.includes('--help')
+  };
+};
+
+// Sem ações, só relata; termina com código 1 se houver inconsistências, para uso em agendamentos
+async function fsck(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    if (args.help) {
+      console.log(USAGE);
+      return;
+    }
+
+    let adoptOwnerId: string | null = null;
+    if (args.owner) {
+      const owner = await query('SELECT id FROM users WHERE email = $1', [args.owner.toLowerCase()]);
+      if (owner.rows.length === 0) {
+        console.log(`❌ Usuário não encontrado: ${args.owner}`);
+        process.exitCode = 1;
+        return;
+      }
+      adoptOwnerId = owner.rows[0].id;
+    }
+
+    console.log(`🔍 Verificando storage${args.verifyHashes ? ' (com hashes)' : ''}${args.dryRun ? ' (simulação)' : ''}...`);
+    const report = await checkStorage({
+      actions: args.actions,
+      dryRun: args.dryRun,
+      verifyHashes: args.verifyHashes,
+      adoptOwnerId
+    });
+
+    for (const finding of report.findings) {
+      const files = finding.files ? ` — ${finding.files.map(file => file.name).join(', ')}` : '';
+      console.log(`⚠️  [${finding.kind}] ${finding.key}: ${finding.detail}${files}`);
+    }
+    for (const repair of report.repairs) {
+      console.log(`${repair.applied ? '🔧' : '📝'} [${repair.action}] ${repair.key}: ${repair.detail}`);
+    }
+
+    console.log(`🎉 ${report.objectsChecked} objeto(s) no storage "${report.driver}", ` +
+      `${report.findings.length} inconsistência(s), ${report.repairs.filter(repair => repair.applied).length} reparo(s)` +
+      (report.recentObjectsSkipped ? `, ${report.recentObjectsSkipped} objeto(s) recente(s) ignorado(s)` : ''));
+    if (report.findings.length > 0 && args.actions.length === 0) {
+      console.log(`📝 ${USAGE}`);
+      process.exitCode = 1;
+    }
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+fsck();
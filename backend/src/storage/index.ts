@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+
+import { UPLOAD_DIR, TMP_DIR, STORAGE_DRIVER, S3_CONFIG } from '../config';
+import { LocalStorageDriver } from './localStorage';
+import { S3StorageDriver } from './s3Storage';
+import { StorageDriver } from './types';
+
+export * from './types';
+export { LocalStorageDriver, S3StorageDriver };
+
+export const createStorageDriver = (name: string): StorageDriver => {
+  switch (name) {
+    case 'local':
+      return new LocalStorageDriver(UPLOAD_DIR);
+    case 's3':
+      return new S3StorageDriver(S3_CONFIG);
+    default:
+      throw new Error(`Driver de storage desconhecido: ${name}`);
+  }
+};
+
+// Driver configurado por STORAGE_DRIVER, usado por toda a aplicação
+export const storage: StorageDriver = createStorageDriver(STORAGE_DRIVER);
+
+export const createTempPath = (name: string): string => {
+  fs.mkdirSync(TMP_DIR, { recursive: true });
+  return path.join(TMP_DIR, `${Date.now()}-${Math.round(Math.random() * 1E9)}-${name}`);
+};
+
+/**
+ * Disponibiliza o objeto como arquivo local para bibliotecas que exigem
+ * um caminho (extração de texto, renderização). No driver local não há cópia.
+ */
+export const withLocalFile = async <T>(
+  key: string,
+  fn: (filePath: string) => Promise<T>,
+  driver: StorageDriver = storage
+): Promise<T> => {
+  if (driver instanceof LocalStorageDriver) {
+    return fn(driver.resolve(key));
+  }
+
+  const tempPath = createTempPath(path.basename(key));
+  try {
+    await pipeline(await driver.createReadStream(key), fs.createWriteStream(tempPath));
+    return await fn(tempPath);
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+};
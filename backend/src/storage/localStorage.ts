@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+import { ByteRange, StorageDriver, StoredObjectInfo } from './types';
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly baseDir: string) {
+    fs.mkdirSync(baseDir, { recursive: true });
+  }
+
+  // Impede que uma chave como "../x" escape do diretório base
+  resolve(key: string): string {
+    const fullPath = path.resolve(this.baseDir, key);
+    if (!fullPath.startsWith(path.resolve(this.baseDir) + path.sep)) {
+      throw new Error(`Chave de storage inválida: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, sourcePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    try {
+      await fs.promises.rename(sourcePath, target);
+    } catch (error: any) {
+      // rename não funciona entre sistemas de arquivos diferentes
+      if (error.code !== 'EXDEV') throw error;
+      await fs.promises.copyFile(sourcePath, target);
+      await fs.promises.unlink(sourcePath);
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile() ? { size: stats.size, lastModified: stats.mtime } : null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async *list(): AsyncIterable<string> {
+    const walk = async function* (dir: string, prefix: string): AsyncIterable<string> {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        // Diretórios ocultos guardam dados de trabalho (ex.: partes de uploads)
+        if (entry.name.startsWith('.')) continue;
+        if (entry.isDirectory()) {
+          yield* walk(path.join(dir, entry.name), `${prefix}${entry.name}/`);
+        } else if (entry.isFile()) {
+          yield `${prefix}${entry.name}`;
+        }
+      }
+    };
+    yield* walk(this.baseDir, '');
+  }
+}
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import dotenv from 'dotenv';
+
+import { query } from '../database/config';
+import { StorageDriver, createStorageDriver, createTempPath } from './index';
+
+dotenv.config();
+
+// Uso: npm run storage:migrate -- --from local --to s3 [--delete-source] [--dry-run]
+const parseArgs = (argv: string[]) => {
+  const option = (name: string): string | undefined => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  return {
+    from: option('from'),
+    to: option('to'),
+    deleteSource: argv.includes('--delete-source'),
+    dryRun: argv.includes('--dry-run')
+  };
+};
+
+const copyObject = async (source: StorageDriver, target: StorageDriver, key: string): Promise<void> => {
+  const tempPath = createTempPath(path.basename(key));
+  try {
+    await pipeline(await source.createReadStream(key), fs.createWriteStream(tempPath));
+    await target.put(key, tempPath);
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+};
+
+async function migrateStorage(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    if (!args.from || !args.to || args.from === args.to) {
+      console.log('Uso: npm run storage:migrate -- --from <local|s3> --to <local|s3> [--delete-source] [--dry-run]');
+      process.exitCode = 1;
+      return;
+    }
+
+    const source = createStorageDriver(args.from);
+    const target = createStorageDriver(args.to);
+    console.log(`🔄 Migrando arquivos de "${source.name}" para "${target.name}"${args.dryRun ? ' (simulação)' : ''}...`);
+
+    const result = await query(
+      'SELECT file_path FROM pdf_blobs UNION SELECT file_path FROM pdf_files ORDER BY file_path'
+    );
+
+    let copied = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const { file_path: key } of result.rows) {
+      try {
+        const sourceInfo = await source.stat(key);
+        if (!sourceInfo) {
+          console.log(`⚠️  Não encontrado na origem: ${key}`);
+          failed++;
+          continue;
+        }
+
+        const targetInfo = await target.stat(key);
+        if (targetInfo && targetInfo.size === sourceInfo.size) {
+          skipped++;
+        } else if (!args.dryRun) {
+          await copyObject(source, target, key);
+          const copiedInfo = await target.stat(key);
+          if (!copiedInfo || copiedInfo.size !== sourceInfo.size) {
+            throw new Error('tamanho no destino não confere');
+          }
+          copied++;
+        } else {
+          console.log(`   copiaria ${key}`);
+          copied++;
+        }
+
+        if (args.deleteSource && !args.dryRun) {
+          await source.delete(key);
+        }
+      } catch (error: any) {
+        console.log(`⚠️  Falha ao migrar ${key}: ${error.message}`);
+        failed++;
+      }
+    }
+
+    console.log(`🎉 ${copied} copiado(s), ${skipped} já presente(s) no destino, ${failed} com falha`);
+    if (failed === 0 && !args.dryRun) {
+      console.log(`📝 Configure STORAGE_DRIVER=${target.name} e reinicie o servidor`);
+    }
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+migrateStorage();
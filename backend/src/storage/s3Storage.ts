@@ -0,0 +1,120 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  HeadBucketCommand,
+  CreateBucketCommand,
+  ListObjectsV2Command
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+
+import { ByteRange, StorageDriver, StoredObjectInfo } from './types';
+
+export interface S3StorageOptions {
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+const isNotFound = (error: any): boolean =>
+  error?.name === 'NotFound' || error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404;
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private bucketReady: Promise<void> | null = null;
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      endpoint: options.endpoint,
+      region: options.region,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+    });
+  }
+
+  // Cria o bucket na primeira escrita (útil com MinIO em desenvolvimento)
+  private ensureBucket(): Promise<void> {
+    if (!this.bucketReady) {
+      this.bucketReady = (async () => {
+        try {
+          await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+        } catch (error) {
+          if (!isNotFound(error)) throw error;
+          await this.client.send(new CreateBucketCommand({ Bucket: this.bucket }));
+        }
+      })().catch(error => {
+        this.bucketReady = null;
+        throw error;
+      });
+    }
+    return this.bucketReady;
+  }
+
+  async put(key: string, sourcePath: string): Promise<void> {
+    await this.ensureBucket();
+
+    // Upload multipart automático para arquivos grandes
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: fs.createReadStream(sourcePath),
+        ContentType: 'application/pdf'
+      }
+    });
+    await upload.done();
+    await fs.promises.unlink(sourcePath);
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined
+    }));
+    return result.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return {
+        size: result.ContentLength || 0,
+        lastModified: result.LastModified || new Date(0)
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async *list(): AsyncIterable<string> {
+    let continuationToken: string | undefined;
+    do {
+      const result = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        ContinuationToken: continuationToken
+      }));
+      for (const object of result.Contents || []) {
+        if (object.Key) yield object.Key;
+      }
+      continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+}
@@ -0,0 +1,34 @@
+import { Readable } from 'stream';
+
+export interface StoredObjectInfo {
+  size: number;
+  lastModified: Date;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Backend de armazenamento dos PDFs. As chaves são caminhos relativos
+ * (ex.: "pdf-1700000000000-123-contrato.pdf"), iguais em todos os drivers.
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  /** Move um arquivo local (temporário) para o storage sob a chave informada. */
+  put(key: string, sourcePath: string): Promise<void>;
+
+  /** Stream do conteúdo, opcionalmente de um intervalo de bytes (inclusivo). */
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  /** Remove o objeto; não falha se ele já não existir. */
+  delete(key: string): Promise<void>;
+
+  /** Metadados do objeto, ou null se ele não existir. */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+
+  /** Todas as chaves armazenadas. */
+  list(): AsyncIterable<string>;
+}
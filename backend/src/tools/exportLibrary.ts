@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import dotenv from 'dotenv';
+
+import { query } from '../database/config';
+import { storage } from '../storage';
+import { LibraryManifestEntry } from './libraryManifest';
+
+dotenv.config();
+
+const USAGE = 'Uso: npm run library:export -- <diretório> [--owner <email>] [--include-trash]';
+
+// Pasta dos documentos sem dono ao exportar todos os usuários
+const NO_OWNER_DIR = '_sem_dono';
+
+const parseArgs = (argv: string[]) => {
+  const ownerIndex = argv.indexOf('--owner');
+  return {
+    dir: argv.find((arg, index) => !arg.startsWith('--') && argv[index - 1] !== '--owner'),
+    owner: ownerIndex >= 0 ? argv[ownerIndex + 1] : undefined,
+    includeTrash: argv.includes('--include-trash')
+  };
+};
+
+// Nome válido como arquivo ou diretório em qualquer sistema
+const safeName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/[. ]+$/, '').trim().slice(0, 200) || 'sem_nome';
+
+/**
+ * Escreve cada documento em <diretório>/<pastas>/<custom_name>.pdf e um
+ * manifest.json com os dados de cada um, no formato aceito pelo
+ * library:import. Sem --owner, cada usuário ganha um subdiretório (pelo
+ * e-mail) com o próprio manifesto.
+ */
+async function exportLibrary(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    if (!args.dir) {
+      console.log(USAGE);
+      process.exitCode = 1;
+      return;
+    }
+
+    const root = path.resolve(args.dir);
+    if (fs.existsSync(root) && fs.readdirSync(root).length > 0) {
+      console.log(`❌ O diretório de destino não está vazio: ${root}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    let ownerId: string | null = null;
+    if (args.owner) {
+      const owner = await query('SELECT id FROM users WHERE email = $1', [args.owner.trim().toLowerCase()]);
+      if (owner.rows.length === 0) {
+        console.log(`❌ Usuário não encontrado: ${args.owner}`);
+        process.exitCode = 1;
+        return;
+      }
+      ownerId = owner.rows[0].id;
+    }
+
+    const result = await query(
+      `SELECT f.id, f.custom_name, f.original_name, f.file_path, f.file_size, f.content_hash, f.upload_date,
+              f.deleted_at, f.description, to_char(f.document_date, 'YYYY-MM-DD') AS document_date,
+              f.reference_number, f.properties, f.folder_id, u.email AS owner_email,
+              ARRAY(SELECT t.name FROM pdf_file_tags ft JOIN tags t ON t.id = ft.tag_id
+                    WHERE ft.file_id = f.id ORDER BY lower(t.name)) AS tags
+       FROM pdf_files f LEFT JOIN users u ON u.id = f.owner_id
+       WHERE ($1::uuid IS NULL OR f.owner_id = $1) AND ($2 OR f.deleted_at IS NULL)
+       ORDER BY u.email NULLS LAST, f.upload_date, f.id`,
+      [ownerId, args.includeTrash]
+    );
+    const folders = await query('SELECT id, parent_id, name FROM folders WHERE ($1::uuid IS NULL OR owner_id = $1)', [ownerId]);
+    const foldersById = new Map<string, { parent_id: string | null; name: string }>(
+      folders.rows.map(folder => [folder.id, folder])
+    );
+
+    // Caminho de diretórios da pasta, da raiz até ela
+    const folderPath = (folderId: string | null): string[] => {
+      const segments: string[] = [];
+      for (let folder = folderId ? foldersById.get(folderId) : undefined; folder;
+        folder = folder.parent_id ? foldersById.get(folder.parent_id) : undefined) {
+        segments.unshift(safeName(folder.name));
+      }
+      return segments;
+    };
+
+    console.log(`🔄 Exportando ${result.rows.length} documento(s) para ${root}...`);
+
+    const manifests = new Map<string, LibraryManifestEntry[]>();
+    const usedNames = new Set<string>();
+    let exported = 0;
+    let failed = 0;
+
+    for (const [index, file] of result.rows.entries()) {
+      const progress = `[${index + 1}/${result.rows.length}]`;
+      const base = ownerId ? '' : safeName(file.owner_email || NO_OWNER_DIR);
+      const dir = path.posix.join(...folderPath(file.folder_id));
+
+      // Nomes repetidos na mesma pasta ganham um sufixo: "nome (2).pdf"
+      let relative = path.posix.join(dir, `${safeName(file.custom_name)}.pdf`);
+      for (let n = 2; usedNames.has(`${base}/${relative}`.toLowerCase()); n++) {
+        relative = path.posix.join(dir, `${safeName(file.custom_name)} (${n}).pdf`);
+      }
+      usedNames.add(`${base}/${relative}`.toLowerCase());
+
+      const target = path.join(root, base, ...relative.split('/'));
+      try {
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await pipeline(await storage.createReadStream(file.file_path), fs.createWriteStream(target));
+
+        const entries = manifests.get(base) || [];
+        entries.push({
+          path: relative,
+          customName: file.custom_name,
+          description: file.description,
+          documentDate: file.document_date,
+          referenceNumber: file.reference_number,
+          properties: file.properties,
+          tags: file.tags,
+          id: file.id,
+          originalName: file.original_name,
+          fileSize: parseInt(file.file_size),
+          contentHash: file.content_hash,
+          uploadDate: new Date(file.upload_date).toISOString(),
+          ...(file.deleted_at && { deletedAt: new Date(file.deleted_at).toISOString() })
+        });
+        manifests.set(base, entries);
+
+        console.log(`${progress} ✅ ${base ? `${base}/` : ''}${relative}`);
+        exported++;
+      } catch (error: any) {
+        await fs.promises.rm(target, { force: true });
+        console.log(`${progress} ⚠️  ${file.custom_name}: ${error.code === 'ENOENT' ? 'arquivo físico não encontrado' : error.message}`);
+        failed++;
+      }
+    }
+
+    for (const [base, entries] of manifests) {
+      await fs.promises.writeFile(
+        path.join(root, base, 'manifest.json'),
+        JSON.stringify({ exportedAt: new Date().toISOString(), files: entries }, null, 2)
+      );
+    }
+
+    console.log(`🎉 ${exported} exportado(s), ${failed} com falha`);
+    if (failed > 0) process.exitCode = 1;
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+exportLibrary();
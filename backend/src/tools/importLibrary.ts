@@ -0,0 +1,236 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+import { query } from '../database/config';
+import { createTempPath } from '../storage';
+import { computeFileHash, createPdfFile, generateFileName } from '../services/files';
+import { validatePdf } from '../services/pdfValidation';
+import { QuotaExceededError, checkQuota } from '../services/quotas';
+import { recordAuditEvents } from '../services/audit';
+import { LibraryManifestEntry, MANIFEST_NAMES, normalizeManifestPath, parseManifestEntry, readManifest } from './libraryManifest';
+
+dotenv.config();
+
+const USAGE = 'Uso: npm run library:import -- <diretório> --owner <email> [--manifest <arquivo.json|csv>] [--flat] [--dry-run]';
+
+const MAX_NAME_LENGTH = 255;
+const MAX_FOLDER_NAME = 255;
+
+const parseArgs = (argv: string[]) => {
+  const option = (name: string): string | undefined => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  return {
+    dir: argv.find((arg, index) => !arg.startsWith('--') && !['--owner', '--manifest'].includes(argv[index - 1])),
+    owner: option('owner'),
+    manifest: option('manifest'),
+    flat: argv.includes('--flat'),
+    dryRun: argv.includes('--dry-run')
+  };
+};
+
+// PDFs da árvore, em ordem alfabética; arquivos e diretórios ocultos ficam de fora
+const listPdfs = async (root: string): Promise<string[]> => {
+  const found: string[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile() && /\.pdf$/i.test(entry.name)) {
+        found.push(fullPath);
+      }
+    }
+  };
+  await walk(root);
+  return found;
+};
+
+/**
+ * Pasta do dono equivalente ao diretório relativo ("a/b"), criando as que
+ * faltam. Pastas com o mesmo nome (sem diferenciar maiúsculas) são reaproveitadas.
+ */
+const createFolderResolver = (ownerId: string) => {
+  const cache = new Map<string, string | null>([['.', null]]);
+
+  const resolve = async (relativeDir: string): Promise<string | null> => {
+    const cached = cache.get(relativeDir);
+    if (cached !== undefined) return cached;
+
+    const parentId = await resolve(path.posix.dirname(relativeDir));
+    const name = path.posix.basename(relativeDir).trim().slice(0, MAX_FOLDER_NAME);
+    const result = await query(
+      `INSERT INTO folders (owner_id, parent_id, name) VALUES ($1, $2, $3)
+       ON CONFLICT (owner_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name))
+       DO UPDATE SET name = folders.name
+       RETURNING id`,
+      [ownerId, parentId, name]
+    );
+    cache.set(relativeDir, result.rows[0].id);
+    return result.rows[0].id;
+  };
+
+  return resolve;
+};
+
+async function importLibrary(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    if (!args.dir || !args.owner) {
+      console.log(USAGE);
+      process.exitCode = 1;
+      return;
+    }
+
+    const root = path.resolve(args.dir);
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      console.log(`❌ Diretório não encontrado: ${root}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const ownerResult = await query('SELECT id, email FROM users WHERE email = $1', [args.owner.trim().toLowerCase()]);
+    const owner = ownerResult.rows[0];
+    if (!owner) {
+      console.log(`❌ Usuário não encontrado: ${args.owner}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    // Sem --manifest, usa manifest.json ou manifest.csv na raiz do diretório, se existir
+    const manifestPath = args.manifest
+      ? path.resolve(args.manifest)
+      : MANIFEST_NAMES.map(name => path.join(root, name)).find(candidate => fs.existsSync(candidate));
+    const manifest = manifestPath ? readManifest(manifestPath) : new Map<string, LibraryManifestEntry>();
+    const resolveFolder = createFolderResolver(owner.id);
+
+    const files = await listPdfs(root);
+    console.log(`🔄 Importando ${files.length} PDF(s) de ${root} para ${owner.email}` +
+      `${manifestPath ? ` com o manifesto ${path.basename(manifestPath)}` : ''}${args.dryRun ? ' (simulação)' : ''}...`);
+
+    let imported = 0;
+    let duplicates = 0;
+    let invalid = 0;
+    let failed = 0;
+    const matchedEntries = new Set<string>();
+    // Conteúdos já vistos nesta execução, para a simulação também apontar as cópias repetidas
+    const seenHashes = new Map<string, string>();
+
+    for (const [index, filePath] of files.entries()) {
+      const relative = normalizeManifestPath(path.relative(root, filePath).split(path.sep).join('/'));
+      const progress = `[${index + 1}/${files.length}]`;
+
+      try {
+        const entry = manifest.get(relative);
+        if (entry) matchedEntries.add(relative);
+
+        const parsed = parseManifestEntry(entry || { path: relative });
+        if ('error' in parsed) {
+          console.log(`${progress} ❌ ${relative}: ${parsed.error}`);
+          invalid++;
+          continue;
+        }
+
+        const hash = await computeFileHash(filePath);
+        const existing = await query(
+          'SELECT custom_name FROM pdf_files WHERE owner_id = $1 AND content_hash = $2 AND deleted_at IS NULL LIMIT 1',
+          [owner.id, hash]
+        );
+        const duplicateOf = existing.rows[0]?.custom_name ?? seenHashes.get(hash);
+        if (duplicateOf !== undefined) {
+          console.log(`${progress} ⏭️  ${relative}: duplicado de "${duplicateOf}"`);
+          duplicates++;
+          continue;
+        }
+
+        const validation = await validatePdf(filePath);
+        if (!validation.valid) {
+          console.log(`${progress} ❌ ${relative}: ${validation.reason}`);
+          invalid++;
+          continue;
+        }
+
+        const fileSize = (await fs.promises.stat(filePath)).size;
+        const quotaError = await checkQuota(owner.id, { bytes: fileSize, files: 1 });
+        if (quotaError) {
+          console.log(`${progress} ❌ ${relative}: ${quotaError}`);
+          console.log('⛔ Importação interrompida');
+          failed += files.length - index;
+          break;
+        }
+
+        const originalName = path.basename(filePath);
+        const customName = parsed.customName || originalName.replace(/\.pdf$/i, '').slice(0, MAX_NAME_LENGTH);
+        seenHashes.set(hash, customName);
+        if (args.dryRun) {
+          console.log(`${progress} 📝 ${relative} → "${customName}"`);
+          imported++;
+          continue;
+        }
+
+        const relativeDir = path.posix.dirname(relative);
+        const folderId = args.flat ? null : await resolveFolder(relativeDir);
+
+        // createPdfFile move o arquivo recebido; o original fica intacto
+        const tempPath = createTempPath(originalName);
+        await fs.promises.copyFile(filePath, tempPath);
+        const file = await createPdfFile({
+          customName,
+          originalName,
+          fileName: generateFileName(originalName),
+          filePath: tempPath,
+          fileSize,
+          mimeType: 'application/pdf',
+          ownerId: owner.id,
+          folderId,
+          tags: parsed.tags,
+          details: parsed.details
+        }, { enforceQuota: true });
+        await recordAuditEvents([{
+          fileId: file.id,
+          fileName: file.customName,
+          action: 'upload',
+          result: 'success',
+          details: { source: 'import', path: relative }
+        }]);
+
+        console.log(`${progress} ✅ ${relative} → "${file.customName}"`);
+        imported++;
+
+      } catch (error: any) {
+        // Uploads feitos durante a importação podem ter ocupado a cota conferida acima
+        if (error instanceof QuotaExceededError) {
+          console.log(`${progress} ❌ ${relative}: ${error.message}`);
+          console.log('⛔ Importação interrompida');
+          failed += files.length - index;
+          break;
+        }
+        console.log(`${progress} ⚠️  ${relative}: ${error.message}`);
+        failed++;
+      }
+    }
+
+    const unmatched = [...manifest.keys()].filter(key => !matchedEntries.has(key));
+    if (unmatched.length > 0) {
+      console.log(`⚠️  ${unmatched.length} entrada(s) do manifesto sem arquivo: ${unmatched.slice(0, 10).join(', ')}` +
+        (unmatched.length > 10 ? '...' : ''));
+    }
+
+    console.log(`🎉 ${imported} importado(s), ${duplicates} duplicado(s) ignorado(s), ${invalid} inválido(s), ${failed} com falha`);
+    if (failed > 0) process.exitCode = 1;
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+importLibrary();
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+
+import { FileDetails, parseDetailsPatch } from '../services/fileDetails';
+import { parseTagNames } from '../services/organization';
+
+export const MANIFEST_NAMES = ['manifest.json', 'manifest.csv'];
+
+/**
+ * Linha do manifesto de uma biblioteca: path é relativo ao diretório
+ * importado/exportado, com "/" como separador. O export escreve também
+ * os campos informativos (id, tamanho, hash...), ignorados no import.
+ */
+export interface LibraryManifestEntry {
+  path: string;
+  customName?: string;
+  description?: string | null;
+  documentDate?: string | null;
+  referenceNumber?: string | null;
+  properties?: Record<string, string>;
+  tags?: string[];
+  [info: string]: unknown;
+}
+
+export interface ImportDetails {
+  customName?: string;
+  details: Partial<Omit<FileDetails, 'customName'>>;
+  tags: string[];
+}
+
+// Campos separados por vírgula, com aspas duplas para valores que contêm vírgula, aspas ou quebra de linha
+const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// No CSV, tags vêm separadas por ";" e properties como JSON
+const fromCsvRow = (header: string[], cells: string[]): LibraryManifestEntry => {
+  const entry: LibraryManifestEntry = { path: '' };
+  header.forEach((column, index) => {
+    const value = cells[index] ?? '';
+    if (column === 'tags') {
+      entry.tags = value.split(';');
+    } else if (column === 'properties') {
+      entry.properties = value.trim() ? JSON.parse(value) : {};
+    } else {
+      entry[column] = value;
+    }
+  });
+  return entry;
+};
+
+export const normalizeManifestPath = (value: string): string =>
+  value.replace(/\\/g, '/').replace(/^\.?\//, '').normalize('NFC');
+
+/**
+ * Lê o manifesto (JSON: lista de entradas ou { files: [...] }; CSV com
+ * cabeçalho) e indexa as entradas pelo caminho. Lança erro com a linha
+ * quando o formato é inválido.
+ */
+export function readManifest(manifestPath: string): Map<string, LibraryManifestEntry> {
+  const content = fs.readFileSync(manifestPath, 'utf8').replace(/^\uFEFF/, '');
+  let entries: LibraryManifestEntry[];
+
+  if (path.extname(manifestPath).toLowerCase() === '.csv') {
+    const [header, ...rows] = parseCsv(content);
+    if (!header || !header.map(column => column.trim()).includes('path')) {
+      throw new Error('O CSV precisa de um cabeçalho com a coluna "path"');
+    }
+    entries = rows.map((cells, index) => {
+      try {
+        return fromCsvRow(header.map(column => column.trim()), cells);
+      } catch {
+        throw new Error(`Linha ${index + 2} do manifesto: properties não é um JSON válido`);
+      }
+    });
+  } else {
+    const parsed = JSON.parse(content);
+    entries = Array.isArray(parsed) ? parsed : parsed?.files;
+    if (!Array.isArray(entries)) {
+      throw new Error('O manifesto JSON deve ser uma lista de entradas ou um objeto com "files"');
+    }
+  }
+
+  const byPath = new Map<string, LibraryManifestEntry>();
+  entries.forEach((entry, index) => {
+    if (!entry || typeof entry.path !== 'string' || !entry.path.trim()) {
+      throw new Error(`Entrada ${index + 1} do manifesto sem "path"`);
+    }
+    byPath.set(normalizeManifestPath(entry.path.trim()), entry);
+  });
+  return byPath;
+}
+
+/**
+ * Valida os dados de uma entrada com as mesmas regras da edição pela API.
+ * Campos vazios são ignorados.
+ */
+export function parseManifestEntry(entry: LibraryManifestEntry): ImportDetails | { error: string } {
+  const body: Record<string, unknown> = {};
+  for (const field of ['customName', 'description', 'documentDate', 'referenceNumber', 'properties'] as const) {
+    const value = entry[field];
+    if (value !== undefined && value !== null && value !== '') body[field] = value;
+  }
+
+  const tags = parseTagNames(entry.tags ?? []);
+  if (!tags) return { error: 'Tags inválidas' };
+  if (Object.keys(body).length === 0) return { details: {}, tags };
+
+  const parsed = parseDetailsPatch(body);
+  if ('error' in parsed) return parsed;
+  const { customName, ...details } = parsed.values;
+  return { customName, details, tags };
+}
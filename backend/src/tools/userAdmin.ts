@@ -0,0 +1,88 @@
+import readline from 'readline';
+import dotenv from 'dotenv';
+
+import { query } from '../database/config';
+import { EMAIL_PATTERN, MIN_PASSWORD_LENGTH, hashPassword, normalizeEmail } from '../services/users';
+
+dotenv.config();
+
+const USAGE = 'Uso: npm run user:admin -- <email> [--name <nome>] [--revoke]';
+
+const parseArgs = (argv: string[]) => {
+  const nameIndex = argv.indexOf('--name');
+  return {
+    email: argv.find((arg, index) => !arg.startsWith('--') && argv[index - 1] !== '--name'),
+    name: nameIndex >= 0 ? argv[nameIndex + 1] : undefined,
+    revoke: argv.includes('--revoke')
+  };
+};
+
+// Senha do novo usuário: ADMIN_PASSWORD ou digitada (uma linha da entrada padrão)
+const readPassword = async (): Promise<string> => {
+  if (process.env.ADMIN_PASSWORD) return process.env.ADMIN_PASSWORD;
+  const input = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await new Promise(resolve => input.question('Senha: ', resolve));
+  } finally {
+    input.close();
+  }
+};
+
+/**
+ * Torna administrador o usuário do e-mail, criando a conta se ela não
+ * existir. Com --revoke, volta a ser usuário comum. O cadastro pela API
+ * sempre cria usuários comuns.
+ */
+async function userAdmin(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    const email = normalizeEmail(args.email);
+    if (!EMAIL_PATTERN.test(email)) {
+      console.log(USAGE);
+      process.exitCode = 1;
+      return;
+    }
+
+    const role = args.revoke ? 'user' : 'admin';
+    const updated = await query('UPDATE users SET role = $2 WHERE email = $1 RETURNING email', [email, role]);
+    if (updated.rows.length > 0) {
+      console.log(`🎉 ${email} agora é ${args.revoke ? 'usuário comum' : 'administrador'}`);
+      return;
+    }
+    if (args.revoke) {
+      console.log(`❌ Usuário não encontrado: ${email}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const password = await readPassword();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      console.log(`❌ A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const name = (args.name || email.split('@')[0]).trim();
+    const created = await query(
+      `INSERT INTO users (name, email, password_hash, role) VALUES ($1, $2, $3, 'admin')
+       ON CONFLICT (email) DO NOTHING
+       RETURNING email`,
+      [name, email, await hashPassword(password)]
+    );
+    if (created.rows.length === 0) {
+      console.log(`❌ ${email} foi cadastrado enquanto o comando rodava; execute-o de novo para promovê-lo`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`🎉 Administrador ${email} criado`);
+
+  } catch (error: any) {
+    console.error('❌ Erro:', error.message);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+userAdmin();
@@ -0,0 +1,69 @@
+/**
+ * Receptor de webhooks para desenvolvimento e testes manuais:
+ *
+ *   WEBHOOK_SECRET=<segredo> npm run webhook:receiver -- --port 4040 --fail-first 2
+ *
+ * Confere a assinatura HMAC e a idade do timestamp, registra cada entrega no
+ * console e responde 204. Com --fail-first N, responde 500 às N primeiras
+ * entregas, para exercitar as novas tentativas com espera exponencial.
+ */
+import http from 'http';
+
+import { verifyWebhookSignature } from '../utils/webhookSignature';
+
+const MAX_TIMESTAMP_AGE_SECONDS = 300;
+
+const readOption = (name: string, fallback: string): string => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const port = parseInt(readOption('port', process.env.RECEIVER_PORT || '4040'));
+let failuresLeft = parseInt(readOption('fail-first', '0'));
+const secret = process.env.WEBHOOK_SECRET || '';
+
+if (!secret) {
+  console.warn('⚠️  WEBHOOK_SECRET não definido; as assinaturas não serão conferidas');
+}
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const event = req.headers['x-webhook-event'];
+    const delivery = req.headers['x-webhook-delivery'];
+    const timestamp = String(req.headers['x-webhook-timestamp'] || '');
+    const signature = String(req.headers['x-webhook-signature'] || '');
+
+    if (secret) {
+      const age = Math.abs(Date.now() / 1000 - parseInt(timestamp));
+      if (!(age <= MAX_TIMESTAMP_AGE_SECONDS) || !verifyWebhookSignature(secret, timestamp, body, signature)) {
+        console.log(`❌ ${event} ${delivery}: assinatura ou timestamp inválido`);
+        res.writeHead(401).end();
+        return;
+      }
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`💥 ${event} ${delivery}: falha simulada (restam ${failuresLeft})`);
+      res.writeHead(500).end();
+      return;
+    }
+
+    let summary = '';
+    try {
+      const payload = JSON.parse(body);
+      summary = payload.file ? `${payload.file.customName} (${payload.file.id})` : '';
+    } catch {
+      summary = '(corpo não é JSON)';
+    }
+    console.log(`✅ ${event} ${delivery} ${summary}`);
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`📬 Receptor de webhooks em http://localhost:${port}`);
+});
@@ -3,11 +3,68 @@ export interface PDFFile {
   custom_name: string;
   original_name: string;
   file_name: string;
-  file_path: string;
+  file_path: string; // chave do objeto no storage
   file_size: number;
   mime_type: string;
+  content_text: string | null;
+  content_hash: string | null;
+  current_version: number;
+  version_count: number;
+  page_count: number | null;
+  pdf_version: string | null;
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  producer: string | null;
+  pdf_created_at: Date | null;
+  is_encrypted: boolean;
+  is_signed: boolean;
+  has_forms: boolean;
+  folder_id: string | null;
+  owner_id: string | null;
   upload_date: Date;
   updated_at: Date;
+  deleted_at: Date | null;
+  storage_issue: StorageIssue | null;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: 'user' | 'admin';
+}
+
+export interface AuthResponse {
+  success: boolean;
+  user?: AuthUser;
+  error?: string;
+}
+
+export interface PdfMetadata {
+  pdfVersion: string | null;
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  producer: string | null;
+  creationDate: string | null;
+  encrypted: boolean;
+  signed: boolean;
+  hasForms: boolean;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null;
+  fileCount?: number;
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  fileCount: number;
 }
 
 export interface UploadedFile {
@@ -18,15 +75,175 @@ export interface UploadedFile {
   fileSize: string;
   uploadDate: string;
   downloadUrl: string;
+  thumbnailUrl: string;
+  viewUrl: string;
+  pageCount: number | null;
+  metadata: PdfMetadata;
+  folderId: string | null;
+  // Dados descritivos editáveis (PATCH /api/files/:id)
+  description: string | null;
+  documentDate: string | null;
+  referenceNumber: string | null;
+  properties: Record<string, string>;
+  // Data da última alteração (ISO), usada como controle de concorrência
+  updatedAt: string;
+  tags: Tag[];
+  version: number;
+  versionCount: number;
+  snippet?: string;
+  // Presente apenas para documentos na lixeira
+  deletedAt?: string;
+  // Presente quando a verificação do storage marcou o conteúdo como ausente ou corrompido
+  storageIssue?: StorageIssue;
+  duplicate?: boolean;
+  duplicateOf?: {
+    id: string;
+    customName: string;
+  };
 }
 
 export interface UploadResponse {
   success: boolean;
   message: string;
   files: UploadedFile[];
+  duplicates?: number;
+  // Arquivos reprovados na validação e enviados para a quarentena
+  rejected?: RejectedFile[];
+  error?: string;
+}
+
+export interface RejectedFile {
+  originalName: string;
+  reason: string;
+  quarantineId: string;
+}
+
+export interface QuarantinedFile {
+  id: string;
+  originalName: string;
+  fileSize: string;
+  reasonCode: string;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface QuarantineResponse {
+  success: boolean;
+  files: QuarantinedFile[];
+  error?: string;
+}
+
+export interface FileVersion {
+  version: number;
+  originalName: string;
+  fileSize: string;
+  uploadDate: string;
+  current: boolean;
+  downloadUrl: string;
+}
+
+export interface VersionsResponse {
+  success: boolean;
+  versions: FileVersion[];
+  error?: string;
+}
+
+export interface FileResponse {
+  success: boolean;
+  message?: string;
+  file?: UploadedFile;
   error?: string;
 }
 
+export type FileDetailsField = 'customName' | 'description' | 'documentDate' | 'referenceNumber' | 'properties';
+
+export interface FileChange {
+  id: string;
+  changedAt: string;
+  changedBy: string | null;
+  changedByName: string | null;
+  changes: Partial<Record<FileDetailsField, { from: unknown; to: unknown }>>;
+}
+
+export interface FileChangesResponse {
+  success: boolean;
+  changes: FileChange[];
+  error?: string;
+}
+
+export interface FoldersResponse {
+  success: boolean;
+  folders: Folder[];
+  error?: string;
+}
+
+export interface FolderResponse {
+  success: boolean;
+  message?: string;
+  folder?: Folder;
+  error?: string;
+}
+
+export interface TagsResponse {
+  success: boolean;
+  tags: Tag[];
+  error?: string;
+}
+
+export interface TagResponse {
+  success: boolean;
+  message?: string;
+  tag?: Tag;
+  error?: string;
+}
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  url: string;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  hasPassword: boolean;
+  active: boolean;
+  revoked: boolean;
+  createdAt: string;
+}
+
+export interface ShareLinksResponse {
+  success: boolean;
+  links: ShareLink[];
+  error?: string;
+}
+
+export interface ShareLinkResponse {
+  success: boolean;
+  message?: string;
+  link?: ShareLink;
+  error?: string;
+}
+
+export interface ResumableUpload {
+  id: string;
+  customName: string;
+  originalName: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: 'pending' | 'assembling' | 'completed' | 'failed' | 'quarantined';
+  expiresAt: string;
+}
+
+export interface ResumableUploadResponse {
+  success: boolean;
+  upload?: ResumableUpload;
+  error?: string;
+}
+
+export type FileSort = 'date' | 'name' | 'size' | 'relevance';
+export type SortDirection = 'asc' | 'desc';
+
 export interface FilesResponse {
   success: boolean;
   files: UploadedFile[];
@@ -35,6 +252,8 @@ export interface FilesResponse {
     limit: number;
     total: number;
     totalPages: number;
+    // Próxima página pelo cursor (?cursor=...); null na última
+    nextCursor: string | null;
   };
   error?: string;
 }
@@ -45,7 +264,269 @@ export interface StatsResponse {
     totalFiles: number;
     totalSize: string;
     recentUploads: number;
+    trashFiles: number;
+    trashSize: string;
+    // Uso em relação às cotas do usuário (a global, para admins)
+    quota: QuotaUsage | null;
+    // Só quando pedido com interval, from ou to
+    analytics?: StatsAnalytics;
+  };
+  error?: string;
+}
+
+export interface QuotaUsage {
+  usedBytes: number;
+  usedFiles: number;
+  // null = sem limite
+  maxBytes: number | null;
+  maxFiles: number | null;
+  // Percentual do limite mais próximo de ser atingido (null sem limites)
+  percent: number | null;
+  warning: boolean;
+}
+
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export interface StatsSeriesPoint {
+  // Início do período (AAAA-MM-DD)
+  period: string;
+  uploads: number;
+  downloads: number;
+}
+
+export interface SizeBucket {
+  label: string;
+  minBytes: number;
+  // null na última faixa
+  maxBytes: number | null;
+  count: number;
+}
+
+export interface RankedFile {
+  id: string;
+  customName: string;
+  fileSize: string;
+  bytes: number;
+  // Downloads no período (só no ranking de mais baixados)
+  downloads?: number;
+}
+
+export interface StatsAnalytics {
+  interval: StatsInterval;
+  from: string;
+  to: string;
+  series: StatsSeriesPoint[];
+  sizeDistribution: SizeBucket[];
+  largest: RankedFile[];
+  mostDownloaded: RankedFile[];
+}
+
+export interface OwnerQuota {
+  userId: string;
+  email: string;
+  name: string;
+  // Cotas próprias do usuário (null = padrão da configuração, 0 = sem limite)
+  customBytes: number | null;
+  customFiles: number | null;
+  usage: QuotaUsage;
+}
+
+export interface OwnerQuotasResponse {
+  success: boolean;
+  owners: OwnerQuota[];
+  error?: string;
+}
+
+export interface OwnerQuotaResponse {
+  success: boolean;
+  message?: string;
+  owner?: OwnerQuota;
+  error?: string;
+}
+
+export type BulkAction = 'delete' | 'move' | 'tag';
+
+export interface BulkActionResponse {
+  success: boolean;
+  message?: string;
+  affected: number;
+  // Ids inexistentes ou sem acesso; nesse caso nada é alterado
+  notFound?: string[];
+  error?: string;
+}
+
+// Origem das páginas de um documento gerado por junção, divisão, extração ou rotação
+export interface FileSource {
+  // null quando o documento de origem já foi excluído definitivamente
+  fileId: string | null;
+  name: string;
+  version: number;
+  operation: 'merge' | 'split' | 'extract' | 'rotate' | 'compose';
+  pages: number[];
+}
+
+export interface FileSourcesResponse {
+  success: boolean;
+  sources: FileSource[];
+  error?: string;
+}
+
+export interface TrashResponse {
+  success: boolean;
+  files: UploadedFile[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
   };
+  // Dias até a remoção definitiva automática
+  retentionDays: number;
+  error?: string;
+}
+
+export type AuditAction =
+  | 'upload' | 'download' | 'view' | 'delete' | 'restore' | 'purge' | 'move' | 'tag' | 'update'
+  | 'version.upload' | 'version.download' | 'version.promote'
+  | 'share.create' | 'share.revoke' | 'share.download'
+  | 'merge' | 'split' | 'extract' | 'rotate' | 'compose';
+
+// success: concluída; denied: sem sessão, sem acesso ou inexistente; failure: erro ou interrompida
+export type AuditResult = 'success' | 'failure' | 'denied';
+
+export interface AuditEvent {
+  id: string;
+  occurredAt: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  fileId: string | null;
+  fileName: string | null;
+  action: AuditAction;
+  result: AuditResult;
+  details: Record<string, unknown> | null;
+}
+
+export interface AuditResponse {
+  success: boolean;
+  events: AuditEvent[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  error?: string;
+}
+
+export type WebhookEvent =
+  | 'file.uploaded' | 'file.downloaded' | 'file.deleted' | 'file.restored' | 'file.version_uploaded' | 'file.updated'
+  | 'webhook.ping';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  active: boolean;
+  createdAt: string;
+  // Só é devolvido na criação e ao trocar o segredo
+  secret?: string;
+}
+
+export interface WebhookSubscriptionsResponse {
+  success: boolean;
+  subscriptions: WebhookSubscription[];
+  error?: string;
+}
+
+export interface WebhookSubscriptionResponse {
+  success: boolean;
+  message?: string;
+  subscription?: WebhookSubscription;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface WebhookDeliveriesResponse {
+  success: boolean;
+  deliveries: WebhookDelivery[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  error?: string;
+}
+
+export interface WebhookDeliveryResponse {
+  success: boolean;
+  message?: string;
+  delivery?: WebhookDelivery;
+  error?: string;
+}
+
+// Conteúdo de um documento que não confere com o registro no banco
+export type StorageIssue = 'missing' | 'size_mismatch' | 'hash_mismatch';
+
+export type StorageFindingKind =
+  | StorageIssue
+  // ref_count do blob difere do número de versões que o usam
+  | 'ref_count'
+  // blob sem nenhuma versão que o use
+  | 'unreferenced_blob'
+  // objetos no storage sem registro no banco
+  | 'orphan' | 'orphan_preview' | 'orphan_quarantine'
+  // registro de quarentena sem o objeto
+  | 'missing_quarantine';
+
+export type StorageRepairAction = 'adopt' | 'markBroken' | 'fixRefCounts' | 'purge';
+
+export interface StorageFinding {
+  kind: StorageFindingKind;
+  key: string;
+  detail: string;
+  // Documentos cujo conteúdo atual é este objeto
+  files?: { id: string; name: string }[];
+}
+
+export interface StorageRepair {
+  action: StorageRepairAction;
+  key: string;
+  applied: boolean;
+  detail: string;
+}
+
+export interface StorageCheckReport {
+  driver: string;
+  checkedAt: string;
+  verifiedHashes: boolean;
+  dryRun: boolean;
+  objectsChecked: number;
+  // Órfãos mais novos que STORAGE_CHECK_MIN_AGE_MINUTES, possivelmente de uploads em andamento
+  recentObjectsSkipped: number;
+  findings: StorageFinding[];
+  repairs: StorageRepair[];
+}
+
+export interface StorageCheckResponse {
+  success: boolean;
+  report?: StorageCheckReport;
   error?: string;
 }
 
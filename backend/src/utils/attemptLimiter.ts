@@ -0,0 +1,45 @@
+/**
+ * Conta tentativas por chave em janelas fixas, em memória (vale para um
+ * único processo). Depois de `max` tentativas na janela, a chave fica
+ * bloqueada até a janela terminar. A tentativa é registrada antes de ser
+ * conferida, para que requisições simultâneas não passem do limite, e
+ * devolvida com forgive() se deu certo.
+ */
+export class AttemptLimiter {
+  private readonly attempts = new Map<string, { count: number; resetAt: number }>();
+  private prunedAt = 0;
+
+  constructor(private readonly max: number, private readonly windowMs: number) {}
+
+  /** Segundos até a chave voltar a ser aceita, ou 0 se não está bloqueada. */
+  retryAfter(key: string): number {
+    const entry = this.attempts.get(key);
+    if (!entry || entry.resetAt <= Date.now()) return 0;
+    return entry.count >= this.max ? Math.ceil((entry.resetAt - Date.now()) / 1000) : 0;
+  }
+
+  record(key: string): void {
+    const now = Date.now();
+    const entry = this.attempts.get(key);
+    if (entry && entry.resetAt > now) {
+      entry.count++;
+      return;
+    }
+    this.prune(now);
+    this.attempts.set(key, { count: 1, resetAt: now + this.windowMs });
+  }
+
+  forgive(key: string): void {
+    const entry = this.attempts.get(key);
+    if (entry && entry.count > 0) entry.count--;
+  }
+
+  // Descarta as janelas encerradas (no máximo uma vez por janela), para o mapa não crescer com cada IP visto
+  private prune(now: number): void {
+    if (now - this.prunedAt < this.windowMs) return;
+    this.prunedAt = now;
+    for (const [key, entry] of this.attempts) {
+      if (entry.resetAt <= now) this.attempts.delete(key);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Proteção contra SSRF nos webhooks: a URL só é aceita, e a conexão só é
+ * aberta, se o host resolver para endereços públicos (nada de loopback,
+ * redes privadas, link-local como 169.254.169.254 etc.).
+ */
+
+const BLOCKED = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export const isPrivateAddress = (address: string): boolean => {
+  // IPv4 mapeado em IPv6 (::ffff:127.0.0.1) vale como o IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return BLOCKED.check(mapped[1], 'ipv4');
+  const family = net.isIP(address);
+  return family === 0 || BLOCKED.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+// Host da URL sem os colchetes de um IPv6 literal
+const hostOf = (url: URL): string => url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+export class PrivateAddressError extends Error {
+  constructor(host: string) {
+    super(`${host} aponta para um endereço interno`);
+  }
+}
+
+/**
+ * Confere se todos os endereços do host são públicos. Lança
+ * PrivateAddressError, ou o erro do DNS se o host não existir.
+ */
+export const assertPublicUrl = async (url: string): Promise<void> => {
+  const host = hostOf(new URL(url));
+  const addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new PrivateAddressError(host);
+  }
+};
+
+// IPs literais não passam pelo lookup da conexão
+export const isPrivateHost = (url: URL): boolean => net.isIP(hostOf(url)) !== 0 && isPrivateAddress(hostOf(url));
+
+/**
+ * lookup para http.request que recusa hosts com endereço interno. Como a
+ * conexão usa o endereço conferido aqui, um DNS que muda de resposta entre
+ * o cadastro e a entrega não contorna a verificação.
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    const list = addresses as dns.LookupAddress[];
+    if (list.length === 0 || list.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new PrivateAddressError(hostname), '', 0);
+    }
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
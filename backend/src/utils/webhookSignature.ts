@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+/**
+ * Assinatura enviada em X-Webhook-Signature: HMAC-SHA256 de
+ * "<X-Webhook-Timestamp>.<corpo>" com o segredo da assinatura.
+ */
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Conferência feita pelo receptor (ver src/tools/webhookReceiver.ts), em tempo constante
+export const verifyWebhookSignature = (secret: string, timestamp: string, body: string, signature: string): boolean => {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
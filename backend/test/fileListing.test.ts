@@ -0,0 +1,46 @@
+/**
+ * Cursores da listagem (parseFileListing): o valor tem que ser do tipo da
+ * coluna de ordenação, para nunca chegar ao banco um cast inválido.
+ */
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { encodeCursor, parseFileListing } from '../src/services/fileListing';
+import { FileSort } from '../src/types';
+
+const ID = '4a54f72f-beaf-4c33-9ddb-6fbc251fa8c8';
+
+const withCursor = (sort: FileSort, value: string) =>
+  parseFileListing({ sort, cursor: encodeCursor({ sort, direction: sort === 'name' ? 'asc' : 'desc', value, id: ID }) }, sort === 'relevance');
+
+describe('cursor da listagem', () => {
+  test('aceita os valores gerados pelo banco', () => {
+    for (const [sort, value] of [
+      ['date', '2026-10-18 21:19:26.451571'],
+      ['date', '2026-10-18 21:19:26'],
+      ['size', '1004'],
+      ['name', 'contrato'],
+      ['relevance', '0.1'],
+      ['relevance', '1e-05']
+    ] as [FileSort, string][]) {
+      assert.ok(!('error' in withCursor(sort, value)), `${sort} ${value}`);
+    }
+  });
+
+  test('recusa valores que não convertem para o tipo da coluna', () => {
+    for (const [sort, value] of [
+      ['date', 'abc'],
+      ['date', '2026-13-01 00:00:00'],
+      ['date', '2026-02-30 00:00:00'],
+      ['date', '0000-01-01 00:00:00'],
+      ['size', '1x'],
+      ['size', '99999999999999999999'],
+      ['name', 'a\u0000b'],
+      ['relevance', 'NaN'],
+      ['relevance', '1e50'],
+      ['relevance', '1e-50']
+    ] as [FileSort, string][]) {
+      assert.deepEqual(withCursor(sort, value), { error: 'Cursor inválido para esta ordenação' }, `${sort} ${value}`);
+    }
+  });
+});
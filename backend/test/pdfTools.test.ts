@@ -0,0 +1,27 @@
+/**
+ * Intervalos de páginas das operações de dividir e extrair (parsePageRanges).
+ */
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { parsePageRanges } from '../src/services/pdfTools';
+
+describe('parsePageRanges', () => {
+  test('aceita páginas, intervalos, intervalos abertos e decrescentes', () => {
+    assert.deepEqual(parsePageRanges('1-3, 5, 4-', 5), [[1, 2, 3], [5], [4, 5]]);
+    assert.deepEqual(parsePageRanges('5-3', 5), [[5, 4, 3]]);
+  });
+
+  test('recusa pontas fora do documento', () => {
+    for (const input of ['10-', '3-0', '0', '0-2', '6', '2-6', '1000000000-1', '1-1000000000']) {
+      assert.equal(parsePageRanges(input, 5), null, input);
+    }
+  });
+
+  test('recusa formatos inválidos', () => {
+    for (const input of ['', ' ', 'a', '1-2-3', '-3', '1,,2', '1.5']) {
+      assert.equal(parsePageRanges(input, 5), null, input);
+    }
+    assert.equal(parsePageRanges(3, 5), null);
+  });
+});
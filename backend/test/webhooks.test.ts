@@ -0,0 +1,158 @@
+/**
+ * Entrega de webhooks contra um receptor HTTP local: assinatura, corpo e
+ * novas tentativas. Usa o banco configurado (DB_*), com um usuário e uma
+ * assinatura criados só para o teste e removidos ao final.
+ */
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, test } from 'node:test';
+
+// Lidos pelo config na importação: receptor em localhost, esperas curtas e poucas tentativas
+process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS = 'true';
+process.env.WEBHOOK_RETRY_BASE_SECONDS = '1';
+process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const SECRET = crypto.randomBytes(16).toString('hex');
+
+let db: typeof import('../src/database/config');
+let webhooks: typeof import('../src/services/webhooks');
+let signature: typeof import('../src/utils/webhookSignature');
+
+let server: http.Server;
+let received: ReceivedRequest[] = [];
+// Status das próximas respostas do receptor; vazio = 204
+let responses: number[] = [];
+let ownerId: string;
+let subscriptionId: string;
+
+const waitForDelivery = async (deliveryId: string, timeoutMs: number = 20000) => {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    await webhooks.processWebhookQueue();
+    const result = await db.query('SELECT * FROM webhook_deliveries WHERE id = $1', [deliveryId]);
+    const delivery = result.rows[0];
+    if (delivery.status !== 'pending') return delivery;
+    if (Date.now() > deadline) throw new Error(`Entrega ainda pendente após ${timeoutMs} ms`);
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+};
+
+describe('entrega de webhooks', () => {
+  before(async () => {
+    db = await import('../src/database/config');
+    webhooks = await import('../src/services/webhooks');
+    signature = await import('../src/utils/webhookSignature');
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+        res.writeHead(responses.shift() ?? 204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const user = await db.query(
+      `INSERT INTO users (name, email, password_hash, role) VALUES ('Teste webhooks', $1, 'x', 'user') RETURNING id`,
+      [`webhook-test-${crypto.randomUUID()}@example.com`]
+    );
+    ownerId = user.rows[0].id;
+    const subscription = await db.query(
+      `INSERT INTO webhook_subscriptions (owner_id, url, secret, events) VALUES ($1, $2, $3, $4) RETURNING id`,
+      [ownerId, `http://127.0.0.1:${port}/hook`, SECRET, ['file.uploaded']]
+    );
+    subscriptionId = subscription.rows[0].id;
+  });
+
+  after(async () => {
+    // Assinatura e entregas saem junto com o usuário (ON DELETE CASCADE)
+    await db.query('DELETE FROM users WHERE id = $1', [ownerId]);
+    await db.pool.end();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('envia o corpo assinado e repete após falhas até o receptor aceitar', async () => {
+    received = [];
+    responses = [500, 503];
+
+    const queued = await webhooks.queueWebhookPing(subscriptionId);
+    const delivery = await waitForDelivery(queued.id);
+
+    assert.equal(delivery.status, 'succeeded');
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.last_status_code, 204);
+    assert.equal(received.length, 3);
+
+    for (const request of received) {
+      assert.equal(request.headers['content-type'], 'application/json');
+      assert.equal(request.headers['x-webhook-event'], 'webhook.ping');
+      assert.equal(request.headers['x-webhook-delivery'], queued.id);
+      const timestamp = String(request.headers['x-webhook-timestamp']);
+      assert.ok(Math.abs(Date.now() / 1000 - parseInt(timestamp)) < 60);
+      assert.ok(signature.verifyWebhookSignature(SECRET, timestamp, request.body, String(request.headers['x-webhook-signature'])));
+      assert.ok(!signature.verifyWebhookSignature('outro-segredo', timestamp, request.body, String(request.headers['x-webhook-signature'])));
+    }
+
+    // O mesmo evento em todas as tentativas, para o receptor deduplicar
+    const bodies = received.map(request => JSON.parse(request.body));
+    assert.equal(bodies[0].event, 'webhook.ping');
+    assert.equal(bodies[0].subscriptionId, subscriptionId);
+    assert.ok(bodies.every(body => body.id === bodies[0].id));
+  });
+
+  test('marca a entrega como falha ao esgotar as tentativas', async () => {
+    received = [];
+    responses = [500, 500, 500];
+
+    const queued = await webhooks.queueWebhookPing(subscriptionId);
+    const delivery = await waitForDelivery(queued.id);
+
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.last_status_code, 500);
+    assert.equal(delivery.last_error, 'HTTP 500');
+    assert.equal(delivery.next_attempt_at, null);
+    assert.equal(received.length, 3);
+  });
+
+  test('espera entre as tentativas cresce exponencialmente', async () => {
+    received = [];
+    responses = [500, 500];
+
+    const queued = await webhooks.queueWebhookPing(subscriptionId);
+    const waits: number[] = [];
+    for (const attempts of [1, 2]) {
+      const deadline = Date.now() + 10000;
+      let row: any;
+      do {
+        await webhooks.processWebhookQueue();
+        const result = await db.query(
+          `SELECT attempts, status, EXTRACT(EPOCH FROM next_attempt_at - NOW())::float AS wait
+           FROM webhook_deliveries WHERE id = $1`,
+          [queued.id]
+        );
+        row = result.rows[0];
+        if (row.attempts < attempts) await new Promise(resolve => setTimeout(resolve, 100));
+      } while (row.attempts < attempts && Date.now() < deadline);
+      assert.equal(row.attempts, attempts);
+      assert.equal(row.status, 'pending');
+      waits.push(row.wait);
+    }
+    // Base de 1s: ~1s depois da 1ª falha, ~2s depois da 2ª
+    assert.ok(waits[0] > 0.5 && waits[0] <= 1, `espera ${waits[0]}`);
+    assert.ok(waits[1] > 1.5 && waits[1] <= 2, `espera ${waits[1]}`);
+
+    const delivery = await waitForDelivery(queued.id);
+    assert.equal(delivery.status, 'succeeded');
+    assert.equal(received.length, 3);
+  });
+});
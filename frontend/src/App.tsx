@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import axios from 'axios';
 import { 
   UploadedFile, 
@@ -8,26 +8,90 @@ import {
   StatsResponse, 
   DeleteResponse,
   Message,
-  Pagination 
+  Pagination,
+  PendingUpload,
+  AuthUser,
+  AuthResponse,
+  Folder,
+  FoldersResponse,
+  FileResponse,
+  Tag,
+  TrashResponse,
+  RejectedFile,
+  BulkAction,
+  BulkActionResponse,
+  FileListQuery
 } from './types';
+import {
+  RESUMABLE_THRESHOLD,
+  MAX_RESUMABLE_SIZE,
+  resumableUpload,
+  listPendingUploads,
+  findPendingUpload,
+  discardPendingUpload
+} from './services/resumableUpload';
+import { AppTab, readListingState, toListParams, writeListingState } from './services/listingUrl';
+import VersionHistoryDrawer from './components/VersionHistoryDrawer';
+import ShareDialog from './components/ShareDialog';
+import PageOrganizer from './components/PageOrganizer';
+import ActivityTimeline from './components/ActivityTimeline';
+import StatsDashboard from './components/StatsDashboard';
+import FileDetailsEditor from './components/FileDetailsEditor';
+import FileListControls from './components/FileListControls';
+import FileThumbnail from './components/FileThumbnail';
+import PdfViewerModal from './components/PdfViewerModal';
+import FileMetadata from './components/FileMetadata';
+import AuthScreen from './components/AuthScreen';
+import FolderTree, { FolderFilter, FILE_DRAG_TYPE } from './components/FolderTree';
+import TagChips from './components/TagChips';
 
 const API_BASE = '/api';
 
+// Aba, página, pasta, tag, ordenação e filtros vindos da URL
+const initialListing = readListingState();
+
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'upload' | 'files' | 'search'>('upload');
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState<boolean>(false);
+  const [activeTab, setActiveTab] = useState<AppTab>(initialListing.tab);
   const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
   const [files, setFiles] = useState<UploadedFile[]>([]);
-  const [stats, setStats] = useState({ totalFiles: 0, totalSize: '0 MB', recentUploads: 0 });
+  const [stats, setStats] = useState<StatsResponse['stats']>({
+    totalFiles: 0, totalSize: '0 MB', recentUploads: 0, trashFiles: 0, trashSize: '0 MB', quota: null
+  });
   const [loading, setLoading] = useState<boolean>(false);
   const [message, setMessage] = useState<Message>({ text: '', type: 'success' });
-  const [pagination, setPagination] = useState<Pagination>({ page: 1, totalPages: 1 });
+  const [pagination, setPagination] = useState<Pagination>({ page: initialListing.page, totalPages: 1 });
+  const [listQuery, setListQuery] = useState<FileListQuery>(initialListing.query);
+  // A página da URL só vale para a primeira carga; mudar filtros volta à primeira
+  const initialPage = useRef<number>(initialListing.page);
   const [searchTerm, setSearchTerm] = useState<string>('');
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>(listPendingUploads);
+  const [historyFile, setHistoryFile] = useState<UploadedFile | null>(null);
+  const [shareFile, setShareFile] = useState<UploadedFile | null>(null);
+  const [organizerFiles, setOrganizerFiles] = useState<UploadedFile[] | null>(null);
+  const [activityFile, setActivityFile] = useState<UploadedFile | null>(null);
+  const [detailsFile, setDetailsFile] = useState<UploadedFile | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const renameCancelled = useRef<boolean>(false);
+  const [viewerFile, setViewerFile] = useState<UploadedFile | null>(null);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [folderFilter, setFolderFilter] = useState<FolderFilter>(initialListing.folder);
+  const [tagFilter, setTagFilter] = useState<string | null>(initialListing.tag);
+  const [uploadFolderId, setUploadFolderId] = useState<string>('');
+  const [uploadTags, setUploadTags] = useState<string>('');
+  const [trashFiles, setTrashFiles] = useState<UploadedFile[]>([]);
+  const [trashPagination, setTrashPagination] = useState<Pagination>({ page: 1, totalPages: 1 });
+  const [retentionDays, setRetentionDays] = useState<number>(30);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   const showMessage = useCallback((text: string, type: 'success' | 'error' = 'success') => {
     setMessage({ text, type });
     setTimeout(() => setMessage({ text: '', type: 'success' }), 5000);
   }, []);
 
+  const showError = useCallback((text: string) => showMessage(text, 'error'), [showMessage]);
+
   const loadStats = useCallback(async (): Promise<void> => {
     try {
       const response = await axios.get<StatsResponse>(`${API_BASE}/stats`);
@@ -39,20 +103,57 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const loadFolders = useCallback(async (): Promise<void> => {
+    try {
+      const response = await axios.get<FoldersResponse>(`${API_BASE}/folders`);
+      if (response.data.success) {
+        setFolders(response.data.folders);
+      }
+    } catch (error) {
+      console.error('Erro ao carregar pastas:', error);
+    }
+  }, []);
+
   const loadFiles = useCallback(async (page: number = 1): Promise<void> => {
     try {
       setLoading(true);
-      const response = await axios.get<FilesResponse>(`${API_BASE}/files?page=${page}&limit=9`);
+      const params = new URLSearchParams({ page: String(page), limit: '9' });
+      if (folderFilter) params.set('folderId', folderFilter);
+      if (tagFilter) params.append('tag', tagFilter);
+      toListParams(listQuery, params);
+
+      const response = await axios.get<FilesResponse>(`${API_BASE}/files?${params}`);
       if (response.data.success) {
         setFiles(response.data.files);
+        setSelectedIds(new Set());
         setPagination({
           page: response.data.pagination.page,
           totalPages: response.data.pagination.totalPages
         });
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Erro ao carregar arquivos:', error);
-      showMessage('Erro ao carregar arquivos', 'error');
+      showMessage(error.response?.data?.error || 'Erro ao carregar arquivos', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [folderFilter, tagFilter, listQuery, showMessage]);
+
+  const loadTrash = useCallback(async (page: number = 1): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await axios.get<TrashResponse>(`${API_BASE}/trash?page=${page}&limit=9`);
+      if (response.data.success) {
+        setTrashFiles(response.data.files);
+        setRetentionDays(response.data.retentionDays);
+        setTrashPagination({
+          page: response.data.pagination.page,
+          totalPages: response.data.pagination.totalPages
+        });
+      }
+    } catch (error) {
+      console.error('Erro ao carregar lixeira:', error);
+      showMessage('Erro ao carregar lixeira', 'error');
     } finally {
       setLoading(false);
     }
@@ -81,20 +182,60 @@ const App: React.FC = () => {
     }
   }, [searchTerm, showMessage]);
 
+  // Sessão expirada em qualquer chamada leva de volta ao login
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, error => {
+      if (error.response?.status === 401) {
+        setUser(null);
+      }
+      return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, []);
+
   useEffect(() => {
+    axios.get<AuthResponse>(`${API_BASE}/auth/me`)
+      .then(response => setUser(response.data.user || null))
+      .catch(() => setUser(null))
+      .finally(() => setAuthChecked(true));
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
     loadStats();
-    loadFiles();
-  }, [loadStats, loadFiles]);
+    loadFiles(initialPage.current);
+    initialPage.current = 1;
+  }, [user, loadStats, loadFiles]);
+
+  useEffect(() => {
+    writeListingState({ tab: activeTab, page: pagination.page, folder: folderFilter, tag: tagFilter, query: listQuery });
+  }, [activeTab, pagination.page, folderFilter, tagFilter, listQuery]);
+
+  useEffect(() => {
+    if (user) loadFolders();
+  }, [user, loadFolders]);
+
+  const logout = async (): Promise<void> => {
+    try {
+      await axios.post(`${API_BASE}/auth/logout`);
+    } finally {
+      setUser(null);
+      setFiles([]);
+    }
+  };
+
+  // Um upload interrompido reaproveita o nome escolhido antes do reload
+  const toSelectedFile = (file: File): SelectedFile => ({
+    file,
+    customName: findPendingUpload(file)?.customName ?? file.name.replace('.pdf', '')
+  });
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>): void => {
     const newFiles = Array.from(event.target.files || []).filter(file => 
-      file.type === 'application/pdf' && file.size <= 10 * 1024 * 1024
+      file.type === 'application/pdf' && file.size <= MAX_RESUMABLE_SIZE
     );
     
-    const filesWithCustomNames: SelectedFile[] = newFiles.map(file => ({
-      file,
-      customName: file.name.replace('.pdf', '')
-    }));
+    const filesWithCustomNames: SelectedFile[] = newFiles.map(toSelectedFile);
     
     setSelectedFiles(prev => [...prev, ...filesWithCustomNames]);
   };
@@ -114,13 +255,10 @@ const App: React.FC = () => {
     event.currentTarget.classList.remove('dragover');
     
     const droppedFiles = Array.from(event.dataTransfer.files).filter(file => 
-      file.type === 'application/pdf' && file.size <= 10 * 1024 * 1024
+      file.type === 'application/pdf' && file.size <= MAX_RESUMABLE_SIZE
     );
     
-    const filesWithCustomNames: SelectedFile[] = droppedFiles.map(file => ({
-      file,
-      customName: file.name.replace('.pdf', '')
-    }));
+    const filesWithCustomNames: SelectedFile[] = droppedFiles.map(toSelectedFile);
     
     setSelectedFiles(prev => [...prev, ...filesWithCustomNames]);
   };
@@ -143,43 +281,90 @@ const App: React.FC = () => {
       return;
     }
 
-    const formData = new FormData();
-    const customNames = selectedFiles.map(item => item.customName);
-    
-    selectedFiles.forEach(item => {
-      formData.append('pdfFiles', item.file);
-    });
-    formData.append('customNames', JSON.stringify(customNames));
+    // Arquivos pequenos vão juntos em um único envio; os grandes, em partes
+    const smallFiles = selectedFiles.filter(item => item.file.size <= RESUMABLE_THRESHOLD);
+    const largeFiles = selectedFiles.filter(item => item.file.size > RESUMABLE_THRESHOLD);
+    const uploaded: UploadedFile[] = [];
+    const rejected: RejectedFile[] = [];
+    const tags = parseTags(uploadTags);
 
     try {
       setLoading(true);
-      const response = await axios.post<UploadResponse>(`${API_BASE}/upload`, formData, {
-        headers: { 'Content-Type': 'multipart/form-data' }
-      });
 
-      if (response.data.success) {
-        showMessage(response.data.message);
-        setSelectedFiles([]);
-        loadStats();
-        loadFiles();
-        setActiveTab('files');
-      } else {
-        showMessage(response.data.error || 'Erro no upload', 'error');
+      if (smallFiles.length > 0) {
+        const formData = new FormData();
+        const customNames = smallFiles.map(item => item.customName);
+
+        smallFiles.forEach(item => {
+          formData.append('pdfFiles', item.file);
+        });
+        formData.append('customNames', JSON.stringify(customNames));
+        if (uploadFolderId) formData.append('folderId', uploadFolderId);
+        formData.append('tags', JSON.stringify(tags));
+
+        // 422: todos os arquivos foram rejeitados na validação
+        const response = await axios.post<UploadResponse>(`${API_BASE}/upload`, formData, {
+          headers: { 'Content-Type': 'multipart/form-data' },
+          validateStatus: status => (status >= 200 && status < 300) || status === 422
+        });
+
+        if (!response.data.success && !response.data.rejected) {
+          showMessage(response.data.error || 'Erro no upload', 'error');
+          return;
+        }
+        uploaded.push(...response.data.files);
+        rejected.push(...(response.data.rejected || []));
+        setSelectedFiles(prev => prev.filter(item => !smallFiles.includes(item)));
       }
+
+      for (const item of largeFiles) {
+        const result = await resumableUpload(item.file, item.customName, progress =>
+          setSelectedFiles(prev =>
+            prev.map(selected => selected.file === item.file ? { ...selected, progress } : selected)
+          ),
+          { folderId: uploadFolderId || null, tags }
+        );
+        uploaded.push(...result.files);
+        rejected.push(...(result.rejected || []));
+        setSelectedFiles(prev => prev.filter(selected => selected.file !== item.file));
+      }
+
+      const duplicates = uploaded.filter(file => file.duplicate);
+      showMessage(
+        `${uploaded.length} arquivo(s) upload realizado com sucesso!` +
+        (duplicates.length > 0
+          ? ` Já existiam: ${duplicates.map(file => file.duplicateOf?.customName ?? file.customName).join(', ')}.`
+          : '') +
+        (rejected.length > 0
+          ? ` Rejeitados e enviados para a quarentena: ${rejected.map(file => `${file.originalName} (${file.reason})`).join('; ')}.`
+          : ''),
+        uploaded.length === 0 ? 'error' : 'success'
+      );
+      loadStats();
+      loadFiles();
+      loadFolders();
+      setActiveTab('files');
     } catch (error: any) {
       console.error('Erro no upload:', error);
-      showMessage(error.response?.data?.error || 'Erro no upload', 'error');
+      const retryHint = largeFiles.length > 0 ? ' Tente novamente para retomar.' : '';
+      showMessage((error.response?.data?.error || 'Erro no upload.') + retryHint, 'error');
     } finally {
+      setPendingUploads(listPendingUploads());
       setLoading(false);
     }
   };
 
+  const discardUpload = async (pending: PendingUpload): Promise<void> => {
+    await discardPendingUpload(pending);
+    setPendingUploads(listPendingUploads());
+  };
+
   const downloadFile = (fileId: string): void => {
     window.open(`${API_BASE}/download/${fileId}`, '_blank');
   };
 
   const deleteFile = async (fileId: string): Promise<void> => {
-    if (!confirm('Tem certeza que deseja deletar este arquivo?')) return;
+    if (!confirm('Mover este arquivo para a lixeira?')) return;
 
     try {
       const response = await axios.delete<DeleteResponse>(`${API_BASE}/files/${fileId}`);
@@ -187,6 +372,7 @@ const App: React.FC = () => {
         showMessage(response.data.message);
         loadStats();
         loadFiles();
+        loadFolders();
       } else {
         showMessage(response.data.error || 'Erro ao deletar arquivo', 'error');
       }
@@ -196,6 +382,172 @@ const App: React.FC = () => {
     }
   };
 
+  const restoreFile = async (fileId: string): Promise<void> => {
+    try {
+      const response = await axios.post<FileResponse>(`${API_BASE}/files/${fileId}/restore`);
+      showMessage(response.data.message || 'Arquivo restaurado');
+      loadStats();
+      loadTrash(trashPagination.page);
+      loadFolders();
+    } catch (error: any) {
+      console.error('Erro ao restaurar:', error);
+      showMessage(error.response?.data?.error || 'Erro ao restaurar arquivo', 'error');
+    }
+  };
+
+  const purgeFile = async (fileId: string): Promise<void> => {
+    if (!confirm('Remover definitivamente? Esta ação não pode ser desfeita.')) return;
+
+    try {
+      const response = await axios.delete<DeleteResponse>(`${API_BASE}/trash/${fileId}`);
+      showMessage(response.data.message);
+      loadStats();
+      loadTrash(trashPagination.page);
+    } catch (error: any) {
+      console.error('Erro ao remover definitivamente:', error);
+      showMessage(error.response?.data?.error || 'Erro ao remover arquivo', 'error');
+    }
+  };
+
+  const emptyTrash = async (): Promise<void> => {
+    if (!confirm('Esvaziar a lixeira? Todos os arquivos nela serão removidos definitivamente.')) return;
+
+    try {
+      const response = await axios.delete<DeleteResponse>(`${API_BASE}/trash`);
+      showMessage(response.data.message);
+      loadStats();
+      loadTrash();
+    } catch (error: any) {
+      console.error('Erro ao esvaziar lixeira:', error);
+      showMessage(error.response?.data?.error || 'Erro ao esvaziar lixeira', 'error');
+    }
+  };
+
+  // Troca o documento na listagem pela versão devolvida pelo servidor
+  const replaceFile = (updated: UploadedFile): void =>
+    setFiles(current => current.map(file => file.id === updated.id ? { ...file, ...updated } : file));
+
+  // Renomear direto no card: Enter ou sair do campo salva (no blur), Esc cancela
+  const saveRename = async (file: UploadedFile): Promise<void> => {
+    if (!renaming || renaming.id !== file.id) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (renameCancelled.current) {
+      renameCancelled.current = false;
+      return;
+    }
+    if (!name || name === file.customName) return;
+
+    try {
+      const response = await axios.patch<FileResponse>(`${API_BASE}/files/${file.id}`, {
+        customName: name,
+        updatedAt: file.updatedAt
+      });
+      if (response.data.file) replaceFile(response.data.file);
+      showMessage('Documento renomeado');
+    } catch (error: any) {
+      console.error('Erro ao renomear arquivo:', error);
+      if (error.response?.data?.file) replaceFile(error.response.data.file);
+      showMessage(error.response?.data?.error || 'Erro ao renomear arquivo', 'error');
+    }
+  };
+
+  const toggleSelected = (fileId: string): void => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(fileId)) next.delete(fileId); else next.add(fileId);
+      return next;
+    });
+  };
+
+  const runBulkAction = async (action: BulkAction, options: Record<string, unknown> = {}): Promise<void> => {
+    try {
+      const response = await axios.post<BulkActionResponse>(`${API_BASE}/files/bulk`, {
+        ids: Array.from(selectedIds),
+        action,
+        ...options
+      });
+      showMessage(response.data.message || 'Operação concluída');
+      loadStats();
+      loadFiles(pagination.page);
+      loadFolders();
+    } catch (error: any) {
+      console.error('Erro na operação em lote:', error);
+      showMessage(error.response?.data?.error || 'Erro na operação em lote', 'error');
+    }
+  };
+
+  const bulkDelete = (): void => {
+    if (!confirm(`Mover ${selectedIds.size} arquivo(s) para a lixeira?`)) return;
+    runBulkAction('delete');
+  };
+
+  const bulkTag = (): void => {
+    const input = prompt('Tags a adicionar, separadas por vírgula:');
+    if (!input) return;
+    runBulkAction('tag', { mode: 'add', tags: parseTags(input) });
+  };
+
+  // O ZIP é gerado sob demanda; um <form> deixa o navegador baixar direto, sem passar pela memória
+  const downloadArchive = (): void => {
+    const form = document.createElement('form');
+    form.method = 'POST';
+    form.action = `${API_BASE}/files/archive`;
+    selectedIds.forEach(id => {
+      const input = document.createElement('input');
+      input.type = 'hidden';
+      input.name = 'ids';
+      input.value = id;
+      form.appendChild(input);
+    });
+    document.body.appendChild(form);
+    form.submit();
+    form.remove();
+  };
+
+  const moveFileToFolder = async (fileId: string, folderId: string | null): Promise<void> => {
+    try {
+      const response = await axios.put<FileResponse>(`${API_BASE}/files/${fileId}/folder`, { folderId });
+      showMessage(response.data.message || 'Arquivo movido');
+      loadFiles(pagination.page);
+      loadFolders();
+    } catch (error: any) {
+      console.error('Erro ao mover arquivo:', error);
+      showMessage(error.response?.data?.error || 'Erro ao mover arquivo', 'error');
+    }
+  };
+
+  const editTags = async (file: UploadedFile): Promise<void> => {
+    const input = prompt('Tags separadas por vírgula:', file.tags.map(tag => tag.name).join(', '));
+    if (input === null) return;
+
+    try {
+      const response = await axios.put<FileResponse>(`${API_BASE}/files/${file.id}/tags`, { tags: parseTags(input) });
+      showMessage(response.data.message || 'Tags atualizadas');
+      loadFiles(pagination.page);
+    } catch (error: any) {
+      console.error('Erro ao atualizar tags:', error);
+      showMessage(error.response?.data?.error || 'Erro ao atualizar tags', 'error');
+    }
+  };
+
+  const filterByTag = (tag: Tag): void => {
+    setTagFilter(tag.name);
+    setActiveTab('files');
+  };
+
+  const parseTags = (input: string): string[] =>
+    input.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+
+  // Pastas em ordem de árvore, com recuo, para o seletor do upload
+  const folderOptions = (parentId: string | null = null, depth: number = 0): React.ReactNode[] =>
+    folders
+      .filter(folder => folder.parentId === parentId)
+      .flatMap(folder => [
+        <option key={folder.id} value={folder.id}>{'\u00a0\u00a0'.repeat(depth)}{folder.name}</option>,
+        ...folderOptions(folder.id, depth + 1)
+      ]);
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -204,9 +556,30 @@ const App: React.FC = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  if (!authChecked) {
+    return (
+      <div className="loading">
+        <i className="fas fa-spinner fa-spin"></i> Carregando...
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthScreen onAuthenticated={setUser} />;
+  }
+
   return (
     <div className="container">
       <div className="header">
+        <div className="user-bar">
+          <span>
+            <i className="fas fa-user"></i> {user.name}
+            {user.role === 'admin' && <span className="badge">admin</span>}
+          </span>
+          <button className="btn btn-secondary" onClick={logout}>
+            <i className="fas fa-sign-out-alt"></i> Sair
+          </button>
+        </div>
         <h1><i className="fas fa-file-pdf"></i> Sistema de Upload de PDFs</h1>
         <p>Upload múltiplo com nomes customizados e PostgreSQL</p>
         <div className="stats">
@@ -222,7 +595,31 @@ const App: React.FC = () => {
             <span className="stat-number">{stats.recentUploads}</span>
             <span>Uploads Recentes</span>
           </div>
+          <div className="stat-item">
+            <span className="stat-number">{stats.trashFiles}</span>
+            <span>Na Lixeira ({stats.trashSize})</span>
+          </div>
         </div>
+        {stats.quota && stats.quota.percent !== null && (
+          <div className={`quota ${stats.quota.warning ? 'quota-warning' : ''}`}>
+            <div className="quota-bar">
+              <div className="quota-fill" style={{ width: `${Math.min(stats.quota.percent, 100)}%` }}></div>
+            </div>
+            <span>
+              {user.role === 'admin' ? 'Armazenamento do sistema' : 'Sua cota'}:
+              {stats.quota.maxBytes !== null && ` ${formatFileSize(stats.quota.usedBytes)} de ${formatFileSize(stats.quota.maxBytes)}`}
+              {stats.quota.maxBytes !== null && stats.quota.maxFiles !== null && ' ·'}
+              {stats.quota.maxFiles !== null && ` ${stats.quota.usedFiles} de ${stats.quota.maxFiles} arquivos`}
+              {' '}({stats.quota.percent}%)
+            </span>
+            {stats.quota.warning && (
+              <span className="quota-alert">
+                <i className="fas fa-exclamation-triangle"></i>{' '}
+                {stats.quota.percent >= 100 ? 'Limite atingido: novos envios serão recusados' : 'Perto do limite'}
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="content">
@@ -245,6 +642,21 @@ const App: React.FC = () => {
           >
             <i className="fas fa-search"></i> Buscar
           </div>
+          <div 
+            className={`tab ${activeTab === 'trash' ? 'active' : ''}`}
+            onClick={() => {
+              setActiveTab('trash');
+              loadTrash();
+            }}
+          >
+            <i className="fas fa-trash-restore"></i> Lixeira
+          </div>
+          <div 
+            className={`tab ${activeTab === 'dashboard' ? 'active' : ''}`}
+            onClick={() => setActiveTab('dashboard')}
+          >
+            <i className="fas fa-chart-line"></i> Painel
+          </div>
         </div>
 
         {/* Tab Upload */}
@@ -276,10 +688,27 @@ const App: React.FC = () => {
                 <i className="fas fa-folder-open"></i> Selecione os Arquivos
               </button>
               <p style={{ marginTop: '15px', color: '#7f8c8d' }}>
-                <i className="fas fa-info-circle"></i> Apenas arquivos PDF • Máximo 10MB cada
+                <i className="fas fa-info-circle"></i> Apenas arquivos PDF • Acima de 10MB o envio é feito em partes e pode ser retomado (máximo 500MB)
               </p>
             </div>
 
+            {pendingUploads.length > 0 && (
+              <div className="pending-uploads">
+                <h4><i className="fas fa-history"></i> Uploads interrompidos</h4>
+                <p>Selecione novamente o mesmo arquivo para continuar de onde parou.</p>
+                {pendingUploads.map(pending => (
+                  <div key={pending.key} className="pending-upload">
+                    <span>
+                      {pending.customName} ({formatFileSize(pending.fileSize)}) — {pending.progress}% enviado
+                    </span>
+                    <button className="btn btn-secondary" onClick={() => discardUpload(pending)}>
+                      <i className="fas fa-times"></i> Descartar
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {selectedFiles.length > 0 && (
               <div className="selected-files">
                 <h3>Arquivos selecionados ({selectedFiles.length}):</h3>
@@ -291,7 +720,15 @@ const App: React.FC = () => {
                       </div>
                       <div className="file-details">
                         <div className="file-name">{item.file.name}</div>
-                        <div className="file-size">{formatFileSize(item.file.size)}</div>
+                        <div className="file-size">
+                          {formatFileSize(item.file.size)}
+                          {findPendingUpload(item.file) && ' • upload será retomado'}
+                        </div>
+                        {item.progress !== undefined && (
+                          <div className="upload-progress">
+                            <div className="upload-progress-bar" style={{ width: `${item.progress}%` }} />
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div>
@@ -314,6 +751,27 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {selectedFiles.length > 0 && (
+              <div className="upload-organization">
+                <label>
+                  <span><i className="fas fa-folder"></i> Pasta</span>
+                  <select value={uploadFolderId} onChange={(e) => setUploadFolderId(e.target.value)}>
+                    <option value="">Sem pasta</option>
+                    {folderOptions()}
+                  </select>
+                </label>
+                <label>
+                  <span><i className="fas fa-tags"></i> Tags</span>
+                  <input
+                    type="text"
+                    value={uploadTags}
+                    placeholder="contrato, 2024, cliente"
+                    onChange={(e) => setUploadTags(e.target.value)}
+                  />
+                </label>
+              </div>
+            )}
+
             <div style={{ textAlign: 'center' }}>
               <button 
                 className="btn btn-success" 
@@ -333,84 +791,245 @@ const App: React.FC = () => {
 
         {/* Tab Arquivos */}
         {activeTab === 'files' && (
-          <div className="tab-content active">
-            <div style={{ textAlign: 'center', marginBottom: '20px' }}>
-              <button className="btn" onClick={() => loadFiles()}>
-                <i className="fas fa-sync-alt"></i> Atualizar Lista
-              </button>
-            </div>
-            
-            {loading ? (
-              <div className="loading">
-                <i className="fas fa-spinner fa-spin"></i> Carregando arquivos...
+          <div className="tab-content active files-layout">
+            <FolderTree
+              folders={folders}
+              selected={folderFilter}
+              onSelect={setFolderFilter}
+              onChanged={(text) => {
+                showMessage(text);
+                loadFolders();
+                loadFiles();
+              }}
+              onError={showError}
+              onMoveFile={moveFileToFolder}
+            />
+
+            <div className="files-main">
+              <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+                <button className="btn" onClick={() => loadFiles()}>
+                  <i className="fas fa-sync-alt"></i> Atualizar Lista
+                </button>
               </div>
-            ) : (
-              <>
-                <div className="files-grid">
-                  {files.length === 0 ? (
-                    <div style={{ textAlign: 'center', color: '#7f8c8d', padding: '40px' }}>
-                      Nenhum arquivo encontrado.
-                    </div>
-                  ) : (
-                    files.map(file => (
-                      <div key={file.id} className="file-card">
-                        <div className="file-card-header">
-                          <div>
-                            <h4><i className="fas fa-file-pdf"></i> {file.customName}</h4>
-                            <small style={{ color: '#7f8c8d' }}>Original: {file.originalName}</small>
+
+              <FileListControls value={listQuery} onChange={setListQuery} />
+
+              {selectedIds.size > 0 && (
+                <div className="bulk-bar">
+                  <span><strong>{selectedIds.size}</strong> selecionado(s)</span>
+                  <button className="btn" onClick={downloadArchive} title="Baixar selecionados em ZIP">
+                    <i className="fas fa-file-archive"></i> ZIP
+                  </button>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && runBulkAction('move', {
+                      folderId: e.target.value === 'root' ? null : e.target.value
+                    })}
+                  >
+                    <option value="">Mover para...</option>
+                    <option value="root">Sem pasta</option>
+                    {folderOptions()}
+                  </select>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => setOrganizerFiles(files.filter(file => selectedIds.has(file.id)))}
+                    title="Juntar, reordenar e girar páginas dos selecionados"
+                  >
+                    <i className="fas fa-th"></i> Organizar páginas
+                  </button>
+                  <button className="btn btn-secondary" onClick={bulkTag}>
+                    <i className="fas fa-tags"></i> Tags
+                  </button>
+                  <button className="btn btn-danger" onClick={bulkDelete}>
+                    <i className="fas fa-trash"></i> Excluir
+                  </button>
+                  <button className="btn btn-secondary" onClick={() => setSelectedIds(new Set())}>
+                    <i className="fas fa-times"></i> Limpar seleção
+                  </button>
+                </div>
+              )}
+
+              {tagFilter && (
+                <div className="active-filter">
+                  <i className="fas fa-tag"></i> Filtrando pela tag <strong>{tagFilter}</strong>
+                  <button className="btn btn-secondary" onClick={() => setTagFilter(null)}>
+                    <i className="fas fa-times"></i> Limpar
+                  </button>
+                </div>
+              )}
+              
+              {loading ? (
+                <div className="loading">
+                  <i className="fas fa-spinner fa-spin"></i> Carregando arquivos...
+                </div>
+              ) : (
+                <>
+                  <div className="files-grid">
+                    {files.length === 0 ? (
+                      <div style={{ textAlign: 'center', color: '#7f8c8d', padding: '40px' }}>
+                        Nenhum arquivo encontrado.
+                      </div>
+                    ) : (
+                      files.map(file => (
+                        <div
+                          key={file.id}
+                          className={`file-card ${selectedIds.has(file.id) ? 'selected' : ''}`}
+                          draggable
+                          onDragStart={(e) => e.dataTransfer.setData(FILE_DRAG_TYPE, file.id)}
+                        >
+                          <FileThumbnail file={file} onOpen={() => setViewerFile(file)} />
+                          <div className="file-card-header">
+                            <div>
+                              <h4>
+                                <input
+                                  type="checkbox"
+                                  className="file-select"
+                                  checked={selectedIds.has(file.id)}
+                                  onChange={() => toggleSelected(file.id)}
+                                  title="Selecionar"
+                                />
+                                <i className="fas fa-file-pdf"></i>{' '}
+                                {renaming?.id === file.id ? (
+                                  <input
+                                    type="text"
+                                    className="rename-input"
+                                    autoFocus
+                                    maxLength={255}
+                                    value={renaming.name}
+                                    onChange={(e) => setRenaming({ id: file.id, name: e.target.value })}
+                                    onBlur={() => saveRename(file)}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') e.currentTarget.blur();
+                                      if (e.key === 'Escape') {
+                                        renameCancelled.current = true;
+                                        e.currentTarget.blur();
+                                      }
+                                    }}
+                                  />
+                                ) : (
+                                  <span
+                                    className="file-name"
+                                    onDoubleClick={() => setRenaming({ id: file.id, name: file.customName })}
+                                    title="Clique duas vezes para renomear"
+                                  >
+                                    {file.customName}
+                                  </span>
+                                )}
+                              </h4>
+                              <small style={{ color: '#7f8c8d' }}>Original: {file.originalName}</small>
+                            </div>
+                            <div className="file-card-actions">
+                              <button 
+                                className="btn" 
+                                onClick={() => setViewerFile(file)}
+                                title="Visualizar"
+                              >
+                                <i className="fas fa-eye"></i>
+                              </button>
+                              <button 
+                                className="btn" 
+                                onClick={() => downloadFile(file.id)}
+                                title="Download"
+                              >
+                                <i className="fas fa-download"></i>
+                              </button>
+                              <button 
+                                className="btn btn-secondary" 
+                                onClick={() => setHistoryFile(file)}
+                                title="Histórico de versões"
+                              >
+                                <i className="fas fa-history"></i>
+                              </button>
+                              <button 
+                                className="btn btn-secondary" 
+                                onClick={() => setShareFile(file)}
+                                title="Compartilhar"
+                              >
+                                <i className="fas fa-share-alt"></i>
+                              </button>
+                              <button 
+                                className="btn btn-secondary" 
+                                onClick={() => setOrganizerFiles([file])}
+                                title="Organizar páginas"
+                              >
+                                <i className="fas fa-th"></i>
+                              </button>
+                              <button 
+                                className="btn btn-secondary" 
+                                onClick={() => setDetailsFile(file)}
+                                title="Editar dados"
+                              >
+                                <i className="fas fa-edit"></i>
+                              </button>
+                              <button 
+                                className="btn btn-secondary" 
+                                onClick={() => setActivityFile(file)}
+                                title="Atividade"
+                              >
+                                <i className="fas fa-stream"></i>
+                              </button>
+                              <button 
+                                className="btn btn-danger" 
+                                onClick={() => deleteFile(file.id)}
+                                title="Deletar"
+                              >
+                                <i className="fas fa-trash"></i>
+                              </button>
+                            </div>
                           </div>
-                          <div className="file-card-actions">
-                            <button 
-                              className="btn" 
-                              onClick={() => downloadFile(file.id)}
-                              title="Download"
-                            >
-                              <i className="fas fa-download"></i>
-                            </button>
-                            <button 
-                              className="btn btn-danger" 
-                              onClick={() => deleteFile(file.id)}
-                              title="Deletar"
-                            >
-                              <i className="fas fa-trash"></i>
-                            </button>
+                          <div style={{ marginTop: '10px' }}>
+                            <small><strong>Tamanho:</strong> {file.fileSize}</small><br />
+                            <small><strong>Upload:</strong> {file.uploadDate}</small><br />
+                            <small><strong>Versão:</strong> {file.version} de {file.versionCount}</small><br />
+                            {file.documentDate && (
+                              <><small><strong>Data:</strong> {file.documentDate.split('-').reverse().join('/')}</small><br /></>
+                            )}
+                            {file.referenceNumber && (
+                              <><small><strong>Referência:</strong> {file.referenceNumber}</small><br /></>
+                            )}
+                            <small><strong>ID:</strong> {file.id.substring(0, 8)}...</small>
                           </div>
+                          {file.storageIssue && (
+                            <div className="file-metadata-flags">
+                              <span className="badge badge-danger" title="Contate o administrador">
+                                <i className="fas fa-exclamation-triangle"></i>{' '}
+                                {file.storageIssue === 'missing' ? 'arquivo ausente no storage' : 'arquivo corrompido no storage'}
+                              </span>
+                            </div>
+                          )}
+                          <FileMetadata file={file} />
+                          <TagChips tags={file.tags} onSelect={filterByTag} onEdit={() => editTags(file)} />
                         </div>
-                        <div style={{ marginTop: '10px' }}>
-                          <small><strong>Tamanho:</strong> {file.fileSize}</small><br />
-                          <small><strong>Upload:</strong> {file.uploadDate}</small><br />
-                          <small><strong>ID:</strong> {file.id.substring(0, 8)}...</small>
-                        </div>
-                      </div>
-                    ))
-                  )}
-                </div>
-                
-                {pagination.totalPages > 1 && (
-                  <div className="pagination">
-                    {pagination.page > 1 && (
-                      <button 
-                        className="btn btn-secondary" 
-                        onClick={() => loadFiles(pagination.page - 1)}
-                      >
-                        <i className="fas fa-chevron-left"></i> Anterior
-                      </button>
-                    )}
-                    
-                    <span>Página {pagination.page} de {pagination.totalPages}</span>
-                    
-                    {pagination.page < pagination.totalPages && (
-                      <button 
-                        className="btn btn-secondary" 
-                        onClick={() => loadFiles(pagination.page + 1)}
-                      >
-                        Próxima <i className="fas fa-chevron-right"></i>
-                      </button>
+                      ))
                     )}
                   </div>
-                )}
-              </>
-            )}
+                  
+                  {pagination.totalPages > 1 && (
+                    <div className="pagination">
+                      {pagination.page > 1 && (
+                        <button 
+                          className="btn btn-secondary" 
+                          onClick={() => loadFiles(pagination.page - 1)}
+                        >
+                          <i className="fas fa-chevron-left"></i> Anterior
+                        </button>
+                      )}
+                      
+                      <span>Página {pagination.page} de {pagination.totalPages}</span>
+                      
+                      {pagination.page < pagination.totalPages && (
+                        <button 
+                          className="btn btn-secondary" 
+                          onClick={() => loadFiles(pagination.page + 1)}
+                        >
+                          Próxima <i className="fas fa-chevron-right"></i>
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
           </div>
         )}
 
@@ -421,7 +1040,7 @@ const App: React.FC = () => {
               <input 
                 type="text" 
                 className="search-input" 
-                placeholder="Buscar por nome customizado ou original..." 
+                placeholder="Buscar por nome ou pelo conteúdo dos PDFs..." 
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 onKeyUp={(e) => e.key === 'Enter' && searchFiles()}
@@ -447,12 +1066,20 @@ const App: React.FC = () => {
                 ) : (
                   files.map(file => (
                     <div key={file.id} className="file-card">
+                      <FileThumbnail file={file} onOpen={() => setViewerFile(file)} />
                       <div className="file-card-header">
                         <div>
                           <h4><i className="fas fa-file-pdf"></i> {file.customName}</h4>
                           <small style={{ color: '#7f8c8d' }}>Original: {file.originalName}</small>
                         </div>
                         <div className="file-card-actions">
+                          <button 
+                            className="btn" 
+                            onClick={() => setViewerFile(file)}
+                            title="Visualizar"
+                          >
+                            <i className="fas fa-eye"></i>
+                          </button>
                           <button 
                             className="btn" 
                             onClick={() => downloadFile(file.id)}
@@ -466,6 +1093,15 @@ const App: React.FC = () => {
                         <small><strong>Tamanho:</strong> {file.fileSize}</small><br />
                         <small><strong>Upload:</strong> {file.uploadDate}</small>
                       </div>
+                      <FileMetadata file={file} />
+                      <TagChips tags={file.tags} onSelect={filterByTag} />
+                      {/* O backend escapa o trecho e só insere as tags <mark> */}
+                      {file.snippet && (
+                        <p
+                          className="search-snippet"
+                          dangerouslySetInnerHTML={{ __html: file.snippet }}
+                        />
+                      )}
                     </div>
                   ))
                 )}
@@ -474,6 +1110,163 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Tab Lixeira */}
+        {activeTab === 'trash' && (
+          <div className="tab-content active">
+            <div className="trash-header">
+              <p>
+                <i className="fas fa-info-circle"></i> Arquivos na lixeira são removidos definitivamente
+                após {retentionDays} dias.
+              </p>
+              <button className="btn btn-danger" onClick={emptyTrash} disabled={trashFiles.length === 0}>
+                <i className="fas fa-dumpster"></i> Esvaziar Lixeira
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="loading">
+                <i className="fas fa-spinner fa-spin"></i> Carregando lixeira...
+              </div>
+            ) : (
+              <>
+                <div className="files-grid">
+                  {trashFiles.length === 0 ? (
+                    <div style={{ textAlign: 'center', color: '#7f8c8d', padding: '40px' }}>
+                      A lixeira está vazia.
+                    </div>
+                  ) : (
+                    trashFiles.map(file => (
+                      <div key={file.id} className="file-card">
+                        <div className="file-card-header">
+                          <div>
+                            <h4><i className="fas fa-file-pdf"></i> {file.customName}</h4>
+                            <small style={{ color: '#7f8c8d' }}>Original: {file.originalName}</small>
+                          </div>
+                          <div className="file-card-actions">
+                            <button 
+                              className="btn btn-success" 
+                              onClick={() => restoreFile(file.id)}
+                              title="Restaurar"
+                            >
+                              <i className="fas fa-undo"></i>
+                            </button>
+                            <button 
+                              className="btn btn-danger" 
+                              onClick={() => purgeFile(file.id)}
+                              title="Remover definitivamente"
+                            >
+                              <i className="fas fa-times"></i>
+                            </button>
+                          </div>
+                        </div>
+                        <div style={{ marginTop: '10px' }}>
+                          <small><strong>Tamanho:</strong> {file.fileSize}</small><br />
+                          <small><strong>Upload:</strong> {file.uploadDate}</small><br />
+                          <small><strong>Excluído em:</strong> {file.deletedAt}</small>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {trashPagination.totalPages > 1 && (
+                  <div className="pagination">
+                    {trashPagination.page > 1 && (
+                      <button 
+                        className="btn btn-secondary" 
+                        onClick={() => loadTrash(trashPagination.page - 1)}
+                      >
+                        <i className="fas fa-chevron-left"></i> Anterior
+                      </button>
+                    )}
+                    
+                    <span>Página {trashPagination.page} de {trashPagination.totalPages}</span>
+                    
+                    {trashPagination.page < trashPagination.totalPages && (
+                      <button 
+                        className="btn btn-secondary" 
+                        onClick={() => loadTrash(trashPagination.page + 1)}
+                      >
+                        Próxima <i className="fas fa-chevron-right"></i>
+                      </button>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Tab Painel */}
+        {activeTab === 'dashboard' && (
+          <div className="tab-content active">
+            <StatsDashboard onError={showError} />
+          </div>
+        )}
+
+        {historyFile && (
+          <VersionHistoryDrawer
+            file={historyFile}
+            onClose={() => setHistoryFile(null)}
+            onChanged={(text) => {
+              showMessage(text);
+              loadStats();
+              loadFiles(pagination.page);
+            }}
+            onError={showError}
+          />
+        )}
+
+        {viewerFile && (
+          <PdfViewerModal
+            file={viewerFile}
+            onClose={() => setViewerFile(null)}
+            onError={showError}
+          />
+        )}
+
+        {shareFile && (
+          <ShareDialog
+            file={shareFile}
+            onClose={() => setShareFile(null)}
+            onMessage={showMessage}
+            onError={showError}
+          />
+        )}
+
+        {detailsFile && (
+          <FileDetailsEditor
+            file={detailsFile}
+            onClose={() => setDetailsFile(null)}
+            onSaved={(file, text) => {
+              replaceFile(file);
+              if (text) showMessage(text);
+            }}
+            onError={showError}
+          />
+        )}
+
+        {activityFile && (
+          <ActivityTimeline
+            file={activityFile}
+            onClose={() => setActivityFile(null)}
+            onError={showError}
+          />
+        )}
+
+        {organizerFiles && (
+          <PageOrganizer
+            files={organizerFiles}
+            onClose={() => setOrganizerFiles(null)}
+            onCreated={(text) => {
+              showMessage(text);
+              loadStats();
+              loadFiles(pagination.page);
+            }}
+            onError={showError}
+          />
+        )}
+
         {message.text && (
           <div className={`message ${message.type}`}>
             {message.text}
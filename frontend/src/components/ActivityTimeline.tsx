@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { UploadedFile, AuditAction, AuditEvent, AuditResponse } from '../types';
+
+const API_BASE = '/api';
+const PAGE_SIZE = 30;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  upload: 'Upload',
+  download: 'Download',
+  view: 'Visualização',
+  delete: 'Movido para a lixeira',
+  restore: 'Restaurado da lixeira',
+  purge: 'Removido definitivamente',
+  move: 'Movido de pasta',
+  tag: 'Tags alteradas',
+  update: 'Dados alterados',
+  'version.upload': 'Nova versão',
+  'version.download': 'Download de versão',
+  'version.promote': 'Versão restaurada',
+  'share.create': 'Link criado',
+  'share.revoke': 'Link revogado',
+  'share.download': 'Download por link',
+  merge: 'Criado por junção',
+  split: 'Criado por divisão',
+  extract: 'Criado por extração',
+  rotate: 'Criado por rotação',
+  compose: 'Criado no organizador'
+};
+
+const RESULT_BADGES: Record<AuditEvent['result'], { label: string; className: string }> = {
+  success: { label: 'ok', className: 'badge-success' },
+  denied: { label: 'negado', className: 'badge-warning' },
+  failure: { label: 'falhou', className: 'badge-danger' }
+};
+
+// Resumo legível dos detalhes mais comuns
+const describeDetails = (event: AuditEvent): string => {
+  const details = event.details || {};
+  const parts: string[] = [];
+  if (details.version) parts.push(`versão ${details.version}`);
+  if (details.bulk) parts.push('em lote');
+  if (details.archive) parts.push('no ZIP');
+  if (details.duplicate) parts.push('conteúdo já existente');
+  if (details.error) parts.push(String(details.error));
+  return parts.join(' • ');
+};
+
+interface ActivityTimelineProps {
+  file: UploadedFile;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+// Eventos do log de auditoria de um documento, do mais recente para o mais antigo
+const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ file, onClose, onError }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [page, setPage] = useState<number>(1);
+  const [totalPages, setTotalPages] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const loadEvents = useCallback(async (pageNum: number): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await axios.get<AuditResponse>(
+        `${API_BASE}/audit?fileId=${file.id}&page=${pageNum}&limit=${PAGE_SIZE}`
+      );
+      if (response.data.success) {
+        setEvents(current => pageNum === 1 ? response.data.events : [...current, ...response.data.events]);
+        setPage(pageNum);
+        setTotalPages(response.data.pagination.totalPages);
+      }
+    } catch (error) {
+      console.error('Erro ao carregar atividade:', error);
+      onError('Erro ao carregar atividade');
+    } finally {
+      setLoading(false);
+    }
+  }, [file.id, onError]);
+
+  useEffect(() => {
+    loadEvents(1);
+  }, [loadEvents]);
+
+  return (
+    <div className="drawer-backdrop" onClick={onClose}>
+      <div className="drawer" onClick={(e) => e.stopPropagation()}>
+        <div className="drawer-header">
+          <h3><i className="fas fa-stream"></i> Atividade</h3>
+          <button className="btn btn-secondary" onClick={onClose} title="Fechar">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <p className="drawer-subtitle">{file.customName}</p>
+
+        <a className="btn" href={`${API_BASE}/audit/export?fileId=${file.id}`} download>
+          <i className="fas fa-file-csv"></i> Exportar CSV
+        </a>
+
+        <div className="timeline">
+          {events.map(event => (
+            <div key={event.id} className={`timeline-item ${event.result}`}>
+              <div>
+                <strong>{ACTION_LABELS[event.action] || event.action}</strong>
+                <span className={`badge ${RESULT_BADGES[event.result].className}`}>
+                  {RESULT_BADGES[event.result].label}
+                </span>
+              </div>
+              <small>{event.occurredAt} • {event.actorEmail || 'acesso sem login'}</small><br />
+              {describeDetails(event) && <small>{describeDetails(event)}</small>}
+              <small className="timeline-origin" title={event.userAgent || ''}>{event.ip}</small>
+            </div>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="loading">
+            <i className="fas fa-spinner fa-spin"></i> Carregando atividade...
+          </div>
+        ) : events.length === 0 ? (
+          <p className="drawer-subtitle">Nenhuma atividade registrada.</p>
+        ) : page < totalPages && (
+          <button className="btn btn-secondary" onClick={() => loadEvents(page + 1)}>
+            Carregar mais
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityTimeline;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { AuthUser, AuthResponse } from '../types';
+
+const API_BASE = '/api';
+
+interface AuthScreenProps {
+  onAuthenticated: (user: AuthUser) => void;
+}
+
+const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthenticated }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState<string>('');
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    setError('');
+
+    try {
+      setLoading(true);
+      const payload = mode === 'login' ? { email, password } : { name, email, password };
+      const response = await axios.post<AuthResponse>(`${API_BASE}/auth/${mode}`, payload);
+      if (response.data.success && response.data.user) {
+        onAuthenticated(response.data.user);
+      }
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Erro ao autenticar');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="container auth-container">
+      <div className="header">
+        <h1><i className="fas fa-file-pdf"></i> Sistema de Upload de PDFs</h1>
+        <p>{mode === 'login' ? 'Entre para acessar seus documentos' : 'Crie sua conta'}</p>
+      </div>
+
+      <form className="content auth-form" onSubmit={submit}>
+        {mode === 'register' && (
+          <input
+            type="text"
+            className="search-input"
+            placeholder="Nome"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+        )}
+        <input
+          type="email"
+          className="search-input"
+          placeholder="E-mail"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        <input
+          type="password"
+          className="search-input"
+          placeholder="Senha"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          minLength={mode === 'register' ? 8 : undefined}
+          required
+        />
+
+        {error && <div className="message error">{error}</div>}
+
+        <button type="submit" className="btn btn-success" disabled={loading}>
+          {loading ? (
+            <i className="fas fa-spinner fa-spin"></i>
+          ) : (
+            <i className={`fas ${mode === 'login' ? 'fa-sign-in-alt' : 'fa-user-plus'}`}></i>
+          )}
+          {mode === 'login' ? ' Entrar' : ' Cadastrar'}
+        </button>
+
+        <p>
+          {mode === 'login' ? 'Ainda não tem conta? ' : 'Já tem conta? '}
+          <a href="#" onClick={(e) => { e.preventDefault(); setMode(mode === 'login' ? 'register' : 'login'); setError(''); }}>
+            {mode === 'login' ? 'Cadastre-se' : 'Entrar'}
+          </a>
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default AuthScreen;
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { UploadedFile, FileChange, FileChangesResponse, FileDetailsField, FileResponse } from '../types';
+
+const API_BASE = '/api';
+
+const FIELD_LABELS: Record<FileDetailsField, string> = {
+  customName: 'Nome',
+  description: 'Descrição',
+  documentDate: 'Data do documento',
+  referenceNumber: 'Referência',
+  properties: 'Propriedades'
+};
+
+interface PropertyRow {
+  key: string;
+  value: string;
+}
+
+const toRows = (properties: Record<string, string>): PropertyRow[] =>
+  Object.entries(properties).map(([key, value]) => ({ key, value }));
+
+const describeValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return entries.length > 0 ? entries.map(([key, item]) => `${key}: ${item}`).join(', ') : '—';
+  }
+  return String(value);
+};
+
+interface FileDetailsEditorProps {
+  file: UploadedFile;
+  onClose: () => void;
+  onSaved: (file: UploadedFile, message: string) => void;
+  onError: (message: string) => void;
+}
+
+// Edição do nome e dos dados descritivos, com o histórico de alterações
+const FileDetailsEditor: React.FC<FileDetailsEditorProps> = ({ file, onClose, onSaved, onError }) => {
+  // Versão em que a edição se baseia; o servidor recusa se o documento mudou depois dela
+  const [base, setBase] = useState<UploadedFile>(file);
+  const [customName, setCustomName] = useState<string>(file.customName);
+  const [description, setDescription] = useState<string>(file.description || '');
+  const [documentDate, setDocumentDate] = useState<string>(file.documentDate || '');
+  const [referenceNumber, setReferenceNumber] = useState<string>(file.referenceNumber || '');
+  const [properties, setProperties] = useState<PropertyRow[]>(toRows(file.properties));
+  const [changes, setChanges] = useState<FileChange[]>([]);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const loadChanges = useCallback(async (): Promise<void> => {
+    try {
+      const response = await axios.get<FileChangesResponse>(`${API_BASE}/files/${file.id}/changes`);
+      if (response.data.success) {
+        setChanges(response.data.changes);
+      }
+    } catch (error) {
+      console.error('Erro ao carregar alterações:', error);
+      onError('Erro ao carregar alterações');
+    }
+  }, [file.id, onError]);
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  const resetForm = (current: UploadedFile) => {
+    setBase(current);
+    setCustomName(current.customName);
+    setDescription(current.description || '');
+    setDocumentDate(current.documentDate || '');
+    setReferenceNumber(current.referenceNumber || '');
+    setProperties(toRows(current.properties));
+  };
+
+  const updateProperty = (index: number, row: Partial<PropertyRow>) =>
+    setProperties(current => current.map((item, i) => i === index ? { ...item, ...row } : item));
+
+  const save = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+
+    const filled = properties.filter(row => row.key.trim());
+    const keys = filled.map(row => row.key.trim().toLowerCase());
+    if (new Set(keys).size !== keys.length) {
+      onError('Há propriedades com o mesmo nome');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await axios.patch<FileResponse>(`${API_BASE}/files/${file.id}`, {
+        customName,
+        description,
+        documentDate,
+        referenceNumber,
+        properties: Object.fromEntries(filled.map(row => [row.key.trim(), row.value])),
+        updatedAt: base.updatedAt
+      });
+      if (response.data.file) {
+        resetForm(response.data.file);
+        onSaved(response.data.file, response.data.message || 'Dados atualizados');
+      }
+      loadChanges();
+    } catch (error: any) {
+      console.error('Erro ao salvar dados:', error);
+      // Alterado por outra pessoa: mostra a versão atual para a edição ser refeita
+      if (error.response?.status === 412 && error.response.data.file) {
+        resetForm(error.response.data.file);
+        onSaved(error.response.data.file, '');
+        loadChanges();
+      }
+      onError(error.response?.data?.error || 'Erro ao salvar dados');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="drawer-backdrop modal-backdrop" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="drawer-header">
+          <h3><i className="fas fa-edit"></i> Dados do documento</h3>
+          <button className="btn btn-secondary" onClick={onClose} title="Fechar">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <p className="drawer-subtitle">{base.originalName}</p>
+
+        <form className="share-form" onSubmit={save}>
+          <label>
+            Nome
+            <input
+              type="text"
+              className="custom-name-input"
+              maxLength={255}
+              required
+              value={customName}
+              onChange={(e) => setCustomName(e.target.value)}
+            />
+          </label>
+          <label>
+            Descrição
+            <textarea
+              className="custom-name-input"
+              rows={3}
+              maxLength={5000}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </label>
+          <label>
+            Data do documento
+            <input
+              type="date"
+              className="custom-name-input"
+              value={documentDate}
+              onChange={(e) => setDocumentDate(e.target.value)}
+            />
+          </label>
+          <label>
+            Número de referência
+            <input
+              type="text"
+              className="custom-name-input"
+              maxLength={100}
+              value={referenceNumber}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+            />
+          </label>
+
+          <div className="property-list">
+            <span>Propriedades</span>
+            {properties.map((row, index) => (
+              <div key={index} className="property-row">
+                <input
+                  type="text"
+                  className="custom-name-input"
+                  placeholder="Nome"
+                  maxLength={100}
+                  value={row.key}
+                  onChange={(e) => updateProperty(index, { key: e.target.value })}
+                />
+                <input
+                  type="text"
+                  className="custom-name-input"
+                  placeholder="Valor"
+                  maxLength={1000}
+                  value={row.value}
+                  onChange={(e) => updateProperty(index, { value: e.target.value })}
+                />
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => setProperties(current => current.filter((_, i) => i !== index))}
+                  title="Remover propriedade"
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => setProperties(current => [...current, { key: '', value: '' }])}
+            >
+              <i className="fas fa-plus"></i> Propriedade
+            </button>
+          </div>
+
+          <button type="submit" className="btn btn-success" disabled={saving}>
+            <i className="fas fa-save"></i> Salvar
+          </button>
+        </form>
+
+        <h4 className="details-history-title">Histórico de alterações</h4>
+        {changes.length === 0 ? (
+          <p className="drawer-subtitle">Nenhuma alteração registrada.</p>
+        ) : (
+          <div className="timeline">
+            {changes.map(change => (
+              <div key={change.id} className="timeline-item">
+                <small>{change.changedAt}{change.changedByName && ` • ${change.changedByName}`}</small>
+                {(Object.keys(change.changes) as FileDetailsField[]).map(field => (
+                  <div key={field}>
+                    <strong>{FIELD_LABELS[field]}:</strong> {describeValue(change.changes[field]!.from)}
+                    {' → '}{describeValue(change.changes[field]!.to)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileDetailsEditor;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { FileListQuery } from '../types';
+
+const SORT_LABELS: Record<FileListQuery['sort'], string> = {
+  date: 'Data de upload',
+  name: 'Nome',
+  size: 'Tamanho'
+};
+
+interface FileListControlsProps {
+  value: FileListQuery;
+  onChange: (query: FileListQuery) => void;
+}
+
+// Ordenação e filtros por tamanho e data de upload da aba Arquivos
+const FileListControls: React.FC<FileListControlsProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<FileListQuery>) => onChange({ ...value, ...changes });
+  const filtered = (['minSizeMb', 'maxSizeMb', 'uploadedFrom', 'uploadedTo'] as const).some(key => value[key]);
+
+  return (
+    <div className="list-controls">
+      <label>
+        Ordenar por
+        <select
+          value={value.sort}
+          onChange={(e) => {
+            // Nome começa em A-Z; data e tamanho, pelos mais recentes/maiores
+            const sort = e.target.value as FileListQuery['sort'];
+            update({ sort, order: sort === 'name' ? 'asc' : 'desc' });
+          }}
+        >
+          {(Object.keys(SORT_LABELS) as FileListQuery['sort'][]).map(sort => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </label>
+      <button
+        className="btn btn-secondary"
+        onClick={() => update({ order: value.order === 'asc' ? 'desc' : 'asc' })}
+        title={value.order === 'asc' ? 'Crescente' : 'Decrescente'}
+      >
+        <i className={`fas ${value.order === 'asc' ? 'fa-sort-amount-up' : 'fa-sort-amount-down'}`}></i>
+      </button>
+      <label>
+        Tamanho (MB)
+        <span>
+          <input
+            type="number"
+            min={0}
+            step="0.1"
+            placeholder="mín."
+            value={value.minSizeMb}
+            onChange={(e) => update({ minSizeMb: e.target.value })}
+          />
+          {' – '}
+          <input
+            type="number"
+            min={0}
+            step="0.1"
+            placeholder="máx."
+            value={value.maxSizeMb}
+            onChange={(e) => update({ maxSizeMb: e.target.value })}
+          />
+        </span>
+      </label>
+      <label>
+        Enviado entre
+        <span>
+          <input
+            type="date"
+            value={value.uploadedFrom}
+            max={value.uploadedTo || undefined}
+            onChange={(e) => update({ uploadedFrom: e.target.value })}
+          />
+          {' e '}
+          <input
+            type="date"
+            value={value.uploadedTo}
+            min={value.uploadedFrom || undefined}
+            onChange={(e) => update({ uploadedTo: e.target.value })}
+          />
+        </span>
+      </label>
+      {filtered && (
+        <button
+          className="btn btn-secondary"
+          onClick={() => update({ minSizeMb: '', maxSizeMb: '', uploadedFrom: '', uploadedTo: '' })}
+          title="Limpar filtros"
+        >
+          <i className="fas fa-times"></i>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FileListControls;
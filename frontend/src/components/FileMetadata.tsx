@@ -0,0 +1,33 @@
+import React from 'react';
+import { UploadedFile } from '../types';
+
+interface FileMetadataProps {
+  file: UploadedFile;
+}
+
+// Metadados lidos do PDF no upload
+const FileMetadata: React.FC<FileMetadataProps> = ({ file }) => {
+  const { metadata } = file;
+
+  return (
+    <div className="file-metadata">
+      {file.pageCount !== null && (
+        <small><strong>Páginas:</strong> {file.pageCount}{metadata.pdfVersion && ` • PDF ${metadata.pdfVersion}`}<br /></small>
+      )}
+      {metadata.title && <small><strong>Título:</strong> {metadata.title}<br /></small>}
+      {metadata.author && <small><strong>Autor:</strong> {metadata.author}<br /></small>}
+      {metadata.subject && <small><strong>Assunto:</strong> {metadata.subject}<br /></small>}
+      {metadata.producer && <small><strong>Produzido por:</strong> {metadata.producer}<br /></small>}
+      {metadata.creationDate && <small><strong>Criado em:</strong> {metadata.creationDate}<br /></small>}
+      {(metadata.encrypted || metadata.signed || metadata.hasForms) && (
+        <div className="file-metadata-flags">
+          {metadata.encrypted && <span className="badge badge-warning"><i className="fas fa-lock"></i> criptografado</span>}
+          {metadata.signed && <span className="badge badge-success"><i className="fas fa-signature"></i> assinado</span>}
+          {metadata.hasForms && <span className="badge"><i className="fas fa-edit"></i> formulário</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileMetadata;
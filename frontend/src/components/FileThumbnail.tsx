@@ -0,0 +1,29 @@
+import React, { useState } from 'react';
+import { UploadedFile } from '../types';
+
+interface FileThumbnailProps {
+  file: UploadedFile;
+  onOpen: () => void;
+}
+
+// Miniatura da primeira página; volta ao ícone se a imagem não puder ser gerada
+const FileThumbnail: React.FC<FileThumbnailProps> = ({ file, onOpen }) => {
+  const [failed, setFailed] = useState<boolean>(false);
+
+  return (
+    <div className="file-thumbnail" onClick={onOpen} title="Visualizar">
+      {failed ? (
+        <i className="fas fa-file-pdf"></i>
+      ) : (
+        <img
+          src={file.thumbnailUrl}
+          alt={file.customName}
+          loading="lazy"
+          onError={() => setFailed(true)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FileThumbnail;
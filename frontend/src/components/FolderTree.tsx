@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { Folder, FolderResponse } from '../types';
+
+const API_BASE = '/api';
+
+// Valor do filtro: id da pasta, 'root' (sem pasta) ou null (todos os documentos)
+export type FolderFilter = string | 'root' | null;
+
+// Tipo usado no dataTransfer ao arrastar um cartão de documento
+export const FILE_DRAG_TYPE = 'application/x-pdf-file-id';
+
+interface FolderTreeProps {
+  folders: Folder[];
+  selected: FolderFilter;
+  onSelect: (folder: FolderFilter) => void;
+  onChanged: (message: string) => void;
+  onError: (message: string) => void;
+  onMoveFile: (fileId: string, folderId: string | null) => void;
+}
+
+const FolderTree: React.FC<FolderTreeProps> = ({ folders, selected, onSelect, onChanged, onError, onMoveFile }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const childrenOf = (parentId: string | null): Folder[] =>
+    folders.filter(folder => folder.parentId === parentId);
+
+  const toggle = (id: string): void => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const createFolder = async (parentId: string | null): Promise<void> => {
+    const name = prompt('Nome da nova pasta:');
+    if (!name?.trim()) return;
+
+    try {
+      const response = await axios.post<FolderResponse>(`${API_BASE}/folders`, { name, parentId });
+      onChanged(response.data.message || 'Pasta criada');
+    } catch (error: any) {
+      console.error('Erro ao criar pasta:', error);
+      onError(error.response?.data?.error || 'Erro ao criar pasta');
+    }
+  };
+
+  const renameFolder = async (folder: Folder): Promise<void> => {
+    const name = prompt('Novo nome da pasta:', folder.name);
+    if (!name?.trim() || name === folder.name) return;
+
+    try {
+      const response = await axios.patch<FolderResponse>(`${API_BASE}/folders/${folder.id}`, { name });
+      onChanged(response.data.message || 'Pasta atualizada');
+    } catch (error: any) {
+      console.error('Erro ao renomear pasta:', error);
+      onError(error.response?.data?.error || 'Erro ao renomear pasta');
+    }
+  };
+
+  const deleteFolder = async (folder: Folder): Promise<void> => {
+    if (!confirm(`Excluir a pasta "${folder.name}" e suas subpastas? Os documentos voltam para a raiz.`)) return;
+
+    try {
+      const response = await axios.delete<FolderResponse>(`${API_BASE}/folders/${folder.id}`);
+      if (selected === folder.id) onSelect(null);
+      onChanged(response.data.message || 'Pasta excluída');
+    } catch (error: any) {
+      console.error('Erro ao excluir pasta:', error);
+      onError(error.response?.data?.error || 'Erro ao excluir pasta');
+    }
+  };
+
+  // Alvos de soltura: uma pasta ou 'root'
+  const dropHandlers = (target: string) => ({
+    onDragOver: (event: React.DragEvent<HTMLDivElement>) => {
+      if (!event.dataTransfer.types.includes(FILE_DRAG_TYPE)) return;
+      event.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const fileId = event.dataTransfer.getData(FILE_DRAG_TYPE);
+      if (fileId) onMoveFile(fileId, target === 'root' ? null : target);
+    }
+  });
+
+  const renderFolder = (folder: Folder, depth: number): React.ReactNode => {
+    const children = childrenOf(folder.id);
+    const isCollapsed = collapsed.has(folder.id);
+
+    return (
+      <div key={folder.id}>
+        <div
+          className={`folder-node ${selected === folder.id ? 'active' : ''} ${dropTarget === folder.id ? 'drop-target' : ''}`}
+          style={{ paddingLeft: `${depth * 16 + 8}px` }}
+          onClick={() => onSelect(folder.id)}
+          {...dropHandlers(folder.id)}
+        >
+          <span
+            className="folder-toggle"
+            onClick={(e) => { e.stopPropagation(); toggle(folder.id); }}
+          >
+            {children.length > 0 && <i className={`fas fa-caret-${isCollapsed ? 'right' : 'down'}`}></i>}
+          </span>
+          <i className={`fas fa-folder${selected === folder.id ? '-open' : ''}`}></i>
+          <span className="folder-name">{folder.name}</span>
+          <small className="folder-count">{folder.fileCount}</small>
+          <span className="folder-actions" onClick={(e) => e.stopPropagation()}>
+            <i className="fas fa-plus" title="Nova subpasta" onClick={() => createFolder(folder.id)}></i>
+            <i className="fas fa-pen" title="Renomear" onClick={() => renameFolder(folder)}></i>
+            <i className="fas fa-trash" title="Excluir" onClick={() => deleteFolder(folder)}></i>
+          </span>
+        </div>
+        {!isCollapsed && children.map(child => renderFolder(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="folder-tree">
+      <div className="folder-tree-header">
+        <h4><i className="fas fa-sitemap"></i> Pastas</h4>
+        <button className="btn btn-secondary" onClick={() => createFolder(null)} title="Nova pasta">
+          <i className="fas fa-folder-plus"></i>
+        </button>
+      </div>
+
+      <div
+        className={`folder-node ${selected === null ? 'active' : ''}`}
+        onClick={() => onSelect(null)}
+      >
+        <i className="fas fa-layer-group"></i>
+        <span className="folder-name">Todos os documentos</span>
+      </div>
+      <div
+        className={`folder-node ${selected === 'root' ? 'active' : ''} ${dropTarget === 'root' ? 'drop-target' : ''}`}
+        onClick={() => onSelect('root')}
+        {...dropHandlers('root')}
+      >
+        <i className="fas fa-inbox"></i>
+        <span className="folder-name">Sem pasta</span>
+      </div>
+
+      {childrenOf(null).map(folder => renderFolder(folder, 0))}
+    </div>
+  );
+};
+
+export default FolderTree;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { UploadedFile, UploadResponse } from '../types';
+
+const API_BASE = '/api';
+
+interface PageOrganizerProps {
+  files: UploadedFile[];
+  onClose: () => void;
+  onCreated: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+interface PageTile {
+  key: string;
+  file: UploadedFile;
+  page: number;
+  rotate: number;
+}
+
+const tilesOf = (files: UploadedFile[]): PageTile[] =>
+  files.flatMap(file =>
+    Array.from({ length: file.pageCount || 0 }, (_, index) => ({
+      key: `${file.id}-${index + 1}`,
+      file,
+      page: index + 1,
+      rotate: 0
+    }))
+  );
+
+// Monta um novo documento com páginas dos documentos selecionados: reordenar, girar e remover
+const PageOrganizer: React.FC<PageOrganizerProps> = ({ files, onClose, onCreated, onError }) => {
+  const [pages, setPages] = useState<PageTile[]>(() => tilesOf(files));
+  const [name, setName] = useState<string>(files.length === 1 ? files[0].customName : 'Documentos combinados');
+  const [ranges, setRanges] = useState<string>('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const skipped = files.filter(file => !file.pageCount);
+
+  const movePage = (from: number, to: number): void => {
+    setPages(current => {
+      const next = [...current];
+      const [tile] = next.splice(from, 1);
+      next.splice(to, 0, tile);
+      return next;
+    });
+  };
+
+  const rotatePage = (index: number): void => {
+    setPages(current => current.map((tile, i) => i === index ? { ...tile, rotate: (tile.rotate + 90) % 360 } : tile));
+  };
+
+  const removePage = (index: number): void => {
+    setPages(current => current.filter((_, i) => i !== index));
+  };
+
+  const submit = async (request: () => Promise<{ data: UploadResponse }>): Promise<void> => {
+    try {
+      setSaving(true);
+      const response = await request();
+      onCreated(response.data.message);
+      onClose();
+    } catch (error: any) {
+      console.error('Erro ao gerar documento:', error);
+      onError(error.response?.data?.error || 'Erro ao gerar documento');
+      setSaving(false);
+    }
+  };
+
+  const compose = (): Promise<void> => submit(() =>
+    axios.post<UploadResponse>(`${API_BASE}/files/compose`, {
+      name,
+      pages: pages.map(tile => ({ fileId: tile.file.id, page: tile.page, rotate: tile.rotate }))
+    })
+  );
+
+  const split = (): Promise<void> => submit(() =>
+    axios.post<UploadResponse>(`${API_BASE}/files/${files[0].id}/split`, { ranges })
+  );
+
+  return (
+    <div className="drawer-backdrop modal-backdrop" onClick={onClose}>
+      <div className="modal page-organizer" onClick={(e) => e.stopPropagation()}>
+        <div className="drawer-header">
+          <h3><i className="fas fa-th"></i> Organizar páginas</h3>
+          <button className="btn btn-secondary" onClick={onClose} title="Fechar">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <p className="drawer-subtitle">
+          Arraste para reordenar. O resultado é salvo como um novo documento; os originais não mudam.
+          {skipped.length > 0 && ` Ignorados (criptografados ou sem páginas): ${skipped.map(file => file.customName).join(', ')}.`}
+        </p>
+
+        <div className="page-grid">
+          {pages.map((tile, index) => (
+            <div
+              key={tile.key}
+              className={`page-tile ${dragIndex === index ? 'dragging' : ''}`}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragEnd={() => setDragIndex(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null && dragIndex !== index) movePage(dragIndex, index);
+                setDragIndex(null);
+              }}
+            >
+              <img
+                src={`${API_BASE}/files/${tile.file.id}/pages/${tile.page}?v=${tile.file.version}`}
+                alt={`Página ${tile.page}`}
+                loading="lazy"
+                style={{ transform: `rotate(${tile.rotate}deg)` }}
+              />
+              <small title={tile.file.customName}>
+                {files.length > 1 && `${tile.file.customName} • `}p. {tile.page}
+              </small>
+              <div className="file-card-actions">
+                <button className="btn btn-secondary" onClick={() => rotatePage(index)} title="Girar 90°">
+                  <i className="fas fa-redo"></i>
+                </button>
+                <button className="btn btn-danger" onClick={() => removePage(index)} title="Remover página">
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="page-organizer-actions">
+          <input
+            type="text"
+            className="custom-name-input"
+            placeholder="Nome do novo documento"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button className="btn btn-success" onClick={compose} disabled={saving || pages.length === 0}>
+            <i className="fas fa-file-medical"></i> Criar documento ({pages.length} pág.)
+          </button>
+        </div>
+
+        {files.length === 1 && (
+          <div className="page-organizer-actions">
+            <input
+              type="text"
+              className="custom-name-input"
+              placeholder="Dividir em intervalos, ex.: 1-3, 4-"
+              value={ranges}
+              onChange={(e) => setRanges(e.target.value)}
+            />
+            <button className="btn" onClick={split} disabled={saving || !ranges.trim()}>
+              <i className="fas fa-cut"></i> Dividir
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PageOrganizer;
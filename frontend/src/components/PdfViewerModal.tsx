@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { UploadedFile } from '../types';
+
+const API_BASE = '/api';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+
+interface PdfViewerModalProps {
+  file: UploadedFile;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ file, onClose, onError }) => {
+  const [page, setPage] = useState<number>(1);
+  const [pageCount, setPageCount] = useState<number | null>(file.pageCount);
+  const [zoom, setZoom] = useState<number>(1);
+  const [imageUrl, setImageUrl] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // As páginas vêm como imagem renderizada no backend; o total chega no header
+  useEffect(() => {
+    let objectUrl = '';
+    let cancelled = false;
+
+    setLoading(true);
+    axios.get<Blob>(`${API_BASE}/files/${file.id}/pages/${page}?v=${file.version}`, { responseType: 'blob' })
+      .then(response => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(response.data);
+        setImageUrl(objectUrl);
+        const total = parseInt(response.headers['x-page-count']);
+        if (total) setPageCount(total);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Erro ao carregar página:', error);
+        onError('Erro ao carregar página');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file.id, file.version, page, onError]);
+
+  const goToPage = useCallback((target: number): void => {
+    setPage(current => {
+      if (target < 1 || (pageCount !== null && target > pageCount)) return current;
+      return target;
+    });
+  }, [pageCount]);
+
+  const changeZoom = (delta: number): void => {
+    setZoom(current => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + delta)));
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (event.key === 'Escape') onClose();
+      if (event.key === 'ArrowLeft') goToPage(page - 1);
+      if (event.key === 'ArrowRight') goToPage(page + 1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [page, goToPage, onClose]);
+
+  return (
+    <div className="drawer-backdrop modal-backdrop" onClick={onClose}>
+      <div className="modal viewer" onClick={(e) => e.stopPropagation()}>
+        <div className="drawer-header">
+          <h3><i className="fas fa-file-pdf"></i> {file.customName}</h3>
+          <button className="btn btn-secondary" onClick={onClose} title="Fechar">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="viewer-toolbar">
+          <button className="btn btn-secondary" onClick={() => goToPage(page - 1)} disabled={page <= 1} title="Página anterior">
+            <i className="fas fa-chevron-left"></i>
+          </button>
+          <span>Página {page}{pageCount !== null && ` de ${pageCount}`}</span>
+          <button
+            className="btn btn-secondary"
+            onClick={() => goToPage(page + 1)}
+            disabled={pageCount !== null && page >= pageCount}
+            title="Próxima página"
+          >
+            <i className="fas fa-chevron-right"></i>
+          </button>
+
+          <button className="btn btn-secondary" onClick={() => changeZoom(-ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} title="Diminuir zoom">
+            <i className="fas fa-search-minus"></i>
+          </button>
+          <span>{Math.round(zoom * 100)}%</span>
+          <button className="btn btn-secondary" onClick={() => changeZoom(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} title="Aumentar zoom">
+            <i className="fas fa-search-plus"></i>
+          </button>
+
+          <button className="btn" onClick={() => window.open(file.viewUrl, '_blank')} title="Abrir no navegador">
+            <i className="fas fa-external-link-alt"></i>
+          </button>
+          <button className="btn" onClick={() => window.open(file.downloadUrl, '_blank')} title="Download">
+            <i className="fas fa-download"></i>
+          </button>
+        </div>
+
+        <div className="viewer-page">
+          {loading && (
+            <div className="loading">
+              <i className="fas fa-spinner fa-spin"></i> Carregando página...
+            </div>
+          )}
+          {imageUrl && (
+            <img
+              src={imageUrl}
+              alt={`Página ${page}`}
+              style={{ width: `${zoom * 100}%`, display: loading ? 'none' : 'block' }}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewerModal;
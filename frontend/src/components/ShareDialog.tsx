@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { UploadedFile, ShareLink, ShareLinksResponse, ShareLinkResponse } from '../types';
+
+const API_BASE = '/api';
+
+interface ShareDialogProps {
+  file: UploadedFile;
+  onClose: () => void;
+  onMessage: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const absoluteUrl = (link: ShareLink): string => `${window.location.origin}${link.url}`;
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ file, onClose, onMessage, onError }) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [expiresAt, setExpiresAt] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [maxDownloads, setMaxDownloads] = useState<string>('');
+
+  const loadLinks = useCallback(async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await axios.get<ShareLinksResponse>(`${API_BASE}/files/${file.id}/shares`);
+      if (response.data.success) {
+        setLinks(response.data.links);
+      }
+    } catch (error) {
+      console.error('Erro ao carregar links:', error);
+      onError('Erro ao carregar links');
+    } finally {
+      setLoading(false);
+    }
+  }, [file.id, onError]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const copyLink = async (link: ShareLink): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(absoluteUrl(link));
+      onMessage('Link copiado para a área de transferência');
+    } catch {
+      onError('Não foi possível copiar o link');
+    }
+  };
+
+  const createLink = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+
+    try {
+      setLoading(true);
+      const response = await axios.post<ShareLinkResponse>(`${API_BASE}/files/${file.id}/shares`, {
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        password: password || null,
+        maxDownloads: maxDownloads ? parseInt(maxDownloads) : null
+      });
+      setPassword('');
+      if (response.data.link) {
+        await copyLink(response.data.link);
+      }
+      loadLinks();
+    } catch (error: any) {
+      console.error('Erro ao criar link:', error);
+      onError(error.response?.data?.error || 'Erro ao criar link');
+      setLoading(false);
+    }
+  };
+
+  const revokeLink = async (link: ShareLink): Promise<void> => {
+    if (!confirm('Revogar este link? Quem o recebeu perderá o acesso.')) return;
+
+    try {
+      const response = await axios.delete<ShareLinkResponse>(`${API_BASE}/files/${file.id}/shares/${link.id}`);
+      onMessage(response.data.message || 'Link revogado');
+      loadLinks();
+    } catch (error: any) {
+      console.error('Erro ao revogar link:', error);
+      onError(error.response?.data?.error || 'Erro ao revogar link');
+    }
+  };
+
+  return (
+    <div className="drawer-backdrop modal-backdrop" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="drawer-header">
+          <h3><i className="fas fa-share-alt"></i> Compartilhar</h3>
+          <button className="btn btn-secondary" onClick={onClose} title="Fechar">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <p className="drawer-subtitle">{file.customName}</p>
+
+        <form className="share-form" onSubmit={createLink}>
+          <label>
+            Válido até
+            <input
+              type="datetime-local"
+              className="custom-name-input"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+          </label>
+          <label>
+            Senha
+            <input
+              type="password"
+              className="custom-name-input"
+              placeholder="Opcional"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </label>
+          <label>
+            Máximo de downloads
+            <input
+              type="number"
+              min={1}
+              className="custom-name-input"
+              placeholder="Ilimitado"
+              value={maxDownloads}
+              onChange={(e) => setMaxDownloads(e.target.value)}
+            />
+          </label>
+          <button type="submit" className="btn btn-success" disabled={loading}>
+            <i className="fas fa-link"></i> Gerar e copiar link
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="loading">
+            <i className="fas fa-spinner fa-spin"></i> Carregando links...
+          </div>
+        ) : (
+          <div className="version-list">
+            {links.map(link => (
+              <div key={link.id} className={`version-item ${link.active ? 'current' : ''}`}>
+                <div className="share-link-info">
+                  <code>{absoluteUrl(link)}</code>
+                  {link.hasPassword && <span className="badge">senha</span>}
+                  {!link.active && <span className="badge badge-muted">{link.revoked ? 'revogado' : 'expirado'}</span>}
+                  <br />
+                  <small>
+                    {link.downloadCount}{link.maxDownloads !== null ? ` de ${link.maxDownloads}` : ''} download(s)
+                    {link.expiresAt && ` • até ${link.expiresAt}`}
+                  </small>
+                </div>
+                {link.active && (
+                  <div className="file-card-actions">
+                    <button className="btn" onClick={() => copyLink(link)} title="Copiar link">
+                      <i className="fas fa-copy"></i>
+                    </button>
+                    <button className="btn btn-danger" onClick={() => revokeLink(link)} title="Revogar">
+                      <i className="fas fa-ban"></i>
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { RankedFile, StatsAnalytics, StatsInterval, StatsResponse } from '../types';
+
+const API_BASE = '/api';
+
+const INTERVAL_LABELS: Record<StatsInterval, string> = {
+  day: 'Por dia',
+  week: 'Por semana',
+  month: 'Por mês'
+};
+
+// Período inicial de cada agrupamento, contado a partir de hoje
+const DEFAULT_DAYS: Record<StatsInterval, number> = { day: 30, week: 7 * 12, month: 365 };
+
+const toDateInput = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+};
+
+const daysAgo = (days: number): string => toDateInput(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+
+const formatPeriod = (period: string, interval: StatsInterval): string => {
+  const [year, month, day] = period.split('-');
+  return interval === 'month' ? `${month}/${year}` : `${day}/${month}`;
+};
+
+interface StatsDashboardProps {
+  onError: (message: string) => void;
+}
+
+// Aba de painel: séries de uploads e downloads, tamanhos e rankings de documentos
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ onError }) => {
+  const [interval, setStatsInterval] = useState<StatsInterval>('day');
+  const [from, setFrom] = useState<string>(daysAgo(DEFAULT_DAYS.day));
+  const [to, setTo] = useState<string>(toDateInput(new Date()));
+  const [analytics, setAnalytics] = useState<StatsAnalytics | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const loadAnalytics = useCallback(async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await axios.get<StatsResponse>(`${API_BASE}/stats`, { params: { interval, from, to } });
+      if (response.data.success && response.data.stats.analytics) {
+        setAnalytics(response.data.stats.analytics);
+      }
+    } catch (error: any) {
+      console.error('Erro ao carregar painel:', error);
+      onError(error.response?.data?.error || 'Erro ao carregar painel');
+    } finally {
+      setLoading(false);
+    }
+  }, [interval, from, to, onError]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const changeInterval = (value: StatsInterval) => {
+    setStatsInterval(value);
+    setFrom(daysAgo(DEFAULT_DAYS[value]));
+    setTo(toDateInput(new Date()));
+  };
+
+  const renderRanking = (title: string, icon: string, files: RankedFile[], value: (file: RankedFile) => string) => (
+    <div className="dashboard-card">
+      <h4><i className={`fas ${icon}`}></i> {title}</h4>
+      {files.length === 0 ? (
+        <p className="dashboard-empty">Nenhum documento.</p>
+      ) : (
+        <ol className="dashboard-ranking">
+          {files.map(file => (
+            <li key={file.id}>
+              <span title={file.customName}>{file.customName}</span>
+              <strong>{value(file)}</strong>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+
+  const seriesMax = Math.max(1, ...(analytics?.series || []).flatMap(point => [point.uploads, point.downloads]));
+  const sizeMax = Math.max(1, ...(analytics?.sizeDistribution || []).map(bucket => bucket.count));
+
+  return (
+    <div>
+      <div className="dashboard-controls">
+        <select value={interval} onChange={(e) => changeInterval(e.target.value as StatsInterval)}>
+          {(Object.keys(INTERVAL_LABELS) as StatsInterval[]).map(value => (
+            <option key={value} value={value}>{INTERVAL_LABELS[value]}</option>
+          ))}
+        </select>
+        <label>
+          De <input type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+        </label>
+        <label>
+          Até <input type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} />
+        </label>
+        <button className="btn btn-secondary" onClick={loadAnalytics} disabled={loading}>
+          <i className="fas fa-sync"></i> Atualizar
+        </button>
+      </div>
+
+      {loading && !analytics ? (
+        <div className="loading">
+          <i className="fas fa-spinner fa-spin"></i> Carregando painel...
+        </div>
+      ) : analytics && (
+        <div className="dashboard-grid">
+          <div className="dashboard-card dashboard-wide">
+            <h4><i className="fas fa-chart-bar"></i> Uploads e downloads</h4>
+            <div className="chart-legend">
+              <span><i className="legend-swatch uploads"></i> Uploads</span>
+              <span><i className="legend-swatch downloads"></i> Downloads</span>
+            </div>
+            <div className="bar-chart">
+              {analytics.series.map(point => (
+                <div
+                  key={point.period}
+                  className="bar-group"
+                  title={`${formatPeriod(point.period, analytics.interval)}: ${point.uploads} upload(s), ${point.downloads} download(s)`}
+                >
+                  <div className="bars">
+                    <div className="bar uploads" style={{ height: `${(point.uploads / seriesMax) * 100}%` }}></div>
+                    <div className="bar downloads" style={{ height: `${(point.downloads / seriesMax) * 100}%` }}></div>
+                  </div>
+                  <small>{formatPeriod(point.period, analytics.interval)}</small>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="dashboard-card">
+            <h4><i className="fas fa-weight-hanging"></i> Tamanho dos documentos</h4>
+            {analytics.sizeDistribution.map(bucket => (
+              <div key={bucket.label} className="histogram-row">
+                <span>{bucket.label}</span>
+                <div className="histogram-bar">
+                  <div style={{ width: `${(bucket.count / sizeMax) * 100}%` }}></div>
+                </div>
+                <strong>{bucket.count}</strong>
+              </div>
+            ))}
+          </div>
+
+          {renderRanking('Maiores documentos', 'fa-file-pdf', analytics.largest, file => file.fileSize)}
+          {renderRanking('Mais baixados no período', 'fa-download', analytics.mostDownloaded, file => `${file.downloads}`)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Tag } from '../types';
+
+interface TagChipsProps {
+  tags: Tag[];
+  onSelect: (tag: Tag) => void;
+  onEdit?: () => void;
+}
+
+const TagChips: React.FC<TagChipsProps> = ({ tags, onSelect, onEdit }) => (
+  <div className="tag-chips">
+    {tags.map(tag => (
+      <span
+        key={tag.id}
+        className="tag-chip"
+        style={tag.color ? { background: tag.color } : undefined}
+        onClick={() => onSelect(tag)}
+        title={`Filtrar por "${tag.name}"`}
+      >
+        <i className="fas fa-tag"></i> {tag.name}
+      </span>
+    ))}
+    {onEdit && (
+      <span className="tag-chip tag-chip-edit" onClick={onEdit} title="Editar tags">
+        <i className="fas fa-pen"></i> {tags.length === 0 ? 'Adicionar tags' : ''}
+      </span>
+    )}
+  </div>
+);
+
+export default TagChips;
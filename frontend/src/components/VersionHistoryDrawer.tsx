@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { UploadedFile, FileVersion, VersionsResponse, UploadResponse } from '../types';
+
+const API_BASE = '/api';
+
+interface VersionHistoryDrawerProps {
+  file: UploadedFile;
+  onClose: () => void;
+  onChanged: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const VersionHistoryDrawer: React.FC<VersionHistoryDrawerProps> = ({ file, onClose, onChanged, onError }) => {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const loadVersions = useCallback(async (): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await axios.get<VersionsResponse>(`${API_BASE}/files/${file.id}/versions`);
+      if (response.data.success) {
+        setVersions(response.data.versions);
+      }
+    } catch (error) {
+      console.error('Erro ao carregar versões:', error);
+      onError('Erro ao carregar versões');
+    } finally {
+      setLoading(false);
+    }
+  }, [file.id, onError]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const uploadVersion = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    const formData = new FormData();
+    formData.append('pdfFile', selected);
+
+    try {
+      setLoading(true);
+      const response = await axios.post<UploadResponse>(`${API_BASE}/files/${file.id}/versions`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      onChanged(response.data.message);
+      loadVersions();
+    } catch (error: any) {
+      console.error('Erro ao enviar versão:', error);
+      onError(error.response?.data?.error || 'Erro ao enviar versão');
+      setLoading(false);
+    }
+  };
+
+  const promoteVersion = async (version: number): Promise<void> => {
+    if (!confirm(`Restaurar a versão ${version} como atual?`)) return;
+
+    try {
+      const response = await axios.post<UploadResponse>(`${API_BASE}/files/${file.id}/versions/${version}/promote`);
+      onChanged(response.data.message);
+      loadVersions();
+    } catch (error: any) {
+      console.error('Erro ao restaurar versão:', error);
+      onError(error.response?.data?.error || 'Erro ao restaurar versão');
+    }
+  };
+
+  return (
+    <div className="drawer-backdrop" onClick={onClose}>
+      <div className="drawer" onClick={(e) => e.stopPropagation()}>
+        <div className="drawer-header">
+          <h3><i className="fas fa-history"></i> Histórico de versões</h3>
+          <button className="btn btn-secondary" onClick={onClose} title="Fechar">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <p className="drawer-subtitle">{file.customName}</p>
+
+        <input
+          type="file"
+          id="versionInput"
+          className="file-input"
+          accept=".pdf"
+          onChange={uploadVersion}
+        />
+        <button
+          className="btn btn-success"
+          onClick={() => document.getElementById('versionInput')?.click()}
+          disabled={loading}
+        >
+          <i className="fas fa-upload"></i> Enviar nova versão
+        </button>
+
+        {loading ? (
+          <div className="loading">
+            <i className="fas fa-spinner fa-spin"></i> Carregando versões...
+          </div>
+        ) : (
+          <div className="version-list">
+            {versions.map(version => (
+              <div key={version.version} className={`version-item ${version.current ? 'current' : ''}`}>
+                <div>
+                  <strong>Versão {version.version}</strong>
+                  {version.current && <span className="badge">atual</span>}
+                  <br />
+                  <small>{version.originalName} • {version.fileSize}</small><br />
+                  <small>{version.uploadDate}</small>
+                </div>
+                <div className="file-card-actions">
+                  <button
+                    className="btn"
+                    onClick={() => window.open(version.downloadUrl, '_blank')}
+                    title="Download"
+                  >
+                    <i className="fas fa-download"></i>
+                  </button>
+                  {!version.current && (
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => promoteVersion(version.version)}
+                      title="Restaurar como atual"
+                    >
+                      <i className="fas fa-undo"></i>
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryDrawer;
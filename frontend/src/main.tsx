@@ -1,8 +1,12 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import axios from 'axios'
 import App from './App.tsx'
 import './index.css'
 
+// Envia o cookie de sessão em todas as chamadas à API
+axios.defaults.withCredentials = true
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,83 @@
+import { FileListQuery } from '../types';
+
+export type AppTab = 'upload' | 'files' | 'search' | 'trash' | 'dashboard';
+
+const TABS: AppTab[] = ['upload', 'files', 'search', 'trash', 'dashboard'];
+
+export const DEFAULT_LIST_QUERY: FileListQuery = {
+  sort: 'date',
+  order: 'desc',
+  minSizeMb: '',
+  maxSizeMb: '',
+  uploadedFrom: '',
+  uploadedTo: ''
+};
+
+// Estado da listagem refletido na URL, para recarregar ou compartilhar a mesma visão
+export interface ListingState {
+  tab: AppTab;
+  page: number;
+  folder: string | null;
+  tag: string | null;
+  query: FileListQuery;
+}
+
+const QUERY_PARAMS: Record<keyof FileListQuery, string> = {
+  sort: 'sort',
+  order: 'order',
+  minSizeMb: 'minMb',
+  maxSizeMb: 'maxMb',
+  uploadedFrom: 'from',
+  uploadedTo: 'to'
+};
+
+export const readListingState = (): ListingState => {
+  const params = new URLSearchParams(window.location.search);
+  const tab = params.get('tab') as AppTab;
+  const sort = params.get('sort');
+  const order = params.get('order');
+
+  const query: FileListQuery = { ...DEFAULT_LIST_QUERY };
+  for (const key of ['minSizeMb', 'maxSizeMb', 'uploadedFrom', 'uploadedTo'] as const) {
+    query[key] = params.get(QUERY_PARAMS[key]) || '';
+  }
+  if (sort === 'date' || sort === 'name' || sort === 'size') query.sort = sort;
+  if (order === 'asc' || order === 'desc') query.order = order;
+
+  return {
+    tab: TABS.includes(tab) ? tab : 'upload',
+    page: Math.max(parseInt(params.get('page') || '1') || 1, 1),
+    folder: params.get('folder'),
+    tag: params.get('tag'),
+    query
+  };
+};
+
+// Só os valores diferentes do padrão vão para a URL
+export const writeListingState = (state: ListingState): void => {
+  const params = new URLSearchParams();
+  if (state.tab !== 'upload') params.set('tab', state.tab);
+  if (state.page > 1) params.set('page', String(state.page));
+  if (state.folder) params.set('folder', state.folder);
+  if (state.tag) params.set('tag', state.tag);
+  for (const key of Object.keys(QUERY_PARAMS) as (keyof FileListQuery)[]) {
+    if (state.query[key] !== DEFAULT_LIST_QUERY[key]) params.set(QUERY_PARAMS[key], state.query[key]);
+  }
+
+  const search = params.toString();
+  const url = `${window.location.pathname}${search ? `?${search}` : ''}`;
+  if (url !== `${window.location.pathname}${window.location.search}`) {
+    window.history.replaceState(null, '', url);
+  }
+};
+
+// Parâmetros de GET /api/files correspondentes aos filtros da tela
+export const toListParams = (query: FileListQuery, params: URLSearchParams): void => {
+  params.set('sort', query.sort);
+  params.set('order', query.order);
+  const megabytes = (value: string) => String(Math.round(parseFloat(value) * 1024 * 1024));
+  if (query.minSizeMb && !isNaN(parseFloat(query.minSizeMb))) params.set('minSize', megabytes(query.minSizeMb));
+  if (query.maxSizeMb && !isNaN(parseFloat(query.maxSizeMb))) params.set('maxSize', megabytes(query.maxSizeMb));
+  if (query.uploadedFrom) params.set('uploadedFrom', query.uploadedFrom);
+  if (query.uploadedTo) params.set('uploadedTo', query.uploadedTo);
+};
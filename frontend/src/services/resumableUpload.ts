@@ -0,0 +1,138 @@
+import axios from 'axios';
+import {
+  PendingUpload,
+  ResumableUpload,
+  ResumableUploadResponse,
+  UploadResponse
+} from '../types';
+
+const API_BASE = '/api';
+const STORAGE_PREFIX = 'resumable-upload:';
+
+// Pasta e tags aplicadas ao documento quando o envio terminar
+export interface UploadOptions {
+  folderId?: string | null;
+  tags?: string[];
+}
+
+// Arquivos acima deste tamanho usam o upload em partes
+export const RESUMABLE_THRESHOLD = 10 * 1024 * 1024;
+export const MAX_RESUMABLE_SIZE = 500 * 1024 * 1024;
+
+// Um arquivo é reconhecido após recarregar a página pelo nome, tamanho e data
+const storageKey = (file: File): string =>
+  `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const saveProgress = (key: string, upload: ResumableUpload): void => {
+  const pending: PendingUpload = {
+    key,
+    uploadId: upload.id,
+    fileName: upload.originalName,
+    fileSize: upload.fileSize,
+    customName: upload.customName,
+    progress: Math.round((upload.receivedChunks.length / upload.totalChunks) * 100)
+  };
+  localStorage.setItem(key, JSON.stringify(pending));
+};
+
+export const listPendingUploads = (): PendingUpload[] =>
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(STORAGE_PREFIX))
+    .map(key => {
+      try {
+        return JSON.parse(localStorage.getItem(key) || '') as PendingUpload;
+      } catch {
+        return null;
+      }
+    })
+    .filter((pending): pending is PendingUpload => pending !== null);
+
+export const findPendingUpload = (file: File): PendingUpload | undefined =>
+  listPendingUploads().find(pending => pending.key === storageKey(file));
+
+export const discardPendingUpload = async (pending: PendingUpload): Promise<void> => {
+  localStorage.removeItem(pending.key);
+  try {
+    await axios.delete(`${API_BASE}/uploads/${pending.uploadId}`);
+  } catch {
+    // A sessão pode já ter expirado no servidor
+  }
+};
+
+// Retoma a sessão salva quando ela ainda existe no servidor, senão cria outra
+const resolveSession = async (
+  file: File,
+  customName: string,
+  options: UploadOptions
+): Promise<ResumableUpload> => {
+  const pending = findPendingUpload(file);
+
+  if (pending) {
+    try {
+      const response = await axios.get<ResumableUploadResponse>(`${API_BASE}/uploads/${pending.uploadId}`);
+      if (response.data.upload?.status === 'pending') {
+        return response.data.upload;
+      }
+    } catch {
+      // Sessão desconhecida: começa do zero
+    }
+    localStorage.removeItem(pending.key);
+  }
+
+  const response = await axios.post<ResumableUploadResponse>(`${API_BASE}/uploads`, {
+    fileName: file.name,
+    fileSize: file.size,
+    mimeType: file.type,
+    customName,
+    folderId: options.folderId || null,
+    tags: options.tags || []
+  });
+
+  if (!response.data.success || !response.data.upload) {
+    throw new Error(response.data.error || 'Erro ao iniciar upload');
+  }
+  return response.data.upload;
+};
+
+/**
+ * Envia um arquivo em partes, pulando as que o servidor já recebeu.
+ * O progresso fica salvo no localStorage para sobreviver a um reload.
+ */
+export const resumableUpload = async (
+  file: File,
+  customName: string,
+  onProgress: (percent: number) => void,
+  options: UploadOptions = {}
+): Promise<UploadResponse> => {
+  const key = storageKey(file);
+  let upload = await resolveSession(file, customName, options);
+  saveProgress(key, upload);
+
+  const received = new Set(upload.receivedChunks);
+  onProgress(Math.round((received.size / upload.totalChunks) * 100));
+
+  for (let index = 0; index < upload.totalChunks; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * upload.chunkSize;
+    const chunk = file.slice(start, Math.min(start + upload.chunkSize, file.size));
+    const response = await axios.put<ResumableUploadResponse>(
+      `${API_BASE}/uploads/${upload.id}/chunks/${index}`,
+      chunk,
+      { headers: { 'Content-Type': 'application/octet-stream' } }
+    );
+
+    if (response.data.upload) {
+      upload = response.data.upload;
+      saveProgress(key, upload);
+      onProgress(Math.round((upload.receivedChunks.length / upload.totalChunks) * 100));
+    }
+  }
+
+  // 422: o arquivo foi rejeitado na validação e a sessão termina mesmo assim
+  const response = await axios.post<UploadResponse>(`${API_BASE}/uploads/${upload.id}/complete`, undefined, {
+    validateStatus: status => (status >= 200 && status < 300) || status === 422
+  });
+  localStorage.removeItem(key);
+  return response.data;
+};
@@ -1,3 +1,42 @@
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: 'user' | 'admin';
+}
+
+export interface AuthResponse {
+  success: boolean;
+  user?: AuthUser;
+  error?: string;
+}
+
+export interface PdfMetadata {
+  pdfVersion: string | null;
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  producer: string | null;
+  creationDate: string | null;
+  encrypted: boolean;
+  signed: boolean;
+  hasForms: boolean;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null;
+  fileCount?: number;
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  fileCount: number;
+}
+
 export interface UploadedFile {
   id: string;
   customName: string;
@@ -6,20 +45,192 @@ export interface UploadedFile {
   fileSize: string;
   uploadDate: string;
   downloadUrl: string;
+  thumbnailUrl: string;
+  viewUrl: string;
+  pageCount: number | null;
+  metadata: PdfMetadata;
+  folderId: string | null;
+  // Dados descritivos editáveis (PATCH /api/files/:id)
+  description: string | null;
+  documentDate: string | null;
+  referenceNumber: string | null;
+  properties: Record<string, string>;
+  // Data da última alteração (ISO), usada como controle de concorrência
+  updatedAt: string;
+  tags: Tag[];
+  version: number;
+  versionCount: number;
+  snippet?: string;
+  // Presente apenas para documentos na lixeira
+  deletedAt?: string;
+  // Presente quando a verificação do storage marcou o conteúdo como ausente ou corrompido
+  storageIssue?: StorageIssue;
+  duplicate?: boolean;
+  duplicateOf?: {
+    id: string;
+    customName: string;
+  };
+}
+
+export type StorageIssue = 'missing' | 'size_mismatch' | 'hash_mismatch';
+
+export interface FileVersion {
+  version: number;
+  originalName: string;
+  fileSize: string;
+  uploadDate: string;
+  current: boolean;
+  downloadUrl: string;
+}
+
+export interface VersionsResponse {
+  success: boolean;
+  versions: FileVersion[];
+  error?: string;
+}
+
+export interface FileResponse {
+  success: boolean;
+  message?: string;
+  file?: UploadedFile;
+  error?: string;
+}
+
+export type FileDetailsField = 'customName' | 'description' | 'documentDate' | 'referenceNumber' | 'properties';
+
+export interface FileChange {
+  id: string;
+  changedAt: string;
+  changedBy: string | null;
+  changedByName: string | null;
+  changes: Partial<Record<FileDetailsField, { from: unknown; to: unknown }>>;
+}
+
+export interface FileChangesResponse {
+  success: boolean;
+  changes: FileChange[];
+  error?: string;
+}
+
+export interface FoldersResponse {
+  success: boolean;
+  folders: Folder[];
+  error?: string;
+}
+
+export interface FolderResponse {
+  success: boolean;
+  message?: string;
+  folder?: Folder;
+  error?: string;
+}
+
+export interface TagsResponse {
+  success: boolean;
+  tags: Tag[];
+  error?: string;
+}
+
+export interface TagResponse {
+  success: boolean;
+  message?: string;
+  tag?: Tag;
+  error?: string;
+}
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  url: string;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  hasPassword: boolean;
+  active: boolean;
+  revoked: boolean;
+  createdAt: string;
+}
+
+export interface ShareLinksResponse {
+  success: boolean;
+  links: ShareLink[];
+  error?: string;
+}
+
+export interface ShareLinkResponse {
+  success: boolean;
+  message?: string;
+  link?: ShareLink;
+  error?: string;
 }
 
 export interface SelectedFile {
   file: File;
   customName: string;
+  progress?: number;
+}
+
+export interface ResumableUpload {
+  id: string;
+  customName: string;
+  originalName: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: 'pending' | 'assembling' | 'completed' | 'failed' | 'quarantined';
+  expiresAt: string;
+}
+
+export interface ResumableUploadResponse {
+  success: boolean;
+  upload?: ResumableUpload;
+  error?: string;
+}
+
+export interface PendingUpload {
+  key: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  customName: string;
+  progress: number;
 }
 
 export interface UploadResponse {
   success: boolean;
   message: string;
   files: UploadedFile[];
+  duplicates?: number;
+  // Arquivos reprovados na validação e enviados para a quarentena
+  rejected?: RejectedFile[];
+  error?: string;
+}
+
+export interface RejectedFile {
+  originalName: string;
+  reason: string;
+  quarantineId: string;
+}
+
+export interface QuarantinedFile {
+  id: string;
+  originalName: string;
+  fileSize: string;
+  reasonCode: string;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface QuarantineResponse {
+  success: boolean;
+  files: QuarantinedFile[];
   error?: string;
 }
 
+export type FileSort = 'date' | 'name' | 'size' | 'relevance';
+export type SortDirection = 'asc' | 'desc';
+
 export interface FilesResponse {
   success: boolean;
   files: UploadedFile[];
@@ -28,6 +239,8 @@ export interface FilesResponse {
     limit: number;
     total: number;
     totalPages: number;
+    // Próxima página pelo cursor (?cursor=...); null na última
+    nextCursor: string | null;
   };
   error?: string;
 }
@@ -38,6 +251,135 @@ export interface StatsResponse {
     totalFiles: number;
     totalSize: string;
     recentUploads: number;
+    trashFiles: number;
+    trashSize: string;
+    // Uso em relação às cotas do usuário (a global, para admins)
+    quota: QuotaUsage | null;
+    // Só quando pedido com interval, from ou to
+    analytics?: StatsAnalytics;
+  };
+  error?: string;
+}
+
+export interface QuotaUsage {
+  usedBytes: number;
+  usedFiles: number;
+  // null = sem limite
+  maxBytes: number | null;
+  maxFiles: number | null;
+  // Percentual do limite mais próximo de ser atingido (null sem limites)
+  percent: number | null;
+  warning: boolean;
+}
+
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export interface StatsSeriesPoint {
+  // Início do período (AAAA-MM-DD)
+  period: string;
+  uploads: number;
+  downloads: number;
+}
+
+export interface SizeBucket {
+  label: string;
+  minBytes: number;
+  // null na última faixa
+  maxBytes: number | null;
+  count: number;
+}
+
+export interface RankedFile {
+  id: string;
+  customName: string;
+  fileSize: string;
+  bytes: number;
+  // Downloads no período (só no ranking de mais baixados)
+  downloads?: number;
+}
+
+export interface StatsAnalytics {
+  interval: StatsInterval;
+  from: string;
+  to: string;
+  series: StatsSeriesPoint[];
+  sizeDistribution: SizeBucket[];
+  largest: RankedFile[];
+  mostDownloaded: RankedFile[];
+}
+
+export type BulkAction = 'delete' | 'move' | 'tag';
+
+export interface BulkActionResponse {
+  success: boolean;
+  message?: string;
+  affected: number;
+  // Ids inexistentes ou sem acesso; nesse caso nada é alterado
+  notFound?: string[];
+  error?: string;
+}
+
+// Origem das páginas de um documento gerado por junção, divisão, extração ou rotação
+export interface FileSource {
+  // null quando o documento de origem já foi excluído definitivamente
+  fileId: string | null;
+  name: string;
+  version: number;
+  operation: 'merge' | 'split' | 'extract' | 'rotate' | 'compose';
+  pages: number[];
+}
+
+export interface FileSourcesResponse {
+  success: boolean;
+  sources: FileSource[];
+  error?: string;
+}
+
+export interface TrashResponse {
+  success: boolean;
+  files: UploadedFile[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  // Dias até a remoção definitiva automática
+  retentionDays: number;
+  error?: string;
+}
+
+export type AuditAction =
+  | 'upload' | 'download' | 'view' | 'delete' | 'restore' | 'purge' | 'move' | 'tag' | 'update'
+  | 'version.upload' | 'version.download' | 'version.promote'
+  | 'share.create' | 'share.revoke' | 'share.download'
+  | 'merge' | 'split' | 'extract' | 'rotate' | 'compose';
+
+// success: concluída; denied: sem sessão, sem acesso ou inexistente; failure: erro ou interrompida
+export type AuditResult = 'success' | 'failure' | 'denied';
+
+export interface AuditEvent {
+  id: string;
+  occurredAt: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  fileId: string | null;
+  fileName: string | null;
+  action: AuditAction;
+  result: AuditResult;
+  details: Record<string, unknown> | null;
+}
+
+export interface AuditResponse {
+  success: boolean;
+  events: AuditEvent[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
   };
   error?: string;
 }
@@ -56,4 +398,14 @@ export interface Message {
 export interface Pagination {
   page: number;
   totalPages: number;
+}
+
+// Ordenação e filtros da aba Arquivos (tamanhos em MB, datas AAAA-MM-DD; vazio = sem filtro)
+export interface FileListQuery {
+  sort: Exclude<FileSort, 'relevance'>;
+  order: SortDirection;
+  minSizeMb: string;
+  maxSizeMb: string;
+  uploadedFrom: string;
+  uploadedTo: string;
 }
\ No newline at end of file
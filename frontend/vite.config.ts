@@ -9,6 +9,11 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:5000',
         changeOrigin: true
+      },
+      // Links públicos de compartilhamento (regex para não capturar /src)
+      '^/s/.*': {
+        target: 'http://localhost:5000',
+        changeOrigin: true
       }
     }
   }